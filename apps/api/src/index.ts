@@ -11,12 +11,22 @@ import { standardRateLimiter } from './middleware/rateLimiter'
 import eventsRouter from './routes/events'
 import authRouter from './routes/auth'
 import alertsRouter from './routes/alerts'
+import notificationsRouter from './routes/notifications'
+import adminRouter from './routes/admin'
+import recommendationsRouter from './routes/recommendations'
+import calendarRouter from './routes/calendar'
+import apiKeysRouter from './routes/api-keys'
+import v1Router from './routes/v1'
 
 const app = express()
 const PORT = process.env.API_PORT || 4000
 
 // Middleware
 app.use(helmet())
+
+// Partner API: open to any origin, limited per API key instead of per IP
+app.use('/v1', v1Router)
+
 app.use(cors({
   origin: function(origin, callback) {
     const allowedOrigins = [
@@ -50,6 +60,11 @@ app.get('/health', (req, res) => {
 app.use('/api/events', eventsRouter)
 app.use('/api/auth', authRouter)
 app.use('/api/alerts', alertsRouter)
+app.use('/api/notifications', notificationsRouter)
+app.use('/api/admin', adminRouter)
+app.use('/api/recommendations', recommendationsRouter)
+app.use('/api/calendar', calendarRouter)
+app.use('/api/api-keys', apiKeysRouter)
 
 // Error handling
 app.use(errorHandler)
@@ -0,0 +1,220 @@
+import { Request, Response, NextFunction } from 'express'
+import { createHash, randomBytes } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import { startOfCalendarDay, toCalendarDay } from '@events-agregator/shared'
+import { AppError } from './errorHandler'
+import { redis } from '../utils/redis'
+import { logger } from '../utils/logger'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export interface ApiKeyRequest extends Request {
+  apiKey?: {
+    id: string
+    userId: string
+    requestsPerMinute: number
+    requestsPerDay: number
+  }
+}
+
+const KEY_PREFIX = 'ea_'
+// Characters kept in api_keys.key_prefix for display
+const DISPLAY_PREFIX_LENGTH = 10
+// Revoked keys stop working on other API instances after at most this long
+const KEY_CACHE_MS = 60 * 1000
+const MAX_CACHED_KEYS = 10000
+// Daily usage hashes are kept this long, enough for 30-day statistics
+export const USAGE_RETENTION_DAYS = 35
+const DAY_MS = 24 * 60 * 60 * 1000
+// Whether requests go through unlimited while Redis can not be reached, or get a 503
+export const QUOTA_FAIL_OPEN = process.env.API_KEY_QUOTA_FAIL_OPEN !== 'false'
+
+// Counts the request against the minute window; the daily total only grows for accepted
+// requests, rejected ones are counted apart. Returns [minute count, daily total, accepted].
+const CONSUME_QUOTA_SCRIPT = `
+local minute = redis.call('INCR', KEYS[1])
+if minute == 1 then redis.call('EXPIRE', KEYS[1], 60) end
+local day = tonumber(redis.call('HGET', KEYS[2], 'total') or '0')
+local accepted = minute <= tonumber(ARGV[1]) and day < tonumber(ARGV[2])
+if accepted then
+  day = redis.call('HINCRBY', KEYS[2], 'total', 1)
+else
+  redis.call('HINCRBY', KEYS[2], 'rejected', 1)
+end
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return { minute, day, accepted and 1 or 0 }
+`
+
+// Quota checks that could not reach Redis since the process started, by outcome
+export const quotaCheckFailures = { total: 0, allowed: 0, refused: 0, lastAt: null as string | null }
+
+const keyCache = new Map<string, { key: ApiKeyRequest['apiKey'] | null; expiresAt: number }>()
+
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex')
+
+// New key with its hash and display prefix; only the hash is stored
+export function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+  return { key, keyHash: hashApiKey(key), keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH) }
+}
+
+// Drops a revoked key from this instance's cache right away
+export const forgetApiKey = (keyHash: string) => {
+  keyCache.delete(keyHash)
+}
+
+// Usage is counted per Polish calendar day (YYYY-MM-DD)
+export const usageDay = (date: Date = new Date()) => toCalendarDay(date).toISOString().slice(0, 10)
+
+// Redis hash with a key's requests on one day: total, rejected and per endpoint
+export const usageKey = (apiKeyId: string, day: string = usageDay()) => `api-usage:${apiKeyId}:${day}`
+
+export const authenticateApiKey = async (
+  req: ApiKeyRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const key = req.header('x-api-key')
+
+    if (!key) {
+      throw new AppError('API key required in the X-API-Key header', 401)
+    }
+
+    const apiKey = await findApiKey(hashApiKey(key))
+
+    if (!apiKey) {
+      throw new AppError('Invalid or revoked API key', 401)
+    }
+
+    req.apiKey = apiKey
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+/**
+ * Per-key quotas: fixed one-minute and one-day windows counted in Redis, so all API
+ * instances share them. Also counts requests per endpoint for the usage statistics.
+ * When Redis is unavailable requests go through unlimited, or with API_KEY_QUOTA_FAIL_OPEN=false
+ * are refused; either way the failure is counted in quotaCheckFailures.
+ */
+export const apiKeyRateLimiter = async (
+  req: ApiKeyRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const apiKey = req.apiKey!
+  const now = Date.now()
+  const minuteWindow = Math.floor(now / 60000)
+  const dailyUsageKey = usageKey(apiKey.id, usageDay(new Date(now)))
+
+  let quota: [number, number, number]
+  try {
+    quota = await redis.eval(
+      CONSUME_QUOTA_SCRIPT,
+      2,
+      `api-quota:${apiKey.id}:${minuteWindow}`,
+      dailyUsageKey,
+      apiKey.requestsPerMinute,
+      apiKey.requestsPerDay,
+      USAGE_RETENTION_DAYS * 24 * 60 * 60
+    ) as [number, number, number]
+  } catch (error: any) {
+    quotaCheckFailures.total++
+    quotaCheckFailures[QUOTA_FAIL_OPEN ? 'allowed' : 'refused']++
+    quotaCheckFailures.lastAt = new Date(now).toISOString()
+
+    if (QUOTA_FAIL_OPEN) {
+      logger.error('API key quota check failed, letting the request through', { message: error.message, apiKeyId: apiKey.id })
+      return next()
+    }
+    logger.error('API key quota check failed, refusing the request', { message: error.message, apiKeyId: apiKey.id })
+    return next(new AppError('Rate limiting is temporarily unavailable, please try again later', 503))
+  }
+
+  const [minuteCount, dayCount, accepted] = quota
+
+  res.set({
+    'RateLimit-Limit': String(apiKey.requestsPerMinute),
+    'RateLimit-Remaining': String(Math.max(0, apiKey.requestsPerMinute - minuteCount)),
+    'RateLimit-Reset': String(Math.ceil(((minuteWindow + 1) * 60000 - now) / 1000)),
+    'X-Daily-Limit': String(apiKey.requestsPerDay),
+    'X-Daily-Remaining': String(Math.max(0, apiKey.requestsPerDay - dayCount)),
+  })
+
+  if (!accepted) {
+    // The daily quota is renewed at midnight Polish time, a minute window within the minute
+    const dailyQuotaExceeded = dayCount >= apiKey.requestsPerDay
+    const retryAfter = dailyQuotaExceeded
+      ? String(Math.ceil((nextUsageDayStart(now) - now) / 1000))
+      : res.get('RateLimit-Reset')!
+    res.set('Retry-After', retryAfter)
+    return next(new AppError(
+      dailyQuotaExceeded
+        ? `Daily quota of ${apiKey.requestsPerDay} requests exceeded`
+        : `Rate limit of ${apiKey.requestsPerMinute} requests per minute exceeded`,
+      429
+    ))
+  }
+
+  // Route patterns (not concrete URLs) keep the number of fields small
+  res.on('finish', () => {
+    recordUsage(dailyUsageKey, req.route?.path ? `${req.method} ${req.baseUrl}${req.route.path}` : 'other')
+  })
+
+  next()
+}
+
+// Midnight in Poland starting the next usage day
+function nextUsageDayStart(now: number): number {
+  return startOfCalendarDay(new Date(toCalendarDay(new Date(now)).getTime() + DAY_MS)).getTime()
+}
+
+function recordUsage(dailyUsageKey: string, field: string) {
+  redis.hincrby(dailyUsageKey, field, 1).catch((error) => {
+    logger.error('Failed to record API usage', { message: error.message })
+  })
+}
+
+async function findApiKey(keyHash: string): Promise<ApiKeyRequest['apiKey'] | null> {
+  const cached = keyCache.get(keyHash)
+  if (cached && cached.expiresAt > Date.now()) return cached.key
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, user_id, requests_per_minute, requests_per_day')
+    .eq('key_hash', keyHash)
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) throw error
+
+  const apiKey = data
+    ? { id: data.id, userId: data.user_id, requestsPerMinute: data.requests_per_minute, requestsPerDay: data.requests_per_day }
+    : null
+
+  // Unknown keys are cached too, so guessing does not reach the database on every request
+  if (keyCache.size >= MAX_CACHED_KEYS) keyCache.clear()
+  keyCache.set(keyHash, { key: apiKey, expiresAt: Date.now() + KEY_CACHE_MS })
+
+  if (apiKey) {
+    // Updated when the cache entry is refreshed, not on every request
+    const { error: updateError } = await supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id)
+
+    if (updateError) logger.error('Failed to update API key last use', updateError)
+  }
+
+  return apiKey
+}
@@ -0,0 +1,157 @@
+import { Router, Response, NextFunction } from 'express'
+import { z } from 'zod'
+import { createClient } from '@supabase/supabase-js'
+import { AppError } from '../middleware/errorHandler'
+import { authenticate, AuthRequest } from '../middleware/auth'
+import { QUOTA_FAIL_OPEN, quotaCheckFailures } from '../middleware/apiKey'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const router = Router()
+
+// A source is stale when it has not produced a real event for this long
+const STALE_AFTER_HOURS = 72
+
+// Row returned by the get_scraper_health() function
+interface ScraperHealthRow {
+  scraper_name: string
+  registered: boolean
+  enabled: boolean
+  total_runs: number
+  successful_runs: number
+  last_run_at: string | null
+  last_run_status: 'SUCCESS' | 'FAILED' | null
+  last_error: string | null
+  last_success_at: string | null
+  last_real_events_at: string | null
+  avg_duration_ms: number | null
+  http_failures: number
+  stale: boolean
+  yield_by_day: Array<{ date: string; realEvents: number; newEvents: number; runs: number }>
+}
+
+// Roles live in profiles, not in the auth token metadata
+const requireAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', req.user!.id)
+      .single()
+
+    if (error || !profile || !['ADMIN', 'MODERATOR'].includes(profile.role)) {
+      throw new AppError('Insufficient permissions', 403)
+    }
+
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+router.use(authenticate)
+router.use(requireAdmin)
+
+// GET /api/admin/scraper-runs - Recent scraper runs, optionally for one source
+router.get('/scraper-runs', async (req: AuthRequest, res, next) => {
+  try {
+    const querySchema = z.object({
+      scraper: z.string().optional(),
+      limit: z.string().transform(Number).default('50'),
+    })
+
+    const query = querySchema.parse(req.query)
+
+    let supabaseQuery = supabase
+      .from('scraper_runs')
+      .select('*')
+
+    if (query.scraper) {
+      supabaseQuery = supabaseQuery.eq('scraper_name', query.scraper)
+    }
+
+    const { data: runs, error } = await supabaseQuery
+      .order('started_at', { ascending: false })
+      .limit(Math.min(query.limit, 500))
+
+    if (error) throw error
+    res.json(runs || [])
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// GET /api/admin/scraper-health - Per-source success rate, yield over time and staleness
+router.get('/scraper-health', async (req: AuthRequest, res, next) => {
+  try {
+    const querySchema = z.object({
+      days: z.string().transform(Number).default('14'),
+    })
+
+    const query = querySchema.parse(req.query)
+    const days = Math.min(Math.max(query.days, 1), 90)
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    // Aggregated in SQL - loading the runs themselves would be capped by PostgREST's max_rows
+    const { data, error } = await supabase.rpc('get_scraper_health', {
+      p_since: since.toISOString(),
+      p_stale_after_hours: STALE_AFTER_HOURS,
+    })
+
+    if (error) throw error
+
+    const sources = ((data || []) as ScraperHealthRow[]).map(row => ({
+      scraperName: row.scraper_name,
+      registered: row.registered,
+      enabled: row.enabled,
+      totalRuns: row.total_runs,
+      successRate: row.total_runs > 0 ? row.successful_runs / row.total_runs : null,
+      lastRunAt: row.last_run_at,
+      lastRunStatus: row.last_run_status,
+      lastError: row.last_error,
+      lastSuccessAt: row.last_success_at,
+      lastRealEventsAt: row.last_real_events_at,
+      avgDurationMs: row.avg_duration_ms ?? 0,
+      httpFailures: row.http_failures,
+      stale: row.stale,
+      yieldByDay: row.yield_by_day,
+    }))
+
+    sources.sort((a, b) => Number(b.stale) - Number(a.stale) || a.scraperName.localeCompare(b.scraperName))
+
+    res.json({
+      since: since.toISOString(),
+      staleAfterHours: STALE_AFTER_HOURS,
+      sources,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// GET /api/admin/api-key-quota - Quota checks of this instance that could not reach Redis
+router.get('/api-key-quota', (req: AuthRequest, res) => {
+  res.json({
+    failOpen: QUOTA_FAIL_OPEN,
+    checkFailures: quotaCheckFailures.total,
+    allowedUnchecked: quotaCheckFailures.allowed,
+    refused: quotaCheckFailures.refused,
+    lastFailureAt: quotaCheckFailures.lastAt,
+    uptimeSeconds: Math.round(process.uptime()),
+  })
+})
+
+export default router
@@ -15,7 +15,97 @@ const supabase = createClient(
 
 const router = Router()
 
-// All routes require authentication
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+const unsubscribeTokenSchema = z.string().uuid()
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+// Minimal standalone page - the user may not be signed in to the web app
+const renderPage = (title: string, content: string): string => `<!DOCTYPE html>
+<html lang="pl">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="font-family:sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#111827">
+  <h1 style="font-size:20px">${escapeHtml(title)}</h1>
+  ${content}
+  <p style="margin-top:32px;font-size:14px"><a href="${escapeHtml(APP_URL)}/alerts">Zarządzaj alertami</a></p>
+</body>
+</html>`
+
+// GET /api/alerts/unsubscribe/:token - Confirmation page for the link in a notification email.
+// Mail scanners and prefetchers follow links, so a GET never changes anything.
+router.get('/unsubscribe/:token', async (req, res, next) => {
+  try {
+    const token = unsubscribeTokenSchema.parse(req.params.token)
+
+    const { data: alert, error } = await supabase
+      .from('alerts')
+      .select('name, is_active')
+      .eq('unsubscribe_token', token)
+      .single()
+
+    if (error || !alert) {
+      throw new AppError('Alert not found', 404)
+    }
+
+    res.type('html').send(alert.is_active
+      ? renderPage('Wypisz się z alertu', `
+  <p>Nie będziesz już otrzymywać powiadomień z alertu „${escapeHtml(alert.name)}”.</p>
+  <form method="post">
+    <button type="submit" style="padding:8px 16px;background:#2563eb;color:#fff;border:0;border-radius:6px;cursor:pointer">Wypisz mnie</button>
+  </form>`)
+      : renderPage('Alert jest już wyłączony', `
+  <p>Alert „${escapeHtml(alert.name)}” nie wysyła już powiadomień.</p>`))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError('Invalid unsubscribe token', 400))
+    }
+    next(error)
+  }
+})
+
+// POST /api/alerts/unsubscribe/:token - Deactivate the alert. Submitted by the confirmation page
+// and by mail clients supporting one-click unsubscribe (RFC 8058 List-Unsubscribe-Post)
+router.post('/unsubscribe/:token', async (req, res, next) => {
+  try {
+    const token = unsubscribeTokenSchema.parse(req.params.token)
+
+    const { data: alert, error } = await supabase
+      .from('alerts')
+      .update({ is_active: false })
+      .eq('unsubscribe_token', token)
+      .select('name')
+      .single()
+
+    if (error || !alert) {
+      throw new AppError('Alert not found', 404)
+    }
+
+    if (req.body?.['List-Unsubscribe'] === 'One-Click') {
+      res.json({ success: true })
+      return
+    }
+
+    res.type('html').send(renderPage('Wypisano z alertu', `
+  <p>Alert „${escapeHtml(alert.name)}” został wyłączony. Możesz go włączyć ponownie w ustawieniach alertów.</p>`))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError('Invalid unsubscribe token', 400))
+    }
+    next(error)
+  }
+})
+
+// All other routes require authentication
 router.use(authenticate)
 
 // GET /api/alerts - Get user's alerts
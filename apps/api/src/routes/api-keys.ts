@@ -0,0 +1,172 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { createClient } from '@supabase/supabase-js'
+import { AppError } from '../middleware/errorHandler'
+import { authenticate, AuthRequest } from '../middleware/auth'
+import { forgetApiKey, generateApiKey, usageDay, usageKey, USAGE_RETENTION_DAYS } from '../middleware/apiKey'
+import { redis } from '../utils/redis'
+import { logger } from '../utils/logger'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const router = Router()
+
+const MAX_ACTIVE_KEYS = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+const KEY_COLUMNS = 'id, name, key_prefix, requests_per_minute, requests_per_day, last_used_at, revoked_at, created_at'
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+})
+
+const usageQuerySchema = z.object({
+  days: z.string().transform(Number).pipe(z.number().int().min(1).max(USAGE_RETENTION_DAYS - 5)).default('30'),
+})
+
+router.use(authenticate)
+
+// GET /api/api-keys - User's API keys with today's request count
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const { data: keys, error } = await supabase
+      .from('api_keys')
+      .select(KEY_COLUMNS)
+      .eq('user_id', req.user!.id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    const requestsToday = await readUsage((keys || []).map(key => usageKey(key.id)))
+    res.json((keys || []).map((key, index) => ({
+      ...key,
+      requests_today: Number(requestsToday[index]?.total || 0),
+    })))
+  } catch (error) {
+    next(error)
+  }
+})
+
+// POST /api/api-keys - Create a key; the full key is returned only in this response
+router.post('/', async (req: AuthRequest, res, next) => {
+  try {
+    const data = createApiKeySchema.parse(req.body)
+
+    const { count, error: countError } = await supabase
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', req.user!.id)
+      .is('revoked_at', null)
+
+    if (countError) throw countError
+    if ((count || 0) >= MAX_ACTIVE_KEYS) {
+      throw new AppError(`You can have at most ${MAX_ACTIVE_KEYS} active API keys`, 400)
+    }
+
+    const { key, keyHash, keyPrefix } = generateApiKey()
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: req.user!.id,
+        name: data.name,
+        key_prefix: keyPrefix,
+        key_hash: keyHash,
+      })
+      .select(KEY_COLUMNS)
+      .single()
+
+    if (error) throw error
+    res.status(201).json({ ...apiKey, key, requests_today: 0 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// DELETE /api/api-keys/:id - Revoke a key; it is kept for the usage history
+router.delete('/:id', async (req: AuthRequest, res, next) => {
+  try {
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .is('revoked_at', null)
+      .select('id, key_hash')
+      .single()
+
+    if (error || !apiKey) {
+      throw new AppError('API key not found', 404)
+    }
+
+    forgetApiKey(apiKey.key_hash)
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// GET /api/api-keys/:id/usage - Requests per day (Polish calendar days) and per endpoint
+router.get('/:id/usage', async (req: AuthRequest, res, next) => {
+  try {
+    const query = usageQuerySchema.parse(req.query)
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .select('id')
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .single()
+
+    if (error || !apiKey) {
+      throw new AppError('API key not found', 404)
+    }
+
+    // Oldest day first, counted in calendar days so DST changes do not skip or repeat one
+    const today = new Date(`${usageDay()}T00:00:00Z`).getTime()
+    const days = Array.from({ length: query.days }, (_, index) =>
+      new Date(today - (query.days - 1 - index) * DAY_MS).toISOString().slice(0, 10))
+    const usage = await readUsage(days.map(day => usageKey(apiKey.id, day)))
+
+    res.json({
+      items: days.map((day, index) => {
+        const { total = '0', rejected = '0', ...endpoints } = usage[index] || {}
+        return {
+          date: day,
+          requests: Number(total),
+          rejected: Number(rejected),
+          endpoints: Object.fromEntries(Object.entries(endpoints).map(([endpoint, count]) => [endpoint, Number(count)])),
+        }
+      }),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// Daily usage hashes; statistics are left empty when Redis is unavailable
+async function readUsage(keys: string[]): Promise<Array<Record<string, string>>> {
+  if (keys.length === 0) return []
+  try {
+    const pipeline = redis.pipeline()
+    keys.forEach(key => pipeline.hgetall(key))
+    const results = await pipeline.exec()
+    return (results || []).map(([, value]) => (value as Record<string, string>) || {})
+  } catch (error: any) {
+    logger.error('Failed to read API usage', { message: error.message })
+    return keys.map(() => ({}))
+  }
+}
+
+export default router
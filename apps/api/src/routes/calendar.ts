@@ -0,0 +1,99 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { createClient } from '@supabase/supabase-js'
+import { AppError } from '../middleware/errorHandler'
+import { buildCalendar, CalendarEvent } from '@events-agregator/shared'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const router = Router()
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+// Calendar apps re-fetch the feed at this interval, picking up changed and cancelled events
+const FEED_REFRESH_HOURS = 6
+
+// GET /api/calendar/feed/:token.ics - Favourite events as an ICS subscription, keyed by the user's secret token
+router.get('/feed/:file', async (req, res, next) => {
+  try {
+    const token = z.string().uuid().parse(req.params.file.replace(/\.ics$/, ''))
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('calendar_token', token)
+      .single()
+
+    if (profileError || !profile) {
+      throw new AppError('Calendar not found', 404)
+    }
+
+    const { data: favorites, error } = await supabase
+      .from('user_favorite_events')
+      .select('event_id, events(*)')
+      .eq('user_id', profile.id)
+
+    if (error) throw error
+
+    const events = (favorites || []).map((favorite: any) => favorite.events).filter(Boolean)
+
+    // Favourites merged into another source's copy follow the canonical event
+    const canonicalIds = events.filter(event => event.canonical_event_id).map(event => event.canonical_event_id)
+    let canonicalEvents: any[] = []
+    if (canonicalIds.length > 0) {
+      const { data, error: canonicalError } = await supabase
+        .from('events')
+        .select('*')
+        .in('id', canonicalIds)
+
+      if (canonicalError) throw canonicalError
+      canonicalEvents = data || []
+    }
+
+    const feedEvents = new Map<string, any>()
+    for (const event of [...events.filter(event => !event.canonical_event_id), ...canonicalEvents]) {
+      feedEvents.set(event.id, event)
+    }
+
+    res
+      .type('text/calendar; charset=utf-8')
+      .set('Content-Disposition', 'inline; filename="ulubione.ics"')
+      .set('Cache-Control', 'private, max-age=900')
+      .send(buildCalendar(Array.from(feedEvents.values()).map(toCalendarEvent), {
+        name: 'Ulubione wydarzenia dla dzieci',
+        refreshHours: FEED_REFRESH_HOURS,
+      }))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError('Invalid calendar token', 400))
+    }
+    next(error)
+  }
+})
+
+function toCalendarEvent(event: any): CalendarEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    start: new Date(event.start_date),
+    end: event.end_date ? new Date(event.end_date) : null,
+    location: [event.location_name, event.address, event.city].filter(Boolean).join(', '),
+    lat: event.lat,
+    lng: event.lng,
+    url: event.source_url,
+    detailsUrl: `${APP_URL}/events/${event.id}`,
+    recurrenceRule: event.recurrence_rule,
+    recurrenceExceptions: event.recurrence_exceptions,
+    cancelled: event.status === 'CANCELLED',
+    updatedAt: event.updated_at ? new Date(event.updated_at) : null,
+  }
+}
+
+export default router
@@ -4,6 +4,24 @@ import { createClient } from '@supabase/supabase-js'
 import { AppError } from '../middleware/errorHandler'
 import { authenticate, AuthRequest } from '../middleware/auth'
 import { logger } from '../utils/logger'
+import {
+  attachSearchHighlights,
+  CITY_COORDINATES,
+  decodeEventCursor,
+  distanceKm,
+  EVENT_ROW_COLUMNS,
+  eventCursorFilter,
+  EventListingRow,
+  EventRow,
+  eventsEndingAfterFilter,
+  expandOccurrences,
+  fillPage,
+  getListingOccurrences,
+  getNextOccurrence,
+  getSeriesEnd,
+  parseDateBoundary,
+  parseRecurrenceRule
+} from '@events-agregator/shared'
 import dotenv from 'dotenv'
 
 dotenv.config()
@@ -25,14 +43,122 @@ const searchEventsSchema = z.object({
   ageMax: z.string().transform(Number).optional(),
   priceType: z.enum(['FREE', 'PAID', 'DONATION']).optional()
     .or(z.literal('').transform(() => undefined)),
+  // YYYY-MM-DD (whole days in Polish time) or ISO timestamps
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   search: z.string().optional(),
   limit: z.string().transform(Number).default('25'),
   cursor: z.string().optional(),
   includeExpiredEvents: z.string().transform((val) => val === 'true').optional(),
+  // "occurrences" lists every date of recurring events separately (calendar views)
+  expand: z.enum(['occurrences']).optional(),
+  // Radius search around lat/lng, or around the city centre when only city and radiusKm are given
+  lat: z.string().transform(Number).pipe(z.number().min(-90).max(90)).optional(),
+  lng: z.string().transform(Number).pipe(z.number().min(-180).max(180)).optional(),
+  radiusKm: z.string().transform(Number).pipe(z.number().positive().max(200)).optional(),
+  sort: z.enum(['date', 'distance', 'relevance']).optional(),
+  // Map viewport as "west,south,east,north" (GeoJSON order)
+  bbox: z.string()
+    .transform(val => val.split(',').map(Number))
+    .refine(([west, south, east, north]) =>
+      [west, south, east, north].every(Number.isFinite) && south <= north && west <= east &&
+      south >= -90 && north <= 90 && west >= -180 && east <= 180,
+      'bbox must be "west,south,east,north"')
+    .optional(),
 })
 
+const occurrencesQuerySchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  limit: z.string().transform(Number).default('50'),
+})
+
+const recurrenceRuleSchema = z.string().max(200)
+  .refine(rule => parseRecurrenceRule(rule) !== null, 'Invalid recurrence rule')
+const recurrenceExceptionsSchema = z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Exception dates must be YYYY-MM-DD')).max(366)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Occurrences are expanded this far ahead when the query has no end date
+const OCCURRENCE_WINDOW_DAYS = 60
+const MAX_OCCURRENCES_PER_EVENT = 100
+const DEFAULT_RADIUS_KM = 15
+
+// The columns occurrences are computed from
+type EventDates = Pick<EventRow, 'start_date' | 'end_date' | 'recurrence_rule' | 'recurrence_exceptions'>
+
+// A bare YYYY-MM-DD covers the whole day: "to" ends at midnight after it
+function parseDateParam(value: string | undefined, fallback: Date, boundary: 'start' | 'end' = 'start'): Date {
+  if (!value) return fallback
+  const date = parseDateBoundary(value, boundary)
+  if (!date) {
+    throw new AppError(`Invalid date: ${value}`, 400)
+  }
+  return date
+}
+
+// Occurrences overlapping the window, so multi-day events that are already running count too
+function listOccurrences(event: EventDates, from: Date, to: Date, limit = MAX_OCCURRENCES_PER_EVENT): Date[] {
+  const start = new Date(event.start_date)
+  const duration = event.end_date ? Math.max(0, new Date(event.end_date).getTime() - start.getTime()) : 0
+  if (!event.recurrence_rule) {
+    return start <= to && start.getTime() + duration >= from.getTime() ? [start] : []
+  }
+  return expandOccurrences(start, event.recurrence_rule, {
+    from: new Date(from.getTime() - duration),
+    to,
+    exceptions: event.recurrence_exceptions || [],
+    limit,
+  })
+}
+
+// Next date of a series from `from` on; null when it has none before `to`
+function nextOccurrenceInRange(event: EventDates, from: Date, to: Date | null): Date | null {
+  if (!event.recurrence_rule) return null
+  const next = getNextOccurrence(new Date(event.start_date), event.recurrence_rule, event.recurrence_exceptions || [], from)
+  return next && (!to || next <= to) ? next : null
+}
+
+// One date of an event - recurring events keep their id, the occurrence has its own start and end
+function toOccurrence(event: Pick<EventRow, 'start_date' | 'end_date'>, start: Date) {
+  const duration = event.end_date ? new Date(event.end_date).getTime() - new Date(event.start_date).getTime() : null
+  return {
+    startDate: start.toISOString(),
+    endDate: duration !== null ? new Date(start.getTime() + duration).toISOString() : null,
+  }
+}
+
+function withDistance<T extends Pick<EventRow, 'lat' | 'lng'>>(event: T, center: { lat: number; lng: number }): T & { distance_km?: number } {
+  if (event.lat === null || event.lat === undefined || event.lng === null || event.lng === undefined) return event
+  const distance = distanceKm(center, { lat: Number(event.lat), lng: Number(event.lng) })
+  return { ...event, distance_km: Math.round(distance * 10) / 10 }
+}
+
+// Stores the dates a series is listed under (none for a one-off event); the daily refresh of the
+// scraper worker makes up for a failure, so it is only logged
+async function saveListingOccurrences(event: EventDates & { id: string }) {
+  const dates = event.recurrence_rule
+    ? getListingOccurrences(new Date(event.start_date), event.recurrence_rule, event.recurrence_exceptions || [])
+    : []
+  const { error } = await supabase
+    .rpc('replace_event_occurrences', { p_event_id: event.id, p_dates: dates.map(date => date.toISOString()) })
+
+  if (error) {
+    logger.error(`Failed to save listing dates of event ${event.id}`, error)
+  }
+}
+
+// event_search_highlights() rows for a page of results; none when the function fails
+async function loadSearchHighlights(search: string, eventIds: string[]) {
+  const { data: highlights, error } = await supabase
+    .rpc('event_search_highlights', { p_query: search, p_event_ids: eventIds })
+
+  if (error) {
+    logger.error('Failed to load search highlights', error)
+    return []
+  }
+  return highlights || []
+}
+
 // GET /api/events - Search events
 router.get('/', async (req, res, next) => {
   try {
@@ -40,62 +166,147 @@ router.get('/', async (req, res, next) => {
     
     // Query parameters will be handled in Supabase query builder
 
-    // Build Supabase query - Status-based filtering (proper approach)
-    let supabaseQuery = supabase
-      .from('events')
-      .select('*')
-    
-    // For public API, show only ACTIVE (and optionally EXPIRED) events
-    if (query.includeExpiredEvents) {
-      supabaseQuery = supabaseQuery.in('status', ['ACTIVE', 'EXPIRED'])
-    } else {
-      supabaseQuery = supabaseQuery.eq('status', 'ACTIVE')
+    // Suburbs are covered by searching around the city centre instead of matching the city name
+    const cityCenter = query.city && query.radiusKm && query.lat === undefined ? CITY_COORDINATES[query.city] : undefined
+    const center = query.lat !== undefined && query.lng !== undefined ? { lat: query.lat, lng: query.lng } : cityCenter
+    if (query.sort === 'distance' && !center) {
+      throw new AppError('Sorting by distance requires lat and lng', 400)
     }
-    
-    if (query.city) {
-      supabaseQuery = supabaseQuery.eq('city', query.city)
+    const orderByDate = query.sort === 'date' || (!query.search && query.sort !== 'distance')
+
+    const windowStart = parseDateParam(query.startDate, new Date())
+    const windowEnd = parseDateParam(query.endDate, new Date(windowStart.getTime() + OCCURRENCE_WINDOW_DAYS * DAY_MS), 'end')
+    if (windowEnd < windowStart) {
+      throw new AppError('endDate must not be before startDate', 400)
     }
     
-    if (query.category) {
-      supabaseQuery = supabaseQuery.eq('category', query.category)
-    }
+    // A fresh query per batch - filters added to a query builder can not be removed
+    const buildQuery = () => {
+      // Build Supabase query - Status-based filtering (proper approach)
+      // The search function filters like the table and adds the date each event is listed under
+      let supabaseQuery = supabase.rpc('search_events', {
+        p_query: query.search ?? null,
+        p_lat: center?.lat ?? null,
+        p_lng: center?.lng ?? null,
+        p_radius_km: center ? query.radiusKm ?? DEFAULT_RADIUS_KM : null,
+        p_order_by: orderByDate ? 'date' : query.sort === 'distance' ? 'distance' : 'relevance',
+        p_from: windowStart.toISOString(),
+      })
     
-    if (query.priceType) {
-      supabaseQuery = supabaseQuery.eq('price_type', query.priceType)
-    }
+      // For public API, show only ACTIVE (and optionally EXPIRED) events
+      if (query.includeExpiredEvents) {
+        supabaseQuery = supabaseQuery.in('status', ['ACTIVE', 'EXPIRED'])
+      } else {
+        supabaseQuery = supabaseQuery.eq('status', 'ACTIVE')
+      }
     
-    if (query.ageMin) {
-      supabaseQuery = supabaseQuery.gte('age_max', query.ageMin)
-    }
+      if (query.city && !cityCenter) {
+        supabaseQuery = supabaseQuery.eq('city', query.city)
+      }
     
-    if (query.ageMax) {
-      supabaseQuery = supabaseQuery.lte('age_min', query.ageMax)
-    }
+      if (query.bbox) {
+        const [west, south, east, north] = query.bbox
+        supabaseQuery = supabaseQuery
+          .gte('lat', south)
+          .lte('lat', north)
+          .gte('lng', west)
+          .lte('lng', east)
+      }
     
-    if (query.search) {
-      supabaseQuery = supabaseQuery.or(`title.ilike.%${query.search}%,description.ilike.%${query.search}%`)
-    }
+      if (query.category) {
+        supabaseQuery = supabaseQuery.eq('category', query.category)
+      }
+    
+      if (query.priceType) {
+        supabaseQuery = supabaseQuery.eq('price_type', query.priceType)
+      }
+    
+      if (query.ageMin) {
+        supabaseQuery = supabaseQuery.gte('age_max', query.ageMin)
+      }
     
-    if (query.startDate) {
-      supabaseQuery = supabaseQuery.gte('start_date', query.startDate)
+      if (query.ageMax) {
+        supabaseQuery = supabaseQuery.lte('age_min', query.ageMax)
+      }
+    
+      // Date range: events overlapping it - multi-day events still running and series
+      // that started earlier but continue into the range match too
+      if (query.startDate) {
+        supabaseQuery = supabaseQuery.or(eventsEndingAfterFilter(windowStart))
+      }
+    
+      if (query.endDate) {
+        supabaseQuery = supabaseQuery.lte('start_date', windowEnd.toISOString())
+      }
+    
+      return supabaseQuery
     }
     
-    // Add pagination
-    const offset = query.cursor ? 1 : 0 // Skip cursor if provided
-    supabaseQuery = supabaseQuery
-      .order('start_date', { ascending: true })
-      .range(offset, offset + query.limit)
+    // Pagination - keyset on (next_occurrence, id) for date order, offsets for ranked orders
+    const cursor = query.cursor ? decodeEventCursor(query.cursor) : null
+    if (query.cursor && !cursor) {
+      throw new AppError('Invalid cursor', 400)
+    }
+    if (cursor && orderByDate !== ('nextOccurrence' in cursor)) {
+      throw new AppError('Cursor does not match the sort order', 400)
+    }
     
-    const { data: events, error } = await supabaseQuery
+    // Series with no date in the range are left out, so batches are fetched until the page is full
+    const isListed = query.expand === 'occurrences'
+      ? (event: EventListingRow) => listOccurrences(event, windowStart, windowEnd, 1).length > 0
+      : (event: EventListingRow) => !event.recurrence_rule || nextOccurrenceInRange(event, windowStart, query.endDate ? windowEnd : null) !== null
     
-    if (error) throw error
+    const { rows: page, hasMore, nextCursor } = await fillPage<EventListingRow>({
+      cursor,
+      limit: query.limit,
+      orderByDate,
+      isListed,
+      fetchBatch: async (batchCursor, size) => {
+        let batchQuery = buildQuery()
+        if (orderByDate) {
+          if (batchCursor && 'nextOccurrence' in batchCursor) {
+            batchQuery = batchQuery.or(eventCursorFilter(batchCursor))
+          }
+          batchQuery = batchQuery
+            .order('next_occurrence', { ascending: true })
+            .order('id', { ascending: true })
+        }
+        const offset = batchCursor && 'offset' in batchCursor ? batchCursor.offset : 0
+        // Columns are named last - select() ends the filters of an rpc() query
+        const { data, error } = await batchQuery
+          .select(`${EVENT_ROW_COLUMNS}, next_occurrence`)
+          .returns<EventListingRow[]>()
+          .range(offset, offset + size - 1)
+        if (error) throw error
+        return data || []
+      },
+    })
 
-    const hasMore = events && events.length > query.limit
-    const items = hasMore ? events.slice(0, -1) : events || []
-    const nextCursor = hasMore && items.length > 0 ? items[items.length - 1].id : null
+    const search = query.search
+    const ranked = search
+      ? await attachSearchHighlights(page, eventIds => loadSearchHighlights(search, eventIds), query.sort !== 'distance')
+      : page
+    const items = center ? ranked.map(event => withDistance(event, center)) : ranked
+
+    if (query.expand === 'occurrences') {
+      const occurrences = items
+        .flatMap(event => listOccurrences(event, windowStart, windowEnd).map(start => {
+          const occurrence = toOccurrence(event, start)
+          return { ...event, occurrence_start: occurrence.startDate, occurrence_end: occurrence.endDate }
+        }))
+        .sort((a, b) => a.occurrence_start.localeCompare(b.occurrence_start))
+
+      res.json({ items: occurrences, nextCursor, hasMore })
+      return
+    }
+
+    // Recurring events are listed once, under their next date - the stored dates only order the list
+    const listed = items.map(event => event.recurrence_rule
+      ? { ...event, next_occurrence: nextOccurrenceInRange(event, windowStart, null)!.toISOString() }
+      : event)
 
     res.json({
-      items,
+      items: listed,
       nextCursor,
       hasMore
     })
@@ -110,7 +321,7 @@ router.get('/:id', async (req, res, next) => {
     const { data: event, error } = await supabase
       .from('events')
       .select(`
-        *,
+        ${EVENT_ROW_COLUMNS},
         organizer:profiles!events_organizer_id_fkey(
           id,
           name,
@@ -118,6 +329,7 @@ router.get('/:id', async (req, res, next) => {
         )
       `)
       .eq('id', req.params.id)
+      .returns<Array<EventRow & { organizer: { id: string; name: string | null; email: string } | null }>>()
       .single()
 
     if (error || !event) {
@@ -136,6 +348,39 @@ router.get('/:id', async (req, res, next) => {
   }
 })
 
+// GET /api/events/:id/occurrences - Dates of an event within a range (calendar views)
+router.get('/:id/occurrences', async (req, res, next) => {
+  try {
+    const query = occurrencesQuerySchema.parse(req.query)
+
+    const { data: event, error } = await supabase
+      .from('events')
+      .select('id, start_date, end_date, recurrence_rule, recurrence_exceptions')
+      .eq('id', req.params.id)
+      .single()
+
+    if (error || !event) {
+      throw new AppError('Event not found', 404)
+    }
+
+    const from = parseDateParam(query.from, new Date())
+    const to = parseDateParam(query.to, new Date(from.getTime() + OCCURRENCE_WINDOW_DAYS * DAY_MS), 'end')
+    const limit = Math.min(query.limit || MAX_OCCURRENCES_PER_EVENT, MAX_OCCURRENCES_PER_EVENT)
+
+    res.json({
+      eventId: event.id,
+      recurrenceRule: event.recurrence_rule,
+      exceptions: event.recurrence_exceptions || [],
+      items: listOccurrences(event, from, to, limit).map(start => toOccurrence(event, start))
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
 // POST /api/events - Create event
 router.post('/', authenticate, async (req: AuthRequest, res, next) => {
   try {
@@ -157,6 +402,8 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
       category: z.enum(['WARSZTATY', 'SPEKTAKLE', 'SPORT', 'EDUKACJA', 'INNE']),
       imageUrls: z.array(z.string().url()).max(5),
       tags: z.array(z.string()).max(10),
+      recurrenceRule: recurrenceRuleSchema.optional(),
+      recurrenceExceptions: recurrenceExceptionsSchema.optional(),
     })
 
     const data = createEventSchema.parse(req.body)
@@ -180,6 +427,9 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
       category: data.category,
       image_urls: data.imageUrls,
       tags: data.tags,
+      recurrence_rule: data.recurrenceRule ?? null,
+      recurrence_exceptions: data.recurrenceExceptions ?? [],
+      recurrence_until: data.recurrenceRule ? getSeriesEnd(data.startDate, data.recurrenceRule)?.toISOString() ?? null : null,
       organizer_id: req.user!.id,
       organizer_name: req.user!.name || req.user!.email,
       source_url: `${process.env.NEXT_PUBLIC_APP_URL}/events/user-submitted`,
@@ -189,11 +439,14 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
     const { data: event, error } = await supabase
       .from('events')
       .insert(dbData)
-      .select()
+      .select(EVENT_ROW_COLUMNS)
+      .returns<EventRow[]>()
       .single()
     
     if (error) throw error
 
+    await saveListingOccurrences(event)
+
     logger.info(`New event created: ${event.id} by temp user`)
 
     res.status(201).json(event)
@@ -226,12 +479,14 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
       category: z.enum(['WARSZTATY', 'SPEKTAKLE', 'SPORT', 'EDUKACJA', 'INNE']).optional(),
       imageUrls: z.array(z.string().url()).max(5).optional(),
       tags: z.array(z.string()).max(10).optional(),
+      recurrenceRule: recurrenceRuleSchema.nullable().optional(),
+      recurrenceExceptions: recurrenceExceptionsSchema.optional(),
     })
 
     // First, verify ownership
     const { data: existingEvent, error: fetchError } = await supabase
       .from('events')
-      .select('organizer_id, status')
+      .select('organizer_id, status, start_date, recurrence_rule')
       .eq('id', req.params.id)
       .single()
 
@@ -265,6 +520,15 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
     if (data.category !== undefined) dbUpdates.category = data.category
     if (data.imageUrls !== undefined) dbUpdates.image_urls = data.imageUrls
     if (data.tags !== undefined) dbUpdates.tags = data.tags
+    if (data.recurrenceRule !== undefined) dbUpdates.recurrence_rule = data.recurrenceRule
+    if (data.recurrenceExceptions !== undefined) dbUpdates.recurrence_exceptions = data.recurrenceExceptions
+
+    // The series end depends on both the first date and the rule
+    if (data.startDate !== undefined || data.recurrenceRule !== undefined) {
+      const rule = data.recurrenceRule !== undefined ? data.recurrenceRule : existingEvent.recurrence_rule
+      const start = data.startDate ?? new Date(existingEvent.start_date)
+      dbUpdates.recurrence_until = rule ? getSeriesEnd(start, rule)?.toISOString() ?? null : null
+    }
 
     // Add updated timestamp
     dbUpdates.updated_at = new Date()
@@ -278,11 +542,16 @@ router.put('/:id', authenticate, async (req: AuthRequest, res, next) => {
       .from('events')
       .update(dbUpdates)
       .eq('id', req.params.id)
-      .select()
+      .select(EVENT_ROW_COLUMNS)
+      .returns<EventRow[]>()
       .single()
     
     if (error) throw error
 
+    if (data.startDate !== undefined || data.recurrenceRule !== undefined || data.recurrenceExceptions !== undefined) {
+      await saveListingOccurrences(updatedEvent)
+    }
+
     logger.info(`Event updated: ${updatedEvent.id} by user ${req.user!.id}`)
 
     res.json(updatedEvent)
@@ -0,0 +1,189 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { createClient } from '@supabase/supabase-js'
+import { AppError } from '../middleware/errorHandler'
+import { authenticate, AuthRequest } from '../middleware/auth'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const router = Router()
+
+// GET /api/notifications/push/public-key - VAPID public key for browser push subscriptions
+router.get('/push/public-key', (req, res, next) => {
+  if (!process.env.VAPID_PUBLIC_KEY) {
+    return next(new AppError('Push notifications are not configured', 503))
+  }
+  res.json({ publicKey: process.env.VAPID_PUBLIC_KEY })
+})
+
+// All other routes require authentication
+router.use(authenticate)
+
+// GET /api/notifications - Get user's in-app notifications
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const querySchema = z.object({
+      unread: z.string().transform(val => val === 'true').optional(),
+      limit: z.string().transform(Number).default('50'),
+    })
+
+    const query = querySchema.parse(req.query)
+
+    let supabaseQuery = supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', req.user!.id)
+
+    if (query.unread) {
+      supabaseQuery = supabaseQuery.is('read_at', null)
+    }
+
+    const { data: notifications, error } = await supabaseQuery
+      .order('created_at', { ascending: false })
+      .limit(Math.min(query.limit, 100))
+
+    if (error) throw error
+    res.json(notifications || [])
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// GET /api/notifications/unread-count - Get number of unread notifications
+router.get('/unread-count', async (req: AuthRequest, res, next) => {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', req.user!.id)
+      .is('read_at', null)
+
+    if (error) throw error
+    res.json({ count: count || 0 })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// POST /api/notifications/read-all - Mark all notifications as read
+router.post('/read-all', async (req: AuthRequest, res, next) => {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', req.user!.id)
+      .is('read_at', null)
+
+    if (error) throw error
+    res.json({ success: true })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// PATCH /api/notifications/:id/read - Mark notification as read
+router.patch('/:id/read', async (req: AuthRequest, res, next) => {
+  try {
+    const { data: notification, error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', req.params.id)
+      .eq('user_id', req.user!.id)
+      .select()
+      .single()
+
+    if (error || !notification) {
+      throw new AppError('Notification not found', 404)
+    }
+
+    res.json(notification)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// GET /api/notifications/deliveries - Get user's delivery log (email, push, in-app)
+router.get('/deliveries', async (req: AuthRequest, res, next) => {
+  try {
+    const { data: deliveries, error } = await supabase
+      .from('notification_deliveries')
+      .select('*')
+      .eq('user_id', req.user!.id)
+      .order('created_at', { ascending: false })
+      .limit(100)
+
+    if (error) throw error
+    res.json(deliveries || [])
+  } catch (error) {
+    next(error)
+  }
+})
+
+// POST /api/notifications/push-subscriptions - Register a browser push subscription
+router.post('/push-subscriptions', async (req: AuthRequest, res, next) => {
+  try {
+    const subscriptionSchema = z.object({
+      endpoint: z.string().url(),
+      keys: z.object({
+        p256dh: z.string().min(1),
+        auth: z.string().min(1),
+      }),
+    })
+
+    const data = subscriptionSchema.parse(req.body)
+
+    const { data: subscription, error } = await supabase
+      .from('push_subscriptions')
+      .upsert({
+        user_id: req.user!.id,
+        endpoint: data.endpoint,
+        p256dh: data.keys.p256dh,
+        auth: data.keys.auth,
+      }, { onConflict: 'endpoint' })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    res.status(201).json(subscription)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// DELETE /api/notifications/push-subscriptions - Remove a browser push subscription
+router.delete('/push-subscriptions', async (req: AuthRequest, res, next) => {
+  try {
+    const { endpoint } = z.object({ endpoint: z.string().url() }).parse(req.body)
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', endpoint)
+      .eq('user_id', req.user!.id)
+
+    if (error) throw error
+
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,118 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import { createClient } from '@supabase/supabase-js'
+import { AppError } from '../middleware/errorHandler'
+import { authenticate, AuthRequest } from '../middleware/auth'
+import {
+  childAgeAt,
+  EVENT_ROW_COLUMNS,
+  EventRow,
+  eventsEndingAfterFilter,
+  getRecommendationAgeRange,
+  recommendCandidates,
+} from '@events-agregator/shared'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const router = Router()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Events ranked per request; the nearest upcoming ones that suit at least one child
+const CANDIDATE_LIMIT = 300
+
+const recommendationsQuerySchema = z.object({
+  lat: z.string().transform(Number).pipe(z.number().min(-90).max(90)).optional(),
+  lng: z.string().transform(Number).pipe(z.number().min(-180).max(180)).optional(),
+  city: z.string().optional(),
+  days: z.string().transform(Number).pipe(z.number().int().min(1).max(90)).default('30'),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).default('20'),
+})
+
+router.use(authenticate)
+
+// GET /api/recommendations - Upcoming events ranked for the user's children, with reasons
+router.get('/', async (req: AuthRequest, res, next) => {
+  try {
+    const query = recommendationsQuerySchema.parse(req.query)
+
+    const { data: children, error: childrenError } = await supabase
+      .from('child_profiles')
+      .select('id, name, birth_year, birth_month, interests')
+      .eq('user_id', req.user!.id)
+
+    if (childrenError) throw childrenError
+    if (!children || children.length === 0) {
+      res.json({ children: [], items: [] })
+      return
+    }
+
+    const { data: favorites, error: favoritesError } = await supabase
+      .from('user_favorite_events')
+      .select('event_id, events(category, tags)')
+      .eq('user_id', req.user!.id)
+
+    if (favoritesError) throw favoritesError
+
+    const now = new Date()
+    const horizon = new Date(now.getTime() + query.days * DAY_MS)
+    const family = children.map(child => ({
+      id: child.id,
+      name: child.name,
+      birthYear: child.birth_year,
+      birthMonth: child.birth_month,
+      interests: child.interests || [],
+    }))
+    const { youngestAge, oldestAge } = getRecommendationAgeRange(family, now, horizon)
+
+    let candidatesQuery = supabase
+      .from('events')
+      .select(EVENT_ROW_COLUMNS)
+      .eq('status', 'ACTIVE')
+      .lte('age_min', oldestAge)
+      .gte('age_max', youngestAge)
+      .lte('start_date', horizon.toISOString())
+      .or(eventsEndingAfterFilter(now))
+      .order('start_date', { ascending: true })
+      .limit(CANDIDATE_LIMIT)
+
+    if (query.city) {
+      candidatesQuery = candidatesQuery.eq('city', query.city)
+    }
+
+    const { data: candidates, error: candidatesError } = await candidatesQuery.returns<EventRow[]>()
+    if (candidatesError) throw candidatesError
+
+    const ranked = recommendCandidates(candidates || [], {
+      children: family,
+      favorites: favorites || [],
+      location: query.lat !== undefined && query.lng !== undefined ? { lat: query.lat, lng: query.lng } : undefined,
+      now,
+      horizon,
+      limit: query.limit,
+    })
+
+    res.json({
+      children: family.map(child => ({ id: child.id, name: child.name, age: childAgeAt(child, now) })),
+      items: ranked.map(recommendation => ({
+        ...recommendation.event,
+        score: recommendation.score,
+        reasons: recommendation.reasons,
+        child_ids: recommendation.childIds,
+      })),
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+export default router
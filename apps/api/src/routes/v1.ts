@@ -0,0 +1,355 @@
+import { Router } from 'express'
+import cors from 'cors'
+import { z } from 'zod'
+import { createClient } from '@supabase/supabase-js'
+import { AppError } from '../middleware/errorHandler'
+import { apiKeyRateLimiter, authenticateApiKey } from '../middleware/apiKey'
+import { zodToJsonSchema, zodToParameters } from '../utils/openapi'
+import {
+  decodeEventCursor,
+  eventCursorFilter,
+  eventsEndingAfterFilter,
+  fillPage,
+  getNextOccurrence,
+  parseDateBoundary,
+  POLISH_CITIES
+} from '@events-agregator/shared'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const router = Router()
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+const DAY_MS = 24 * 60 * 60 * 1000
+// Recurring events are listed under their next date within this many days when there is no endDate
+const OCCURRENCE_WINDOW_DAYS = 60
+
+// Versioned read-only API for partners (schools, blogs, city portals). Responses use a stable
+// camelCase shape, independent of database columns; breaking changes go to /v2.
+
+const categorySchema = z.enum(['WARSZTATY', 'SPEKTAKLE', 'SPORT', 'EDUKACJA', 'INNE'])
+const priceTypeSchema = z.enum(['FREE', 'PAID', 'DONATION'])
+
+const listEventsQuerySchema = z.object({
+  city: z.string().optional().describe('City name, e.g. "Warszawa" (see /v1/cities)'),
+  category: categorySchema.optional(),
+  ageMin: z.string().transform(Number).pipe(z.number().int().min(0).max(18)).optional()
+    .describe('Only events suitable for children of at least this age'),
+  ageMax: z.string().transform(Number).pipe(z.number().int().min(0).max(18)).optional()
+    .describe('Only events suitable for children of at most this age'),
+  priceType: priceTypeSchema.optional(),
+  startDate: z.string().optional()
+    .describe('YYYY-MM-DD (whole day, Polish time) or ISO timestamp; events overlapping the range. Defaults to now'),
+  endDate: z.string().optional()
+    .describe('YYYY-MM-DD (whole day, Polish time) or ISO timestamp'),
+  updatedSince: z.string().datetime({ offset: true }).optional()
+    .describe('Only events changed after this time, for incremental synchronisation'),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(100)).default('25'),
+  cursor: z.string().optional().describe('nextCursor of the previous page'),
+})
+
+const eventParamsSchema = z.object({
+  id: z.string().uuid(),
+})
+
+const publicEventSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  description: z.string(),
+  category: categorySchema,
+  status: z.enum(['ACTIVE', 'CANCELLED', 'EXPIRED']),
+  startDate: z.string().datetime().describe('Start; for recurring events the next date'),
+  endDate: z.string().datetime().nullable(),
+  recurrenceRule: z.string().nullable().describe('iCalendar RRULE (FREQ, INTERVAL, BYDAY, UNTIL, COUNT)'),
+  recurrenceExceptions: z.array(z.string()).describe('Skipped dates of a recurring event, YYYY-MM-DD'),
+  ageMin: z.number().int(),
+  ageMax: z.number().int(),
+  priceType: priceTypeSchema,
+  price: z.number().nullable().describe('In PLN'),
+  location: z.object({
+    name: z.string(),
+    address: z.string().nullable(),
+    city: z.string(),
+    lat: z.number().nullable(),
+    lng: z.number().nullable(),
+  }),
+  organizerName: z.string().nullable(),
+  imageUrls: z.array(z.string()),
+  sourceUrl: z.string().nullable().describe('Organiser page of the event'),
+  url: z.string().describe('Event page on our site - please link to it when showing the event'),
+  updatedAt: z.string().datetime(),
+})
+
+const eventListSchema = z.object({
+  items: z.array(publicEventSchema),
+  nextCursor: z.string().nullable(),
+  hasMore: z.boolean(),
+})
+
+const errorSchema = z.object({
+  error: z.object({
+    message: z.string(),
+    status: z.number().int(),
+  }),
+})
+
+type PublicEvent = z.infer<typeof publicEventSchema>
+
+// Partners embed the data in their own sites
+router.use(cors())
+
+// GET /v1/openapi.json - API description, public so that tools can read it without a key
+router.get('/openapi.json', (req, res) => {
+  res.json(openApiSpec)
+})
+
+router.use(authenticateApiKey, apiKeyRateLimiter)
+
+// GET /v1/events - Upcoming active events, in date order
+router.get('/events', async (req, res, next) => {
+  try {
+    const query = listEventsQuerySchema.parse(req.query)
+
+    const windowStart = parseDateParam(query.startDate, new Date())
+    const windowEnd = parseDateParam(query.endDate, new Date(windowStart.getTime() + OCCURRENCE_WINDOW_DAYS * DAY_MS), 'end')
+    if (windowEnd < windowStart) {
+      throw new AppError('endDate must not be before startDate', 400)
+    }
+
+    const cursor = query.cursor ? decodeEventCursor(query.cursor) : null
+    if (query.cursor && (!cursor || !('nextOccurrence' in cursor))) {
+      throw new AppError('Invalid cursor', 400)
+    }
+
+    // A fresh query per batch - filters added to a query builder can not be removed
+    const buildQuery = () => {
+      // Events overlapping the range, including series that started earlier, with the date each is listed under
+      let supabaseQuery = supabase
+        .rpc('search_events', { p_order_by: 'date', p_from: windowStart.toISOString() })
+        .eq('status', 'ACTIVE')
+        .or(eventsEndingAfterFilter(windowStart))
+
+      if (query.endDate) {
+        supabaseQuery = supabaseQuery.lte('start_date', windowEnd.toISOString())
+      }
+      if (query.city) {
+        supabaseQuery = supabaseQuery.eq('city', query.city)
+      }
+      if (query.category) {
+        supabaseQuery = supabaseQuery.eq('category', query.category)
+      }
+      if (query.priceType) {
+        supabaseQuery = supabaseQuery.eq('price_type', query.priceType)
+      }
+      if (query.ageMin !== undefined) {
+        supabaseQuery = supabaseQuery.gte('age_max', query.ageMin)
+      }
+      if (query.ageMax !== undefined) {
+        supabaseQuery = supabaseQuery.lte('age_min', query.ageMax)
+      }
+      if (query.updatedSince) {
+        supabaseQuery = supabaseQuery.gt('updated_at', query.updatedSince)
+      }
+      return supabaseQuery
+    }
+
+    // Series with no date in the range are left out, so batches are fetched until the page is full
+    const nextDateOf = (event: any) => {
+      const nextDate = getNextOccurrence(new Date(event.start_date), event.recurrence_rule, event.recurrence_exceptions || [], windowStart)
+      return nextDate && (!query.endDate || nextDate <= windowEnd) ? nextDate : null
+    }
+
+    const { rows: page, hasMore, nextCursor } = await fillPage<any>({
+      cursor,
+      limit: query.limit,
+      orderByDate: true,
+      isListed: event => !event.recurrence_rule || nextDateOf(event) !== null,
+      fetchBatch: async (batchCursor, size) => {
+        let batchQuery = buildQuery()
+        if (batchCursor && 'nextOccurrence' in batchCursor) {
+          batchQuery = batchQuery.or(eventCursorFilter(batchCursor))
+        }
+        const { data, error } = await batchQuery
+          .order('next_occurrence', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(size)
+        if (error) throw error
+        return data || []
+      },
+    })
+
+    // Recurring events are listed once, under their next date
+    const items: PublicEvent[] = page.map(event => event.recurrence_rule ? toPublicEvent(event, nextDateOf(event)!) : toPublicEvent(event))
+
+    res.json({ items, nextCursor, hasMore })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError(error.errors[0].message, 400))
+    }
+    next(error)
+  }
+})
+
+// GET /v1/events/:id - Single event; cancelled and finished events stay readable
+router.get('/events/:id', async (req, res, next) => {
+  try {
+    const { id } = eventParamsSchema.parse(req.params)
+
+    const { data: event, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', id)
+      .in('status', ['ACTIVE', 'CANCELLED', 'EXPIRED'])
+      .maybeSingle()
+
+    if (error) throw error
+    if (!event) {
+      throw new AppError('Event not found', 404)
+    }
+
+    const nextDate = event.recurrence_rule
+      ? getNextOccurrence(new Date(event.start_date), event.recurrence_rule, event.recurrence_exceptions || [])
+      : null
+    res.json(toPublicEvent(event, nextDate))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(new AppError('Invalid event id', 400))
+    }
+    next(error)
+  }
+})
+
+// GET /v1/cities - Cities covered by the aggregator
+router.get('/cities', (req, res) => {
+  res.json({ items: POLISH_CITIES })
+})
+
+// A bare YYYY-MM-DD covers the whole day: "to" ends at midnight after it
+function parseDateParam(value: string | undefined, fallback: Date, boundary: 'start' | 'end' = 'start'): Date {
+  if (!value) return fallback
+  const date = parseDateBoundary(value, boundary)
+  if (!date) {
+    throw new AppError(`Invalid date: ${value}`, 400)
+  }
+  return date
+}
+
+function toPublicEvent(event: any, occurrence?: Date | null): PublicEvent {
+  const start = occurrence || new Date(event.start_date)
+  const duration = event.end_date ? new Date(event.end_date).getTime() - new Date(event.start_date).getTime() : null
+
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    category: event.category,
+    status: event.status,
+    startDate: start.toISOString(),
+    endDate: duration !== null ? new Date(start.getTime() + duration).toISOString() : null,
+    recurrenceRule: event.recurrence_rule ?? null,
+    recurrenceExceptions: event.recurrence_exceptions || [],
+    ageMin: event.age_min,
+    ageMax: event.age_max,
+    priceType: event.price_type,
+    price: event.price !== null && event.price !== undefined ? Number(event.price) : null,
+    location: {
+      name: event.location_name,
+      address: event.address ?? null,
+      city: event.city,
+      lat: event.lat !== null && event.lat !== undefined ? Number(event.lat) : null,
+      lng: event.lng !== null && event.lng !== undefined ? Number(event.lng) : null,
+    },
+    organizerName: event.organizer_name ?? null,
+    imageUrls: event.image_urls || [],
+    sourceUrl: event.source_url ?? null,
+    url: `${APP_URL}/events/${event.id}`,
+    updatedAt: new Date(event.updated_at).toISOString(),
+  }
+}
+
+const errorResponses = Object.fromEntries([
+  [400, 'Invalid parameters'],
+  [401, 'Missing, invalid or revoked API key'],
+  [429, 'Per-minute rate limit or daily quota exceeded; see Retry-After'],
+  [503, 'Rate limits can not be checked at the moment; try again later'],
+].map(([status, description]) => [status, {
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+}]))
+
+const openApiSpec = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Wydarzenia dla dzieci - Partner API',
+    version: '1.0.0',
+    description: 'Read-only access to events for children in Polish cities. Create API keys on your profile page ' +
+      'and send them in the X-API-Key header. Each key has a per-minute rate limit and a daily quota, ' +
+      'reported in the RateLimit-* and X-Daily-* response headers. Only accepted requests count towards ' +
+      'the daily quota, which renews at midnight Polish time.',
+  },
+  servers: [{ url: '/v1' }],
+  security: [{ ApiKeyAuth: [] }],
+  paths: {
+    '/events': {
+      get: {
+        summary: 'List upcoming events in date order',
+        parameters: zodToParameters(listEventsQuerySchema, 'query'),
+        responses: {
+          200: {
+            description: 'A page of events; pass nextCursor as cursor to get the next one',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/EventList' } } },
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/events/{id}': {
+      get: {
+        summary: 'Get an event',
+        parameters: zodToParameters(eventParamsSchema, 'path'),
+        responses: {
+          200: {
+            description: 'The event',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Event' } } },
+          },
+          404: {
+            description: 'Event not found',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+          },
+          ...errorResponses,
+        },
+      },
+    },
+    '/cities': {
+      get: {
+        summary: 'List covered cities',
+        responses: {
+          200: {
+            description: 'City names accepted by the city filter',
+            content: { 'application/json': { schema: zodToJsonSchema(z.object({ items: z.array(z.string()) })) } },
+          },
+          ...errorResponses,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      ApiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+    schemas: {
+      Event: zodToJsonSchema(publicEventSchema),
+      EventList: zodToJsonSchema(eventListSchema),
+      Error: zodToJsonSchema(errorSchema),
+    },
+  },
+}
+
+export default router
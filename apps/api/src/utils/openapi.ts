@@ -0,0 +1,94 @@
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod'
+
+type JsonSchema = Record<string, any>
+
+/**
+ * JSON Schema (OpenAPI 3.1 dialect) of a zod schema, so the published spec cannot drift
+ * from validation. Covers the zod types used by the API schemas. Transforms are documented
+ * by their input; pipes by their output, e.g. query strings parsed into bounded numbers.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const result = convert(schema)
+  return schema.description && !result.description ? { ...result, description: schema.description } : result
+}
+
+// OpenAPI parameter objects for the fields of a query or path schema
+export function zodToParameters(schema: z.AnyZodObject, location: 'query' | 'path'): JsonSchema[] {
+  return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(([name, field]) => {
+    const { description, ...fieldSchema } = zodToJsonSchema(field)
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.isOptional(),
+      ...(description ? { description } : {}),
+      schema: fieldSchema,
+    }
+  })
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' }
+      for (const check of def.checks) {
+        if (check.kind === 'min') result.minLength = check.value
+        else if (check.kind === 'max') result.maxLength = check.value
+        else if (check.kind === 'regex') result.pattern = check.regex.source
+        else if (check.kind === 'uuid') result.format = 'uuid'
+        else if (check.kind === 'url') result.format = 'uri'
+        else if (check.kind === 'email') result.format = 'email'
+        else if (check.kind === 'datetime') result.format = 'date-time'
+      }
+      return result
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' }
+      for (const check of def.checks) {
+        if (check.kind === 'int') result.type = 'integer'
+        else if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+        else if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+      }
+      return result
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values }
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value }
+    case ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: zodToJsonSchema(def.type) }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = def.shape() as Record<string, ZodTypeAny>
+      const required = Object.keys(shape).filter(key => !shape[key].isOptional())
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, zodToJsonSchema(field)])),
+        ...(required.length > 0 ? { required } : {}),
+      }
+    }
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(zodToJsonSchema) }
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType)
+    case ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = zodToJsonSchema(def.innerType)
+      const value = def.defaultValue()
+      // Query defaults are strings that the pipe parses
+      const isNumeric = inner.type === 'number' || inner.type === 'integer'
+      return { ...inner, default: isNumeric ? Number(value) : value }
+    }
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema)
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.out)
+    default:
+      return {}
+  }
+}
@@ -0,0 +1,17 @@
+import Redis from 'ioredis'
+import { logger } from './logger'
+
+// Shared connection for API key quotas and usage counters.
+// Commands fail fast while Redis is unreachable instead of queueing up behind requests.
+export const redis = process.env.REDIS_URL
+  ? new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 1, enableOfflineQueue: false })
+  : new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+    })
+
+redis.on('error', (error) => {
+  logger.error('Redis connection error', { message: error.message })
+})
@@ -5,6 +5,9 @@ import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase'
 import { useAuth } from '@/contexts/auth-context-v2'
 import { Header } from '@/components/header'
+import { DuplicateClustersPanel } from '@/components/duplicate-clusters-panel'
+import { ScraperHealthPanel } from '@/components/scraper-health-panel'
+import { EventChangesPanel } from '@/components/event-changes-panel'
 import { toast } from '@/lib/toast'
 import { formatDistanceToNow } from 'date-fns'
 import { pl } from 'date-fns/locale'
@@ -20,6 +23,7 @@ interface Event {
   organizer_name: string
   created_at: string
   status: string
+  provenance?: 'SCRAPED' | 'SYNTHESIZED'
   organizer: {
     email: string
     name: string
@@ -33,7 +37,7 @@ export default function AdminDashboard() {
   
   const [loading, setLoading] = useState(true)
   const [userRole, setUserRole] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'pending' | 'all'>('pending')
+  const [activeTab, setActiveTab] = useState<'pending' | 'all' | 'duplicates' | 'changes' | 'scrapers'>('pending')
   const [events, setEvents] = useState<Event[]>([])
   
   useEffect(() => {
@@ -133,7 +137,8 @@ export default function AdminDashboard() {
     DRAFT: { label: 'Oczekuje', class: 'bg-yellow-100 text-yellow-800' },
     ACTIVE: { label: 'Aktywne', class: 'bg-green-100 text-green-800' },
     ARCHIVED: { label: 'Archiwum', class: 'bg-gray-100 text-gray-800' },
-    EXPIRED: { label: 'Wygasłe', class: 'bg-red-100 text-red-800' }
+    EXPIRED: { label: 'Wygasłe', class: 'bg-red-100 text-red-800' },
+    CANCELLED: { label: 'Odwołane', class: 'bg-red-100 text-red-800' }
   }
 
   if (loading) {
@@ -221,13 +226,49 @@ export default function AdminDashboard() {
               >
                 Wszystkie ({events.length})
               </button>
+              <button
+                onClick={() => setActiveTab('duplicates')}
+                className={`py-2 px-6 text-sm font-medium ${
+                  activeTab === 'duplicates'
+                    ? 'border-b-2 border-blue-500 text-blue-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Duplikaty
+              </button>
+              <button
+                onClick={() => setActiveTab('changes')}
+                className={`py-2 px-6 text-sm font-medium ${
+                  activeTab === 'changes'
+                    ? 'border-b-2 border-blue-500 text-blue-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Zmiany
+              </button>
+              <button
+                onClick={() => setActiveTab('scrapers')}
+                className={`py-2 px-6 text-sm font-medium ${
+                  activeTab === 'scrapers'
+                    ? 'border-b-2 border-blue-500 text-blue-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Scrapery
+              </button>
             </nav>
           </div>
         </div>
 
         {/* Events List */}
         <div className="bg-white rounded-lg shadow overflow-hidden">
-          {events.length === 0 ? (
+          {activeTab === 'duplicates' ? (
+            <DuplicateClustersPanel />
+          ) : activeTab === 'changes' ? (
+            <EventChangesPanel />
+          ) : activeTab === 'scrapers' ? (
+            <ScraperHealthPanel />
+          ) : events.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-gray-600">
                 {activeTab === 'pending' 
@@ -267,6 +308,14 @@ export default function AdminDashboard() {
                           <div>
                             <div className="text-sm font-medium text-gray-900">
                               {event.title}
+                              {event.provenance === 'SYNTHESIZED' && (
+                                <span
+                                  className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                                  title="Wydarzenie wygenerowane przez scraper, gdy źródło nie zwróciło prawdziwych wydarzeń"
+                                >
+                                  Wygenerowane
+                                </span>
+                              )}
                             </div>
                             <div className="text-sm text-gray-500">
                               {categoryLabels[event.category]} • {event.city}
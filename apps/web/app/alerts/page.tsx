@@ -310,6 +310,11 @@ export default function AlertsPage() {
                       <span className="text-gray-500">
                         <span className="font-medium">Kanały:</span> {formatChannels(alert.channels)}
                       </span>
+                      {alert.last_triggered_at && (
+                        <span className="text-gray-500">
+                          <span className="font-medium">Ostatnio wysłany:</span> {new Date(alert.last_triggered_at).toLocaleDateString('pl-PL')}
+                        </span>
+                      )}
                     </div>
                   </div>
 
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { searchEvents } from '@/lib/supabase-queries'
 
+const SORT_OPTIONS = ['date', 'distance', 'relevance'] as const
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
@@ -13,8 +15,15 @@ export async function GET(request: NextRequest) {
       ageMax: searchParams.get('ageMax') ? parseInt(searchParams.get('ageMax')!) : undefined,
       priceType: searchParams.get('priceType') || undefined,
       search: searchParams.get('search') || undefined,
+      lat: searchParams.get('lat') ? parseFloat(searchParams.get('lat')!) : undefined,
+      lng: searchParams.get('lng') ? parseFloat(searchParams.get('lng')!) : undefined,
+      radiusKm: searchParams.get('radiusKm') ? parseFloat(searchParams.get('radiusKm')!) : undefined,
+      sort: SORT_OPTIONS.find(option => option === searchParams.get('sort')),
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
       limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 25,
       offset: searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0,
+      cursor: searchParams.get('cursor') || undefined,
     }
 
     const result = await searchEvents(params)
@@ -4,10 +4,12 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { formatDistanceToNow } from 'date-fns'
 import { pl } from 'date-fns/locale'
+import { describeRecurrence, expandOccurrences } from '@events-agregator/shared'
 import { Header } from '@/components/header'
 import { ImageGallery } from '@/components/image-gallery'
 import { LocationMap } from '@/components/location-map'
 import { ShareButtons } from '@/components/share-buttons'
+import { AddToCalendar } from '@/components/add-to-calendar'
 import { trackEventClick } from '@/lib/supabase-queries'
 import { toast } from '@/lib/toast'
 import { useAuth } from '@/contexts/auth-context-v2'
@@ -26,8 +28,13 @@ const statusBadges = {
   DRAFT: { label: 'Oczekuje na moderację', class: 'bg-yellow-100 text-yellow-800' },
   ACTIVE: { label: 'Aktywne', class: 'bg-green-100 text-green-800' },
   EXPIRED: { label: 'Zakończone', class: 'bg-gray-100 text-gray-800' },
+  CANCELLED: { label: 'Odwołane', class: 'bg-red-100 text-red-800' },
 }
 
+// Upcoming dates listed for recurring events
+const UPCOMING_DATES_DAYS = 60
+const MAX_UPCOMING_DATES = 8
+
 interface EventDetailsClientProps {
   event: EventApiResponse
 }
@@ -73,9 +80,23 @@ export function EventDetailsClient({ event }: EventDetailsClientProps) {
     }
   }
 
-  const startDate = new Date(event.startDate)
-  const endDate = event.endDate ? new Date(event.endDate) : null
+  // Recurring events show their upcoming occurrence; the end keeps the first occurrence's duration
+  const startDate = new Date(event.nextOccurrence || event.startDate)
+  const endDate = event.endDate
+    ? new Date(startDate.getTime() + new Date(event.endDate).getTime() - new Date(event.startDate).getTime())
+    : null
   const isExpired = startDate < new Date()
+  const upcomingDates = event.recurrenceRule
+    ? expandOccurrences(new Date(event.startDate), event.recurrenceRule, {
+        from: new Date(),
+        to: new Date(Date.now() + UPCOMING_DATES_DAYS * 24 * 60 * 60 * 1000),
+        exceptions: event.recurrenceExceptions,
+        limit: MAX_UPCOMING_DATES
+      })
+    : []
+  const today = new Date().toISOString().slice(0, 10)
+  const skippedDates = (event.recurrenceExceptions || []).filter(day => day >= today)
+  const eventUrl = typeof window !== 'undefined' ? window.location.href : `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/events/${event.id}`
   const categoryClass = categoryColors[event.category as keyof typeof categoryColors] || categoryColors.INNE
   const statusBadge = statusBadges[event.status as keyof typeof statusBadges]
 
@@ -107,6 +128,22 @@ export function EventDetailsClient({ event }: EventDetailsClientProps) {
             </div>
           )}
 
+          {/* Status banner for CANCELLED */}
+          {event.status === 'CANCELLED' && (
+            <div className="bg-red-50 border-b border-red-200 px-6 py-3">
+              <div className="flex items-center">
+                <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${statusBadge.class}`}>
+                  ✕ {statusBadge.label}
+                </span>
+                <span className="ml-3 text-sm text-red-800">
+                  To wydarzenie zniknęło ze strony organizatora
+                  {event.cancelledAt && ` ${formatDistanceToNow(new Date(event.cancelledAt), { addSuffix: true, locale: pl })}`}
+                  {' '}i prawdopodobnie zostało odwołane. Sprawdź szczegóły u organizatora.
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Image Gallery */}
           <ImageGallery 
             images={event.imageUrls || []} 
@@ -175,6 +212,30 @@ export function EventDetailsClient({ event }: EventDetailsClientProps) {
                   )}
                 </div>
               </div>
+
+              {event.recurrenceRule && (
+                <div className="mt-3 pt-3 border-t border-gray-200 text-sm text-gray-700">
+                  <p className="font-medium">Powtarza się {describeRecurrence(event.recurrenceRule)}</p>
+                  {upcomingDates.length > 1 && (
+                    <p className="text-gray-600 mt-1">
+                      Najbliższe terminy: {upcomingDates.map(date => date.toLocaleDateString('pl-PL', {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short'
+                      })).join(', ')}
+                    </p>
+                  )}
+                  {skippedDates.length > 0 && (
+                    <p className="text-red-600 mt-1">
+                      Bez zajęć: {skippedDates.slice(0, MAX_UPCOMING_DATES).map(day => new Date(`${day}T12:00:00`).toLocaleDateString('pl-PL', {
+                        day: 'numeric',
+                        month: 'short'
+                      })).join(', ')}
+                      {skippedDates.length > MAX_UPCOMING_DATES && ' i inne'}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Location with Interactive Map */}
@@ -226,11 +287,35 @@ export function EventDetailsClient({ event }: EventDetailsClientProps) {
               </div>
             )}
 
+            {/* Sources - shown when several sources published the same event */}
+            {event.sources && event.sources.length > 1 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-medium mb-2">Źródła</h3>
+                <ul className="space-y-1">
+                  {event.sources.map(source => (
+                    <li key={source.contributing_event_id}>
+                      <a
+                        href={source.source_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        🔗 {source.source_name || source.source_url}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Add to Calendar */}
+            {event.status !== 'CANCELLED' && <AddToCalendar event={event} url={eventUrl} />}
+
             {/* Share Buttons */}
             <ShareButtons 
               title={event.title}
               description={event.description}
-              url={typeof window !== 'undefined' ? window.location.href : `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/events/${event.id}`}
+              url={eventUrl}
               imageUrl={event.imageUrls?.[0]}
             />
 
@@ -1,5 +1,5 @@
 import { Metadata } from 'next'
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
 import { EventDetailsClient } from './event-details-client'
 import { getEvent } from '@/lib/supabase-queries'
 
@@ -78,6 +78,11 @@ export default async function EventPage({ params }: EventPageProps) {
     notFound()
   }
   
+  // Merged duplicates live on under their canonical event
+  if (event.canonicalEventId) {
+    redirect(`/events/${event.canonicalEventId}`)
+  }
+  
   // Pass data to Client Component for interactivity
   return <EventDetailsClient event={event} />
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { useQueryClient } from '@tanstack/react-query'
 import { Header } from '@/components/header'
 import { EventCard } from '@/components/event-card'
+import { CalendarSubscription } from '@/components/calendar-subscription'
 import { useAuth } from '@/contexts/auth-context-v2'
 import { useFavorites } from '@/hooks/use-favorites'
 import { toast } from '@/lib/toast'
@@ -73,6 +74,8 @@ export default function FavoritesPage() {
 
       {/* Events List */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <CalendarSubscription />
+
         {isLoading ? (
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { pl } from 'date-fns/locale'
+import { Header } from '@/components/header'
+import { useAuth } from '@/contexts/auth-context-v2'
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead
+} from '@/hooks/use-notifications'
+import { toast } from '@/lib/toast'
+
+export default function NotificationsPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { data: notifications = [], isLoading, error } = useNotifications(100)
+  const markRead = useMarkNotificationRead()
+  const markAllRead = useMarkAllNotificationsRead()
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      toast.error('Musisz być zalogowany aby zobaczyć powiadomienia')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  if (authLoading) {
+    return (
+      <main className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="max-w-7xl mx-auto px-4 py-12">
+          <div className="text-center">
+            <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            <p className="mt-4 text-gray-600">Sprawdzanie autoryzacji...</p>
+          </div>
+        </div>
+      </main>
+    )
+  }
+
+  if (!user) return null
+
+  const unreadCount = notifications.filter(n => !n.read_at).length
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <Header />
+
+      {/* Page Header */}
+      <div className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Powiadomienia
+              </h1>
+              <p className="mt-2 text-gray-600">
+                Nowe wydarzenia pasujące do Twoich <Link href="/alerts" className="text-blue-600 hover:underline">alertów</Link>
+              </p>
+            </div>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+                className="px-4 py-2 text-sm font-medium text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+              >
+                Oznacz wszystkie jako przeczytane ({unreadCount})
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            <p className="mt-2 text-gray-600">Ładowanie powiadomień...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Błąd podczas ładowania powiadomień
+            </h3>
+            <p className="text-gray-600">
+              Nie udało się załadować Twoich powiadomień. Spróbuj ponownie.
+            </p>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900">
+              Nie masz jeszcze żadnych powiadomień
+            </h3>
+            <p className="mt-2 text-gray-600">
+              Gdy pojawią się wydarzenia pasujące do Twoich alertów, zobaczysz je tutaj.
+            </p>
+          </div>
+        ) : (
+          <ul className="bg-white shadow rounded-lg divide-y">
+            {notifications.map(notification => (
+              <li key={notification.id} className={notification.read_at ? '' : 'bg-blue-50'}>
+                <div className="flex items-start justify-between gap-4 p-4">
+                  <Link
+                    href={notification.link || '/notifications'}
+                    onClick={() => !notification.read_at && markRead.mutate(notification.id)}
+                    className="min-w-0 flex-1 hover:opacity-80"
+                  >
+                    <p className="font-medium text-gray-900">{notification.title}</p>
+                    {notification.body && (
+                      <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{notification.body}</p>
+                    )}
+                    <p className="mt-2 text-xs text-gray-400">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: pl })}
+                    </p>
+                  </Link>
+                  {!notification.read_at && (
+                    <button
+                      onClick={() => markRead.mutate(notification.id)}
+                      className="text-xs text-gray-500 hover:text-gray-800 whitespace-nowrap"
+                    >
+                      Oznacz jako przeczytane
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  )
+}
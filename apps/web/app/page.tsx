@@ -1,22 +1,90 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useSearchParams } from 'next/navigation'
-import { useEvents } from '@/hooks/use-events'
-import { POLISH_CITIES, EVENT_CATEGORIES } from '@events-agregator/shared'
+import { useEvents, useEventsInBounds } from '@/hooks/use-events'
+import {
+  POLISH_CITIES,
+  EVENT_CATEGORIES,
+  CITY_COORDINATES,
+  CITY_VOIVODESHIPS,
+  VOIVODESHIPS,
+  DATE_PRESETS,
+  getDatePresetRange,
+  type DatePreset,
+  type Voivodeship
+} from '@events-agregator/shared'
 import { Header } from '@/components/header'
 import { EventCard } from '@/components/event-card'
+import { EventsMap } from '@/components/events-map'
+import { RecommendedEvents } from '@/components/recommended-events'
+import { useAuth } from '@/contexts/auth-context-v2'
+import type { EventApiResponse, MapBounds } from '@/lib/types'
 import { supabase } from '@/lib/supabase-client'
 import { toast } from '@/lib/toast'
 
+const RADIUS_OPTIONS_KM = [5, 10, 15, 25, 50]
+const DEFAULT_RADIUS_KM = 15
+// Markers fetched per viewport; zooming in shows the rest
+const MAP_EVENT_LIMIT = 500
+const POLAND_CENTER: [number, number] = [52.07, 19.48]
+
 export default function Home() {
   const searchParams = useSearchParams()
+  const { user } = useAuth()
   const [filters, setFilters] = useState({
     city: '',
     category: '',
     search: '',
   })
   const [showExpiredEvents, setShowExpiredEvents] = useState(false)
+  // Radius search: around the user's position, or around the selected city's centre
+  const [radiusKm, setRadiusKm] = useState('')
+  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null)
+  const [isLocating, setIsLocating] = useState(false)
+  const [viewMode, setViewMode] = useState<'list' | 'map' | 'kids'>('list')
+  const [mapBounds, setMapBounds] = useState<MapBounds | undefined>(undefined)
+  const [previewEvents, setPreviewEvents] = useState<EventApiResponse[]>([])
+  // Date filter: a preset or a custom range of days (YYYY-MM-DD)
+  const [datePreset, setDatePreset] = useState<DatePreset | 'custom' | ''>('')
+  const [customDates, setCustomDates] = useState({ from: '', to: '' })
+  const [voivodeship, setVoivodeship] = useState<Voivodeship | ''>('')
+
+  // Ferie follow the selected city's voivodeship unless one is picked explicitly
+  const breakVoivodeship = voivodeship || CITY_VOIVODESHIPS[filters.city]
+  const presetRange = datePreset && datePreset !== 'custom'
+    ? getDatePresetRange(datePreset, { voivodeship: breakVoivodeship })
+    : null
+  // A preset without a term (ferie before a voivodeship is known) matches no events, not every date
+  const presetUnresolved = !!datePreset && datePreset !== 'custom' && !presetRange
+  const dateFilters = datePreset === 'custom'
+    ? { startDate: customDates.from || undefined, endDate: customDates.to || undefined }
+    : { startDate: presetRange?.from.toISOString(), endDate: presetRange?.to.toISOString() }
+
+  const handleUseLocation = () => {
+    if (location) {
+      setLocation(null)
+      return
+    }
+    if (!navigator.geolocation) {
+      toast.error('Twoja przeglądarka nie udostępnia lokalizacji')
+      return
+    }
+
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation({ lat: position.coords.latitude, lng: position.coords.longitude })
+        setRadiusKm((current) => current || String(DEFAULT_RADIUS_KM))
+        setIsLocating(false)
+      },
+      () => {
+        toast.error('Nie udało się ustalić Twojej lokalizacji')
+        setIsLocating(false)
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    )
+  }
 
   // Handle auth-required redirect from middleware
   useEffect(() => {
@@ -39,12 +107,68 @@ export default function Home() {
     }
   }, [searchParams])
 
-  const { data, isLoading, error } = useEvents({
+  // The list and the map share the same filters
+  const eventFilters = {
     ...filters,
-    limit: 25,
-    offset: 0,
+    // The user's position replaces the city filter
+    city: location ? '' : filters.city,
+    lat: location?.lat,
+    lng: location?.lng,
+    radiusKm: radiusKm ? Number(radiusKm) : undefined,
+    sort: location || (radiusKm && filters.city) ? 'distance' as const : undefined,
+    ...dateFilters,
     includeExpiredEvents: showExpiredEvents
-  })
+  }
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useEvents({
+    ...eventFilters,
+    limit: 25
+  }, !presetUnresolved)
+  const events = useMemo(
+    () => presetUnresolved ? [] : data?.pages.flatMap((page) => page.items) || [],
+    [data, presetUnresolved]
+  )
+
+  // Infinite scroll: load the next page when the end of the list comes into view
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !hasNextPage) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage()
+      }
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, viewMode])
+
+  const { data: mapData, isFetching: isMapFetching } = useEventsInBounds({
+    ...eventFilters,
+    bounds: viewMode === 'map' ? mapBounds : undefined,
+    limit: MAP_EVENT_LIMIT,
+    offset: 0
+  }, !presetUnresolved)
+
+  const mapEvents = useMemo(
+    () => presetUnresolved ? [] : (mapData?.items || []).filter((event): event is EventApiResponse => event !== null),
+    [mapData, presetUnresolved]
+  )
+
+  const mapView = useMemo((): { center: [number, number]; zoom: number } => {
+    if (location) return { center: [location.lat, location.lng], zoom: 12 }
+    const cityCenter = filters.city ? CITY_COORDINATES[filters.city] : undefined
+    if (cityCenter) return { center: [cityCenter.lat, cityCenter.lng], zoom: 12 }
+    return { center: POLAND_CENTER, zoom: 6 }
+  }, [location, filters.city])
   
   // Debug logging
   console.log('Home page - Events query state:', { data, isLoading, error })
@@ -92,7 +216,8 @@ export default function Home() {
               <select
                 value={filters.city}
                 onChange={(e) => setFilters({ ...filters, city: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={!!location}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
               >
                 <option value="">Wszystkie miasta</option>
                 {POLISH_CITIES.map((city) => (
@@ -135,6 +260,96 @@ export default function Home() {
             </div>
           </div>
           
+          {/* Date */}
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <select
+              value={datePreset}
+              onChange={(e) => setDatePreset(e.target.value as DatePreset | 'custom' | '')}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Dowolny termin</option>
+              {Object.entries(DATE_PRESETS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+              <option value="custom">Wybierz daty...</option>
+            </select>
+
+            {datePreset === 'custom' && (
+              <>
+                <input
+                  type="date"
+                  value={customDates.from}
+                  max={customDates.to || undefined}
+                  onChange={(e) => setCustomDates({ ...customDates, from: e.target.value })}
+                  aria-label="Od"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-500">–</span>
+                <input
+                  type="date"
+                  value={customDates.to}
+                  min={customDates.from || undefined}
+                  onChange={(e) => setCustomDates({ ...customDates, to: e.target.value })}
+                  aria-label="Do"
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </>
+            )}
+
+            {datePreset === 'winter-break' && (
+              <select
+                value={breakVoivodeship || ''}
+                onChange={(e) => setVoivodeship(e.target.value as Voivodeship | '')}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Wybierz województwo</option>
+                {VOIVODESHIPS.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {presetRange && (
+              <span className="text-sm text-gray-500">
+                {presetRange.from.toLocaleDateString('pl-PL', { day: 'numeric', month: 'numeric' })}
+                {presetRange.to.getTime() - presetRange.from.getTime() > 24 * 60 * 60 * 1000 &&
+                  ` – ${presetRange.to.toLocaleDateString('pl-PL', { day: 'numeric', month: 'numeric', year: 'numeric' })}`}
+              </span>
+            )}
+            {datePreset && datePreset !== 'custom' && !presetRange && (datePreset !== 'winter-break' || breakVoivodeship) && (
+              <span className="text-sm text-gray-500">Brak terminu w kalendarzu szkolnym</span>
+            )}
+          </div>
+
+          {/* Distance */}
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <button
+              type="button"
+              onClick={handleUseLocation}
+              disabled={isLocating}
+              className={`px-3 py-2 text-sm rounded-md border ${location ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'} disabled:opacity-50`}
+            >
+              {isLocating ? 'Ustalanie lokalizacji...' : location ? '📍 Blisko mnie (wyłącz)' : '📍 Użyj mojej lokalizacji'}
+            </button>
+            <select
+              value={radiusKm}
+              onChange={(e) => setRadiusKm(e.target.value)}
+              disabled={!location && !filters.city}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            >
+              <option value="">{location ? `Do ${DEFAULT_RADIUS_KM} km` : 'Tylko w tym mieście'}</option>
+              {RADIUS_OPTIONS_KM.map((km) => (
+                <option key={km} value={km}>
+                  Do {km} km {location ? 'ode mnie' : 'od centrum'}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Expired Events Toggle */}
           <div className="mt-4 flex items-center">
             <input
@@ -151,29 +366,134 @@ export default function Home() {
         </div>
       </div>
 
-      {/* Events List */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
-        {isLoading ? (
-          <div className="text-center py-12">
-            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
-            <p className="mt-2 text-gray-600">Ładowanie wydarzeń...</p>
-          </div>
-        ) : error ? (
-          <div className="text-center py-12">
-            <p className="text-red-600">Błąd podczas ładowania wydarzeń</p>
-          </div>
-        ) : !data || data.items?.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-gray-600">Nie znaleziono wydarzeń</p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {data.items?.map((event: any) => (
-              <EventCard key={event.id} event={event} />
-            )) || []}
-          </div>
-        )}
+      {/* View switcher */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-4 flex justify-end">
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          <button
+            type="button"
+            onClick={() => setViewMode('list')}
+            className={`px-4 py-2 text-sm font-medium border rounded-l-md ${viewMode === 'list' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+          >
+            Lista
+          </button>
+          <button
+            type="button"
+            onClick={() => setViewMode('map')}
+            className={`px-4 py-2 text-sm font-medium border ${user ? '' : 'rounded-r-md'} ${viewMode === 'map' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+          >
+            Mapa
+          </button>
+          {user && (
+            <button
+              type="button"
+              onClick={() => setViewMode('kids')}
+              className={`px-4 py-2 text-sm font-medium border rounded-r-md ${viewMode === 'kids' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+            >
+              Dla moich dzieci
+            </button>
+          )}
+        </div>
       </div>
+
+      {viewMode === 'kids' && user ? (
+        /* "For my kids" feed */
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          <RecommendedEvents location={location} city={filters.city} />
+        </div>
+      ) : viewMode === 'map' ? (
+        /* Events Map */
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <EventsMap
+                events={mapEvents}
+                center={mapView.center}
+                zoom={mapView.zoom}
+                selectedEventId={previewEvents.length === 1 ? previewEvents[0].id : undefined}
+                onBoundsChange={setMapBounds}
+                onSelectEvents={setPreviewEvents}
+                className="h-[600px]"
+              />
+              <p className="mt-2 text-sm text-gray-500">
+                {isMapFetching
+                  ? 'Wczytywanie wydarzeń z widocznego obszaru...'
+                  : `Wydarzenia na mapie: ${mapEvents.length}`}
+                {!presetUnresolved && mapData?.hasMore && ` z ${mapData.total} — przybliż mapę, aby zobaczyć pozostałe`}
+              </p>
+            </div>
+
+            {/* Event preview */}
+            <div className="space-y-4 lg:max-h-[600px] lg:overflow-y-auto">
+              {previewEvents.length === 0 ? (
+                <div className="bg-white p-6 rounded-lg shadow-sm text-center text-gray-600">
+                  Kliknij znacznik na mapie, aby zobaczyć wydarzenie
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">
+                      {previewEvents.length === 1 ? 'Wybrane wydarzenie' : `Wydarzenia w tym miejscu: ${previewEvents.length}`}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => setPreviewEvents([])}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      Zamknij
+                    </button>
+                  </div>
+                  {previewEvents.map((event) => (
+                    <EventCard key={event.id} event={event} />
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        /* Events List */
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          {isLoading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+              <p className="mt-2 text-gray-600">Ładowanie wydarzeń...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600">Błąd podczas ładowania wydarzeń</p>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                {datePreset === 'winter-break' && !breakVoivodeship
+                  ? 'Wybierz województwo, aby zobaczyć wydarzenia w czasie ferii'
+                  : 'Nie znaleziono wydarzeń'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {events.map((event: any) => (
+                  <EventCard key={event.id} event={event} />
+                ))}
+              </div>
+              <div ref={loadMoreRef} className="text-center py-8">
+                {isFetchingNextPage ? (
+                  <div className="inline-block animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+                ) : hasNextPage ? (
+                  <button
+                    type="button"
+                    onClick={() => fetchNextPage()}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    Pokaż więcej
+                  </button>
+                ) : null}
+              </div>
+            </>
+          )}
+        </div>
+      )}
     </main>
   )
 }
\ No newline at end of file
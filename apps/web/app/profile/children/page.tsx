@@ -175,7 +175,8 @@ export default function ChildrenProfilesPage() {
       console.log('4. Testing insert operation...')
       const testData = {
         name: 'Test Child Diagnostic',
-        age: 8,
+        birthYear: new Date().getFullYear() - 8,
+        birthMonth: 1,
         interests: ['Test']
       }
       
@@ -7,8 +7,10 @@ import { useAuth } from '@/contexts/auth-context-v2'
 import { Header } from '@/components/header'
 import { toast } from '@/lib/toast'
 import { getChildProfiles } from '@/lib/supabase-queries'
+import { formatAgeYears } from '@events-agregator/shared'
 import { ChildProfile } from '@/lib/types'
 import { useFavoritesCount } from '@/hooks/use-favorites'
+import { ApiKeysPanel } from '@/components/api-keys-panel'
 
 export default function Profile() {
   const router = useRouter()
@@ -292,7 +294,7 @@ export default function Profile() {
                           </div>
                           <div>
                             <p className="font-medium text-gray-900">{profile.name}</p>
-                            <p className="text-sm text-gray-600">{profile.age} lat</p>
+                            <p className="text-sm text-gray-600">{formatAgeYears(profile.age)}</p>
                           </div>
                         </div>
                         {profile.interests.length > 0 && (
@@ -318,6 +320,14 @@ export default function Profile() {
                 )}
               </div>
             </div>
+
+            {/* Partner API Keys Section */}
+            <div className="bg-white rounded-lg shadow mt-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-semibold">Klucze API</h3>
+              </div>
+              <ApiKeysPanel />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,80 @@
+'use client'
+
+import { buildCalendar, CalendarEvent, googleCalendarUrl, outlookCalendarUrl } from '@events-agregator/shared'
+import { EventApiResponse } from '@/lib/types'
+
+interface AddToCalendarProps {
+  event: EventApiResponse
+  url: string // Event page in the app
+}
+
+export function AddToCalendar({ event, url }: AddToCalendarProps) {
+  const calendarEvent: CalendarEvent = {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    start: new Date(event.startDate),
+    end: event.endDate ? new Date(event.endDate) : null,
+    location: [event.locationName, event.address, event.city].filter(Boolean).join(', '),
+    lat: event.lat,
+    lng: event.lng,
+    url: event.sourceUrl,
+    detailsUrl: url,
+    recurrenceRule: event.recurrenceRule,
+    recurrenceExceptions: event.recurrenceExceptions,
+    cancelled: event.status === 'CANCELLED',
+    updatedAt: event.updatedAt ? new Date(event.updatedAt) : null
+  }
+
+  // Google and Outlook links add a single date: the upcoming one for recurring events
+  const upcoming = event.nextOccurrence ? new Date(event.nextOccurrence) : null
+  const singleDate: CalendarEvent = upcoming
+    ? {
+        ...calendarEvent,
+        start: upcoming,
+        end: calendarEvent.end ? new Date(upcoming.getTime() + calendarEvent.end.getTime() - calendarEvent.start.getTime()) : null
+      }
+    : calendarEvent
+
+  // The .ics file carries the whole series
+  const downloadIcs = () => {
+    const blob = new Blob([buildCalendar([calendarEvent])], { type: 'text/calendar;charset=utf-8' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `wydarzenie-${event.id}.ics`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(link.href)
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-lg font-medium mb-2">Dodaj do kalendarza</h3>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={downloadIcs}
+          className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+        >
+          📅 Apple / plik .ics
+        </button>
+        <a
+          href={googleCalendarUrl(singleDate)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+        >
+          Google Calendar
+        </a>
+        <a
+          href={outlookCalendarUrl(singleDate)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="px-4 py-2 text-sm bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300"
+        >
+          Outlook
+        </a>
+      </div>
+    </div>
+  )
+}
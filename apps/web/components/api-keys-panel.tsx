@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { pl } from 'date-fns/locale'
+import { api } from '@/lib/api'
+import { useAuth } from '@/contexts/auth-context-v2'
+import { toast } from '@/lib/toast'
+import type { ApiKey, ApiKeyUsageDay } from '@/lib/types'
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000'
+const USAGE_DAYS = 30
+
+// Keys for the partner API (/v1) - for schools, blogs and city portals embedding our events
+export function ApiKeysPanel() {
+  const { getAccessToken } = useAuth()
+  const [loading, setLoading] = useState(true)
+  const [keys, setKeys] = useState<ApiKey[]>([])
+  const [newKeyName, setNewKeyName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [usage, setUsage] = useState<ApiKeyUsageDay[]>([])
+
+  useEffect(() => {
+    loadKeys()
+  }, [])
+
+  useEffect(() => {
+    setUsage([])
+    if (selectedKey) loadUsage(selectedKey)
+  }, [selectedKey])
+
+  async function loadKeys() {
+    try {
+      setLoading(true)
+      const token = await getAccessToken()
+      if (!token) return
+
+      setKeys(await api.getApiKeys(token))
+    } catch (error) {
+      console.error('Error loading API keys:', error)
+      toast.error('Błąd podczas ładowania kluczy API')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function loadUsage(id: string) {
+    try {
+      const token = await getAccessToken()
+      if (!token) return
+
+      setUsage((await api.getApiKeyUsage(token, id, USAGE_DAYS)).items)
+    } catch (error) {
+      console.error('Error loading API key usage:', error)
+      toast.error('Błąd podczas ładowania statystyk')
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    if (!newKeyName.trim()) return
+
+    try {
+      setCreating(true)
+      const token = await getAccessToken()
+      if (!token) return
+
+      const apiKey = await api.createApiKey(token, newKeyName.trim())
+      setCreatedKey(apiKey.key)
+      setNewKeyName('')
+      setKeys([apiKey, ...keys])
+    } catch (error: any) {
+      console.error('Error creating API key:', error)
+      toast.error(`Nie udało się utworzyć klucza: ${error.message || 'Nieznany błąd'}`)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function handleRevoke(apiKey: ApiKey) {
+    if (!confirm(`Unieważnić klucz "${apiKey.name}"? Aplikacje, które go używają, przestaną działać.`)) return
+
+    try {
+      const token = await getAccessToken()
+      if (!token) return
+
+      await api.revokeApiKey(token, apiKey.id)
+      setKeys(keys.map(key => key.id === apiKey.id ? { ...key, revoked_at: new Date().toISOString() } : key))
+      toast.success('Klucz unieważniony')
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+      toast.error('Nie udało się unieważnić klucza')
+    }
+  }
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key)
+      toast.success('Klucz skopiowany!')
+    } catch (error) {
+      toast.error('Nie udało się skopiować klucza')
+    }
+  }
+
+  const maxRequests = Math.max(1, ...usage.map(day => day.requests))
+  const endpointTotals = usage.reduce<Record<string, number>>((totals, day) => {
+    for (const [endpoint, count] of Object.entries(day.endpoints)) {
+      totals[endpoint] = (totals[endpoint] || 0) + count
+    }
+    return totals
+  }, {})
+
+  return (
+    <div className="p-6 space-y-4">
+      <p className="text-sm text-gray-600">
+        Klucze pozwalają szkołom, blogom i portalom miejskim pobierać wydarzenia przez nasze API.
+        Dokumentacja:{' '}
+        <a href={`${API_URL}/v1/openapi.json`} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+          specyfikacja OpenAPI
+        </a>
+      </p>
+
+      {createdKey && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-sm font-medium text-green-800 mb-2">
+            Skopiuj klucz teraz - ze względów bezpieczeństwa nie pokażemy go ponownie.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 px-3 py-2 text-sm bg-white border border-green-200 rounded-md break-all">{createdKey}</code>
+            <button
+              onClick={() => copyKey(createdKey)}
+              className="px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+            >
+              Kopiuj
+            </button>
+          </div>
+          <button onClick={() => setCreatedKey(null)} className="mt-2 text-xs text-green-700 hover:text-green-900">
+            Gotowe
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={newKeyName}
+          onChange={(e) => setNewKeyName(e.target.value)}
+          maxLength={100}
+          placeholder="Nazwa klucza, np. Strona szkoły"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={creating || !newKeyName.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {creating ? 'Tworzenie...' : 'Utwórz klucz'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : keys.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">Nie masz jeszcze kluczy API</p>
+      ) : (
+        <div className="space-y-3">
+          {keys.map((apiKey) => (
+            <div key={apiKey.id} className={`p-3 rounded-lg border ${apiKey.revoked_at ? 'bg-gray-50 border-gray-200 opacity-60' : 'border-gray-200'}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {apiKey.name}
+                    {apiKey.revoked_at && <span className="ml-2 text-xs text-red-600">unieważniony</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 font-mono">{apiKey.key_prefix}…</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Limit: {apiKey.requests_per_minute}/min, {apiKey.requests_per_day}/dzień · dziś: {apiKey.requests_today} ·
+                    ostatnio użyty {apiKey.last_used_at ? formatDistanceToNow(new Date(apiKey.last_used_at), { addSuffix: true, locale: pl }) : 'nigdy'}
+                  </p>
+                </div>
+                <div className="flex gap-3 text-sm whitespace-nowrap">
+                  <button
+                    onClick={() => setSelectedKey(selectedKey === apiKey.id ? null : apiKey.id)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    {selectedKey === apiKey.id ? 'Ukryj' : 'Statystyki'}
+                  </button>
+                  {!apiKey.revoked_at && (
+                    <button onClick={() => handleRevoke(apiKey)} className="text-red-600 hover:text-red-800">
+                      Unieważnij
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Requests per day over the last 30 days */}
+              {selectedKey === apiKey.id && (
+                <div className="mt-4">
+                  <div className="flex items-end gap-px h-16">
+                    {usage.map((day) => (
+                      <div
+                        key={day.date}
+                        className="flex-1 bg-blue-400 hover:bg-blue-600"
+                        style={{ height: `${Math.max(2, (day.requests / maxRequests) * 100)}%` }}
+                        title={`${day.date}: ${day.requests} zapytań${day.rejected > 0 ? `, ${day.rejected} odrzuconych` : ''}`}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Ostatnie {USAGE_DAYS} dni: {usage.reduce((sum, day) => sum + day.requests, 0)} zapytań
+                    {usage.some(day => day.rejected > 0) && `, ${usage.reduce((sum, day) => sum + day.rejected, 0)} odrzuconych (przekroczony limit)`}
+                  </p>
+                  {Object.keys(endpointTotals).length > 0 && (
+                    <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                      {Object.entries(endpointTotals).sort((a, b) => b[1] - a[1]).map(([endpoint, count]) => (
+                        <li key={endpoint} className="flex justify-between font-mono">
+                          <span>{endpoint}</span>
+                          <span>{count}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useState } from 'react'
+import { useCalendarFeedUrl, useResetCalendarFeedUrl } from '@/hooks/use-favorites'
+import { toast } from '@/lib/toast'
+
+// Secret ICS feed of the favourites, for subscribing from phone and desktop calendars
+export function CalendarSubscription() {
+  const { data: feedUrl, isLoading, error } = useCalendarFeedUrl()
+  const resetFeedUrl = useResetCalendarFeedUrl()
+  const [expanded, setExpanded] = useState(false)
+
+  if (isLoading || error || !feedUrl) return null
+
+  const webcalUrl = feedUrl.replace(/^https?:\/\//, 'webcal://')
+  const googleUrl = `https://calendar.google.com/calendar/r?cid=${encodeURIComponent(webcalUrl)}`
+
+  const copyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast.success('Link skopiowany!')
+    } catch (error) {
+      toast.error('Nie udało się skopiować linku')
+    }
+  }
+
+  const handleReset = () => {
+    if (!confirm('Kalendarze subskrybujące obecny link przestaną się aktualizować. Utworzyć nowy link?')) return
+    resetFeedUrl.mutate()
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="font-semibold text-gray-900">📅 Kalendarz rodzinny</h2>
+          <p className="text-sm text-gray-600">
+            Ulubione wydarzenia w kalendarzu telefonu - zmiany terminów i odwołania pojawią się same.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <a
+            href={webcalUrl}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Subskrybuj (Apple, Outlook)
+          </a>
+          <a
+            href={googleUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-3 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+          >
+            Google Calendar
+          </a>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="px-3 py-2 text-sm text-blue-600 hover:text-blue-800"
+          >
+            {expanded ? 'Ukryj link' : 'Pokaż link'}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 pt-4 border-t border-gray-200">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md bg-gray-50"
+            />
+            <button
+              onClick={copyFeedUrl}
+              className="px-3 py-2 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Kopiuj
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Link jest prywatny - każdy, kto go zna, zobaczy Twoje ulubione.{' '}
+            <button
+              onClick={handleReset}
+              disabled={resetFeedUrl.isPending}
+              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              Utwórz nowy link
+            </button>
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 'use client'
 
+import { formatAgeYears } from '@events-agregator/shared'
 import { ChildProfile } from '@/lib/types'
 
 interface ChildProfileCardProps {
@@ -41,7 +42,7 @@ export function ChildProfileCard({ profile, onEdit, onDelete }: ChildProfileCard
           {/* Profile Info */}
           <div>
             <h3 className="text-lg font-semibold text-gray-900">{profile.name}</h3>
-            <p className="text-sm text-gray-600">{profile.age} lat</p>
+            <p className="text-sm text-gray-600">{formatAgeYears(profile.age)}</p>
             
             {/* Interests */}
             {profile.interests.length > 0 && (
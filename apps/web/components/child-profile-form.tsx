@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import { childAgeAt, formatAgeYears } from '@events-agregator/shared'
 import { ChildProfile } from '@/lib/types'
 import { toast } from '@/lib/toast'
 import { createChildProfile, updateChildProfile } from '@/lib/supabase-queries'
@@ -17,11 +18,21 @@ const COMMON_INTERESTS = [
   'Robotyka', 'Programowanie', 'Zwierzęta', 'Podróże'
 ]
 
+const MONTHS = [
+  'Styczeń', 'Luty', 'Marzec', 'Kwiecień', 'Maj', 'Czerwiec',
+  'Lipiec', 'Sierpień', 'Wrzesień', 'Październik', 'Listopad', 'Grudzień'
+]
+
+const MAX_CHILD_AGE = 18
+
 export function ChildProfileForm({ profile, onSuccess, onCancel }: ChildProfileFormProps) {
   const [loading, setLoading] = useState(false)
+  const now = new Date()
+  const currentYear = now.getFullYear()
   const [formData, setFormData] = useState({
     name: profile?.name || '',
-    age: profile?.age || 5,
+    birthYear: profile?.birthYear || currentYear - 5,
+    birthMonth: profile?.birthMonth || now.getMonth() + 1,
     interests: profile?.interests || []
   })
   const [newInterest, setNewInterest] = useState('')
@@ -34,8 +45,13 @@ export function ChildProfileForm({ profile, onSuccess, onCancel }: ChildProfileF
       return
     }
 
-    if (formData.age < 0 || formData.age > 18) {
-      toast.error('Wiek musi być między 0 a 18 lat')
+    if (formData.birthYear * 12 + formData.birthMonth > currentYear * 12 + now.getMonth() + 1) {
+      toast.error('Data urodzenia nie może być w przyszłości')
+      return
+    }
+
+    if (childAgeAt(formData) > MAX_CHILD_AGE) {
+      toast.error(`Wiek musi być między 0 a ${MAX_CHILD_AGE} lat`)
       return
     }
 
@@ -126,22 +142,33 @@ export function ChildProfileForm({ profile, onSuccess, onCancel }: ChildProfileF
         />
       </div>
 
-      {/* Age */}
+      {/* Birth month - age follows from it, so it stays up to date */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-1">
-          Wiek *
+          Miesiąc i rok urodzenia *
         </label>
         <div className="flex items-center space-x-3">
-          <input
-            type="number"
+          <select
+            required
+            value={formData.birthMonth}
+            onChange={(e) => setFormData({ ...formData, birthMonth: parseInt(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {MONTHS.map((month, index) => (
+              <option key={month} value={index + 1}>{month}</option>
+            ))}
+          </select>
+          <select
             required
-            min="0"
-            max="18"
-            value={formData.age}
-            onChange={(e) => setFormData({ ...formData, age: parseInt(e.target.value) || 0 })}
-            className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-          <span className="text-gray-600">lat</span>
+            value={formData.birthYear}
+            onChange={(e) => setFormData({ ...formData, birthYear: parseInt(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {Array.from({ length: MAX_CHILD_AGE + 2 }, (_, index) => currentYear - index).map((year) => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+          <span className="text-gray-600">{formatAgeYears(Math.max(0, childAgeAt(formData)))}</span>
         </div>
       </div>
 
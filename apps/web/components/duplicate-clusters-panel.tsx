@@ -0,0 +1,217 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { createClient } from '@/lib/supabase'
+import { toast } from '@/lib/toast'
+
+interface ClusterEvent {
+  id: string
+  title: string
+  location_name: string
+  city: string
+  start_date: string
+  source_name: string | null
+  source_url: string
+}
+
+interface EventDuplicate {
+  id: string
+  similarity: number
+  reviewed_at: string | null
+  created_at: string
+  canonical: ClusterEvent
+  duplicate: ClusterEvent
+}
+
+interface Cluster {
+  canonical: ClusterEvent
+  duplicates: EventDuplicate[]
+}
+
+const EVENT_FIELDS = 'id, title, location_name, city, start_date, source_name, source_url'
+
+export function DuplicateClustersPanel() {
+  const supabase = createClient()
+  const [loading, setLoading] = useState(true)
+  const [showReviewed, setShowReviewed] = useState(false)
+  const [clusters, setClusters] = useState<Cluster[]>([])
+
+  useEffect(() => {
+    loadClusters()
+  }, [showReviewed])
+
+  async function loadClusters() {
+    try {
+      setLoading(true)
+
+      let query = supabase
+        .from('event_duplicates')
+        .select(`
+          id,
+          similarity,
+          reviewed_at,
+          created_at,
+          canonical:events!event_duplicates_canonical_event_id_fkey(${EVENT_FIELDS}),
+          duplicate:events!event_duplicates_duplicate_event_id_fkey(${EVENT_FIELDS})
+        `)
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (!showReviewed) {
+        query = query.is('reviewed_at', null)
+      }
+
+      const { data, error } = await query
+
+      if (error) throw error
+
+      // Group duplicates under their canonical event
+      const grouped = new Map<string, Cluster>()
+      for (const row of (data || []) as unknown as EventDuplicate[]) {
+        const cluster = grouped.get(row.canonical.id) || { canonical: row.canonical, duplicates: [] }
+        cluster.duplicates.push(row)
+        grouped.set(row.canonical.id, cluster)
+      }
+
+      setClusters(Array.from(grouped.values()))
+    } catch (error) {
+      console.error('Error loading duplicate clusters:', error)
+      toast.error('Błąd podczas ładowania duplikatów')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function unmerge(duplicateId: string) {
+    try {
+      const { error } = await supabase.rpc('unmerge_event_duplicate', { duplicate_id: duplicateId })
+      if (error) throw error
+
+      toast.success('Wydarzenie zostało rozdzielone')
+      await loadClusters()
+    } catch (error) {
+      console.error('Error unmerging duplicate:', error)
+      toast.error('Błąd podczas rozdzielania wydarzeń')
+    }
+  }
+
+  async function confirm(duplicateId: string) {
+    try {
+      const { error } = await supabase.rpc('confirm_event_duplicate', { duplicate_id: duplicateId })
+      if (error) throw error
+
+      toast.success('Scalenie zostało zatwierdzone')
+      await loadClusters()
+    } catch (error) {
+      console.error('Error confirming duplicate:', error)
+      toast.error('Błąd podczas zatwierdzania scalenia')
+    }
+  }
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString('pl-PL', {
+      day: 'numeric',
+      month: 'long',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-6 py-4 border-b">
+        <p className="text-sm text-gray-600">
+          Wydarzenia z różnych źródeł scalone automatycznie w jedno wydarzenie
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showReviewed}
+            onChange={(e) => setShowReviewed(e.target.checked)}
+          />
+          Pokaż zatwierdzone
+        </label>
+      </div>
+
+      {clusters.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600">Brak duplikatów do przejrzenia</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {clusters.map(cluster => (
+            <li key={cluster.canonical.id} className="px-6 py-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <a
+                    href={`/events/${cluster.canonical.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                  >
+                    {cluster.canonical.title}
+                  </a>
+                  <div className="text-sm text-gray-500">
+                    {cluster.canonical.location_name} • {cluster.canonical.city} • {formatDate(cluster.canonical.start_date)}
+                  </div>
+                  <a
+                    href={cluster.canonical.source_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    {cluster.canonical.source_name || 'Źródło'} (główne)
+                  </a>
+                </div>
+              </div>
+
+              <ul className="mt-3 ml-4 border-l-2 border-gray-200 pl-4 space-y-3">
+                {cluster.duplicates.map(dup => (
+                  <li key={dup.id} className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="text-sm text-gray-900">{dup.duplicate.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {dup.duplicate.location_name} • {formatDate(dup.duplicate.start_date)} • podobieństwo {Math.round(dup.similarity * 100)}%
+                      </div>
+                      <a
+                        href={dup.duplicate.source_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        {dup.duplicate.source_name || 'Źródło'}
+                      </a>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm whitespace-nowrap">
+                      {!dup.reviewed_at && (
+                        <button
+                          onClick={() => confirm(dup.id)}
+                          className="text-green-600 hover:text-green-800 font-medium"
+                        >
+                          Zatwierdź
+                        </button>
+                      )}
+                      <button
+                        onClick={() => unmerge(dup.id)}
+                        className="text-red-600 hover:text-red-800 font-medium"
+                      >
+                        Rozdziel
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -3,7 +3,8 @@
 import Link from 'next/link'
 import { formatDistanceToNow } from 'date-fns'
 import { pl } from 'date-fns/locale'
-import { sanitizeText } from '@/lib/sanitize'
+import { describeRecurrence, formatDistance } from '@events-agregator/shared'
+import { sanitizeHtml, sanitizeText } from '@/lib/sanitize'
 import { useAuth } from '@/contexts/auth-context-v2'
 import { useIsFavorited, useToggleFavorite } from '@/hooks/use-favorites'
 import { useState } from 'react'
@@ -25,6 +26,11 @@ interface EventCardProps {
     imageUrls?: string[]
     status: string
     organizerName?: string
+    recurrenceRule?: string | null
+    nextOccurrence?: string | null
+    titleHighlight?: string
+    snippet?: string
+    distanceKm?: number
   }
   favoriteTheme?: 'red' | 'blue' // Optional theme configuration
 }
@@ -42,8 +48,12 @@ const statusBadges = {
   ACTIVE: { label: 'Aktywne', class: 'bg-green-100 text-green-800' },
   EXPIRED: { label: 'Zakończone', class: 'bg-gray-100 text-gray-800' },
   REJECTED: { label: 'Odrzucone', class: 'bg-red-100 text-red-800' },
+  CANCELLED: { label: 'Odwołane', class: 'bg-red-100 text-red-800' },
 }
 
+// Search highlights may only keep the <mark> tags around matched words
+const HIGHLIGHT_SANITIZE_OPTIONS = { ALLOWED_TAGS: ['mark'], ALLOWED_ATTR: [] }
+
 // Favorite theme configurations
 const favoriteThemes = {
   red: {
@@ -61,7 +71,8 @@ const favoriteThemes = {
 }
 
 export function EventCard({ event, favoriteTheme = 'red' }: EventCardProps) {
-  const startDate = new Date(event.startDate)
+  // Recurring events show their upcoming date, not the first one
+  const startDate = new Date(event.nextOccurrence || event.startDate)
   const { user } = useAuth()
   const { isFavorited, isLoading: isFavoriteLoading } = useIsFavorited(event.id)
   const toggleFavorite = useToggleFavorite()
@@ -137,13 +148,18 @@ export function EventCard({ event, favoriteTheme = 'red' }: EventCardProps) {
         )}
 
         {/* Status badges */}
-        {(event.status === 'DRAFT' || isExpired) && (
+        {(event.status === 'DRAFT' || event.status === 'CANCELLED' || isExpired) && (
           <div className="mb-3 flex gap-2 flex-wrap">
             {event.status === 'DRAFT' && (
               <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadge.class}`}>
                 🕐 {statusBadge.label}
               </span>
             )}
+            {event.status === 'CANCELLED' && (
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadge.class}`}>
+                ✕ {statusBadge.label}
+              </span>
+            )}
             {isExpired && (
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                 ⏰ Zakończone
@@ -171,15 +187,29 @@ export function EventCard({ event, favoriteTheme = 'red' }: EventCardProps) {
           </span>
         </div>
 
-        {/* Title */}
-        <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2">
-          {sanitizeText(event.title)}
-        </h3>
+        {/* Title - search results highlight the matched words */}
+        {event.titleHighlight ? (
+          <h3
+            className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2"
+            dangerouslySetInnerHTML={{ __html: sanitizeHtml(event.titleHighlight, HIGHLIGHT_SANITIZE_OPTIONS) }}
+          />
+        ) : (
+          <h3 className="text-lg font-semibold text-gray-900 mb-2 line-clamp-2">
+            {sanitizeText(event.title)}
+          </h3>
+        )}
 
         {/* Description */}
-        <p className="text-gray-600 text-sm mb-4 line-clamp-3">
-          {sanitizeText(event.description)}
-        </p>
+        {event.snippet ? (
+          <p
+            className="text-gray-600 text-sm mb-4 line-clamp-3"
+            dangerouslySetInnerHTML={{ __html: sanitizeHtml(event.snippet, HIGHLIGHT_SANITIZE_OPTIONS) }}
+          />
+        ) : (
+          <p className="text-gray-600 text-sm mb-4 line-clamp-3">
+            {sanitizeText(event.description)}
+          </p>
+        )}
 
         {/* Location & Date */}
         <div className="space-y-2 text-sm text-gray-500">
@@ -189,6 +219,9 @@ export function EventCard({ event, favoriteTheme = 'red' }: EventCardProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
             </svg>
             {sanitizeText(event.locationName)}, {sanitizeText(event.city)}
+            {event.distanceKm !== undefined && (
+              <span className="ml-1 whitespace-nowrap text-blue-600">· {formatDistance(event.distanceKm)} stąd</span>
+            )}
           </div>
           <div className="flex items-center">
             <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -202,6 +235,14 @@ export function EventCard({ event, favoriteTheme = 'red' }: EventCardProps) {
               minute: '2-digit'
             })}
           </div>
+          {event.recurrenceRule && (
+            <div className="flex items-center text-blue-600">
+              <svg className="h-4 w-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              Powtarza się {describeRecurrence(event.recurrenceRule)}
+            </div>
+          )}
         </div>
 
         {/* Price */}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { pl } from 'date-fns/locale'
+import { describeRecurrence } from '@events-agregator/shared'
+import { createClient } from '@/lib/supabase'
+import { toast } from '@/lib/toast'
+
+interface EventChange {
+  id: string
+  field: string
+  old_value: unknown
+  new_value: unknown
+  source: string
+  changed_at: string
+  event: {
+    id: string
+    title: string
+  }
+}
+
+const fieldLabels: Record<string, string> = {
+  title: 'Tytuł',
+  description: 'Opis',
+  age_min: 'Wiek od',
+  age_max: 'Wiek do',
+  price_type: 'Rodzaj ceny',
+  price: 'Cena',
+  currency: 'Waluta',
+  location_name: 'Miejsce',
+  address: 'Adres',
+  city: 'Miasto',
+  lat: 'Szerokość geogr.',
+  lng: 'Długość geogr.',
+  postal_code: 'Kod pocztowy',
+  organizer_name: 'Organizator',
+  source_url: 'Link źródłowy',
+  image_urls: 'Zdjęcia',
+  start_date: 'Początek',
+  end_date: 'Koniec',
+  category: 'Kategoria',
+  tags: 'Tagi',
+  recurrence_rule: 'Powtarzanie',
+  recurrence_exceptions: 'Terminy wyłączone',
+}
+
+// Changes families care about most
+const highlightedFields = ['start_date', 'end_date', 'recurrence_rule', 'recurrence_exceptions', 'price_type', 'price', 'location_name', 'address']
+
+export function EventChangesPanel() {
+  const supabase = createClient()
+  const [loading, setLoading] = useState(true)
+  const [highlightedOnly, setHighlightedOnly] = useState(true)
+  const [changes, setChanges] = useState<EventChange[]>([])
+
+  useEffect(() => {
+    loadChanges()
+  }, [highlightedOnly])
+
+  async function loadChanges() {
+    try {
+      setLoading(true)
+
+      let query = supabase
+        .from('event_changes')
+        .select(`
+          id,
+          field,
+          old_value,
+          new_value,
+          source,
+          changed_at,
+          event:events(id, title)
+        `)
+        .order('changed_at', { ascending: false })
+        .limit(200)
+
+      if (highlightedOnly) {
+        query = query.in('field', highlightedFields)
+      }
+
+      const { data, error } = await query
+
+      if (error) throw error
+      setChanges((data || []) as unknown as EventChange[])
+    } catch (error) {
+      console.error('Error loading event changes:', error)
+      toast.error('Błąd podczas ładowania historii zmian')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—'
+    if ((field === 'start_date' || field === 'end_date') && typeof value === 'string') {
+      return new Date(value).toLocaleString('pl-PL', {
+        day: 'numeric',
+        month: 'long',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    }
+    if (field === 'recurrence_rule' && typeof value === 'string') {
+      return describeRecurrence(value) || value
+    }
+    if (Array.isArray(value)) return value.join(', ')
+    const text = String(value)
+    return text.length > 120 ? `${text.slice(0, 120)}…` : text
+  }
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-6 py-4 border-b">
+        <p className="text-sm text-gray-600">
+          Zmiany wykryte podczas ponownego pobierania wydarzeń ze źródeł
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={highlightedOnly}
+            onChange={(e) => setHighlightedOnly(e.target.checked)}
+          />
+          Tylko termin, cena i miejsce
+        </label>
+      </div>
+
+      {changes.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600">Brak zarejestrowanych zmian</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Wydarzenie
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pole
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Było
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Jest
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Źródło
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {changes.map(change => (
+                <tr key={change.id}>
+                  <td className="px-6 py-4">
+                    <a
+                      href={`/events/${change.event.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-medium text-gray-900 hover:text-blue-600"
+                    >
+                      {change.event.title}
+                    </a>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                    {fieldLabels[change.field] || change.field}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 line-through">
+                    {formatValue(change.field, change.old_value)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {formatValue(change.field, change.new_value)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                    <div>{change.source}</div>
+                    <div className="text-xs">
+                      {formatDistanceToNow(new Date(change.changed_at), { addSuffix: true, locale: pl })}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import type { Map as LeafletMap } from 'leaflet'
+import { useLeaflet } from '@/hooks/use-leaflet'
+import { clusterMarkers, MarkerCluster } from '@/utils/marker-clustering'
+import type { EventApiResponse, MapBounds } from '@/lib/types'
+
+// Dynamically import map components to avoid SSR issues
+const MapContainer = dynamic(() => import('react-leaflet').then(mod => mod.MapContainer), { ssr: false })
+const TileLayer = dynamic(() => import('react-leaflet').then(mod => mod.TileLayer), { ssr: false })
+const Marker = dynamic(() => import('react-leaflet').then(mod => mod.Marker), { ssr: false })
+
+const CLUSTER_CELL_SIZE_PX = 60
+const BOUNDS_PRECISION = 10000 // ~10 m, keeps query keys stable for tiny pans
+
+// Reports the map after every pan/zoom and moves it when the filters pick a new centre
+const MapController = dynamic(() =>
+  import('react-leaflet').then(mod => {
+    const { useMapEvents } = mod
+
+    return function MapController({ center, zoom, onViewportChange }: {
+      center: [number, number]
+      zoom: number
+      onViewportChange: (map: LeafletMap) => void
+    }) {
+      const map = useMapEvents({
+        moveend: () => onViewportChange(map)
+      })
+
+      useEffect(() => {
+        onViewportChange(map)
+      }, [map, onViewportChange])
+
+      const [lat, lng] = center
+      useEffect(() => {
+        map.setView([lat, lng], zoom)
+      }, [map, lat, lng, zoom])
+
+      return null
+    }
+  }),
+  { ssr: false }
+)
+
+type MappableEvent = EventApiResponse & { lat: number; lng: number }
+
+interface EventsMapProps {
+  events: EventApiResponse[]
+  center: [number, number]
+  zoom: number
+  selectedEventId?: string
+  onBoundsChange: (bounds: MapBounds) => void
+  onSelectEvents: (events: EventApiResponse[]) => void
+  className?: string
+}
+
+function roundBounds(map: LeafletMap): MapBounds {
+  const bounds = map.getBounds()
+  const round = (value: number) => Math.round(value * BOUNDS_PRECISION) / BOUNDS_PRECISION
+  return {
+    north: round(bounds.getNorth()),
+    south: round(bounds.getSouth()),
+    east: round(bounds.getEast()),
+    west: round(bounds.getWest())
+  }
+}
+
+export function EventsMap({
+  events,
+  center,
+  zoom,
+  selectedEventId,
+  onBoundsChange,
+  onSelectEvents,
+  className = ''
+}: EventsMapProps) {
+  const { L, isLoading, error } = useLeaflet()
+  const [viewport, setViewport] = useState<{ map: LeafletMap; zoom: number } | null>(null)
+
+  const handleViewportChange = useCallback((map: LeafletMap) => {
+    setViewport({ map, zoom: map.getZoom() })
+    onBoundsChange(roundBounds(map))
+  }, [onBoundsChange])
+
+  const clusters = useMemo(() => {
+    if (!viewport) return []
+    const mappable = events.filter((event): event is MappableEvent =>
+      typeof event.lat === 'number' && typeof event.lng === 'number'
+    )
+    return clusterMarkers(
+      mappable,
+      (lat, lng) => viewport.map.project([lat, lng], viewport.zoom),
+      CLUSTER_CELL_SIZE_PX
+    )
+  }, [events, viewport])
+
+  const icons = useMemo(() => {
+    if (!L) return new Map<string, import('leaflet').DivIcon>()
+
+    return new Map(clusters.map(cluster => {
+      const count = cluster.items.length
+      const isSelected = cluster.items.some(item => item.id === selectedEventId)
+      const size = count === 1 ? 24 : count < 10 ? 32 : count < 100 ? 40 : 48
+      const color = isSelected ? '#dc2626' : '#2563eb'
+      const html = count === 1
+        ? `<div style="
+            background-color: ${color};
+            width: 24px;
+            height: 24px;
+            border-radius: 50% 50% 50% 0;
+            border: 3px solid white;
+            transform: rotate(-45deg);
+            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          "></div>`
+        : `<div style="
+            background-color: ${color};
+            width: ${size}px;
+            height: ${size}px;
+            border-radius: 50%;
+            border: 3px solid white;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+            color: white;
+            font-weight: 600;
+            font-size: 13px;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+          ">${count}</div>`
+
+      return [cluster.key, L.divIcon({
+        html,
+        className: 'custom-marker',
+        iconSize: [size, size],
+        iconAnchor: count === 1 ? [12, 24] : [size / 2, size / 2]
+      })]
+    }))
+  }, [L, clusters, selectedEventId])
+
+  const handleClusterClick = useCallback((cluster: MarkerCluster<MappableEvent>) => {
+    if (!viewport) return
+    const { map } = viewport
+    const samePlace = cluster.bounds.north === cluster.bounds.south && cluster.bounds.east === cluster.bounds.west
+
+    // Events at one venue never split up, so they are previewed together
+    if (cluster.items.length === 1 || samePlace || map.getZoom() >= map.getMaxZoom()) {
+      onSelectEvents(cluster.items)
+      return
+    }
+
+    map.fitBounds(
+      [[cluster.bounds.south, cluster.bounds.west], [cluster.bounds.north, cluster.bounds.east]],
+      { padding: [40, 40] }
+    )
+  }, [viewport, onSelectEvents])
+
+  if (isLoading) {
+    return (
+      <div className={`bg-gray-100 rounded-lg flex items-center justify-center ${className}`}>
+        <p className="text-gray-500">Ładowanie mapy...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className={`bg-red-50 border border-red-200 rounded-lg flex items-center justify-center ${className}`}>
+        <p className="text-red-600">{error}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={className}>
+      <MapContainer
+        center={center}
+        zoom={zoom}
+        className="h-full w-full rounded-lg"
+        style={{ height: '100%', minHeight: '400px' }}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        <MapController center={center} zoom={zoom} onViewportChange={handleViewportChange} />
+        {clusters.map(cluster => {
+          const icon = icons.get(cluster.key)
+          if (!icon) return null
+
+          return (
+            <Marker
+              key={`${cluster.key}-${cluster.items.length}`}
+              position={[cluster.lat, cluster.lng]}
+              icon={icon}
+              title={cluster.items.length === 1 ? cluster.items[0].title : `${cluster.items.length} wydarzeń`}
+              eventHandlers={{ click: () => handleClusterClick(cluster) }}
+            />
+          )
+        })}
+      </MapContainer>
+    </div>
+  )
+}
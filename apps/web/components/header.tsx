@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
 import { useAuth } from '@/contexts/auth-context-v2'
 import { AuthModal } from './auth-modal'
+import { NotificationBell } from './notification-bell'
 import { toast } from '@/lib/toast'
 
 export function Header() {
@@ -85,6 +86,7 @@ export function Header() {
             </Link>
             
             <div className="flex items-center gap-4">
+              {!loading && user && <NotificationBell />}
               {loading ? (
                 <div className="w-8 h-8 animate-spin rounded-full border-2 border-blue-600 border-t-transparent"></div>
               ) : user ? (
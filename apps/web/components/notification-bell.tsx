@@ -0,0 +1,140 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { pl } from 'date-fns/locale'
+import {
+  useNotifications,
+  useUnreadNotificationsCount,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  Notification
+} from '@/hooks/use-notifications'
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const { data: notifications = [], isLoading } = useNotifications(10)
+  const { data: unreadCount = 0 } = useUnreadNotificationsCount()
+  const markRead = useMarkNotificationRead()
+  const markAllRead = useMarkAllNotificationsRead()
+
+  const dropdownRef = useRef<HTMLDivElement>(null)
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    const handleEscKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+      document.addEventListener('keydown', handleEscKey)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+      document.removeEventListener('keydown', handleEscKey)
+    }
+  }, [isOpen])
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read_at) {
+      markRead.mutate(notification.id)
+    }
+    setIsOpen(false)
+    if (notification.link) {
+      router.push(notification.link)
+    }
+  }
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-700 hover:text-gray-900 rounded-md hover:bg-gray-50 transition-colors"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        aria-label={unreadCount > 0 ? `Powiadomienia (${unreadCount} nowych)` : 'Powiadomienia'}
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 bg-red-600 text-white text-xs font-medium rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg border z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-medium text-gray-900">Powiadomienia</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markAllRead.mutate()}
+                disabled={markAllRead.isPending}
+                className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                Oznacz wszystkie jako przeczytane
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto" role="menu" aria-orientation="vertical">
+            {isLoading ? (
+              <div className="px-4 py-6 text-center text-sm text-gray-500">Ładowanie...</div>
+            ) : notifications.length === 0 ? (
+              <div className="px-4 py-6 text-center text-sm text-gray-500">Brak powiadomień</div>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleNotificationClick(notification)}
+                  className={`block w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 transition-colors ${
+                    notification.read_at ? '' : 'bg-blue-50'
+                  }`}
+                  role="menuitem"
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.read_at && (
+                      <span className="mt-1.5 w-2 h-2 bg-blue-600 rounded-full flex-shrink-0" aria-hidden="true" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                      {notification.body && (
+                        <p className="mt-1 text-xs text-gray-600 line-clamp-2 whitespace-pre-line">{notification.body}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-400">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true, locale: pl })}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <Link
+            href="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2 text-center text-sm text-blue-600 hover:bg-gray-50 border-t"
+          >
+            Zobacz wszystkie
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import Link from 'next/link'
+import { useRecommendations } from '@/hooks/use-events'
+import { EventCard } from '@/components/event-card'
+import { sanitizeText } from '@/lib/sanitize'
+
+interface RecommendedEventsProps {
+  location?: { lat: number; lng: number } | null
+  city?: string
+}
+
+export function RecommendedEvents({ location, city }: RecommendedEventsProps) {
+  const { data, isLoading, error } = useRecommendations({
+    lat: location?.lat,
+    lng: location?.lng,
+    // The user's position replaces the city filter
+    city: location ? undefined : city || undefined
+  })
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        <p className="mt-2 text-gray-600">Dobieranie wydarzeń...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-red-600">Błąd podczas ładowania rekomendacji</p>
+      </div>
+    )
+  }
+
+  if (!data || data.children.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 mb-4">
+          Dodaj profil dziecka z wiekiem i zainteresowaniami, a dobierzemy dla niego wydarzenia.
+        </p>
+        <Link
+          href="/profile/children"
+          className="inline-block px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+        >
+          Dodaj profil dziecka
+        </Link>
+      </div>
+    )
+  }
+
+  if (data.items.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">Brak nadchodzących wydarzeń dopasowanych do Twoich dzieci</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {data.items.map((event) => (
+        <div key={event.id} className="flex flex-col">
+          <EventCard event={event} />
+          {/* Why this event */}
+          <ul className="mt-2 px-2 space-y-1 text-xs text-gray-600">
+            {event.reasons.map((reason) => (
+              <li key={reason} className="flex items-start">
+                <span className="mr-1 text-green-600">✓</span>
+                {sanitizeText(reason)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { pl } from 'date-fns/locale'
+import { api } from '@/lib/api'
+import { useAuth } from '@/contexts/auth-context-v2'
+import { toast } from '@/lib/toast'
+import type { ScraperHealthResponse, ScraperRun, ScraperSourceHealth } from '@/lib/types'
+
+const PERIOD_OPTIONS = [7, 14, 30]
+
+export function ScraperHealthPanel() {
+  const { getAccessToken } = useAuth()
+  const [loading, setLoading] = useState(true)
+  const [days, setDays] = useState(14)
+  const [health, setHealth] = useState<ScraperHealthResponse | null>(null)
+  const [selectedScraper, setSelectedScraper] = useState<string | null>(null)
+  const [runs, setRuns] = useState<ScraperRun[]>([])
+
+  useEffect(() => {
+    loadHealth()
+  }, [days])
+
+  useEffect(() => {
+    if (selectedScraper) loadRuns(selectedScraper)
+  }, [selectedScraper])
+
+  async function loadHealth() {
+    try {
+      setLoading(true)
+      const token = await getAccessToken()
+      if (!token) return
+
+      setHealth(await api.getScraperHealth(token, days))
+    } catch (error) {
+      console.error('Error loading scraper health:', error)
+      toast.error('Błąd podczas ładowania stanu scraperów')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function loadRuns(scraperName: string) {
+    try {
+      const token = await getAccessToken()
+      if (!token) return
+
+      setRuns(await api.getScraperRuns(token, scraperName, 20))
+    } catch (error) {
+      console.error('Error loading scraper runs:', error)
+      toast.error('Błąd podczas ładowania historii uruchomień')
+    }
+  }
+
+  const formatAgo = (date: string | null) =>
+    date ? formatDistanceToNow(new Date(date), { addSuffix: true, locale: pl }) : 'nigdy'
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+      </div>
+    )
+  }
+
+  const sources = health?.sources || []
+  const staleCount = sources.filter(s => s.stale).length
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-6 py-4 border-b">
+        <p className="text-sm text-gray-600">
+          {staleCount > 0 ? (
+            <span className="text-red-600 font-medium">
+              {staleCount} {staleCount === 1 ? 'źródło nie dostarcza' : 'źródła nie dostarczają'} wydarzeń od ponad {health?.staleAfterHours} godzin
+            </span>
+          ) : (
+            'Wszystkie źródła dostarczają wydarzenia'
+          )}
+        </p>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="text-sm border border-gray-300 rounded-md px-2 py-1"
+        >
+          {PERIOD_OPTIONS.map(option => (
+            <option key={option} value={option}>Ostatnie {option} dni</option>
+          ))}
+        </select>
+      </div>
+
+      {sources.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600">Brak zarejestrowanych źródeł</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Źródło
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Skuteczność
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ostatni sukces
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ostatnie prawdziwe wydarzenia
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Wydarzenia dziennie
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sources.map(source => (
+                <tr
+                  key={source.scraperName}
+                  onClick={() => setSelectedScraper(source.scraperName === selectedScraper ? null : source.scraperName)}
+                  className={`cursor-pointer hover:bg-gray-50 ${source.stale ? 'bg-red-50' : ''}`}
+                >
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{source.scraperName}</div>
+                    <div className="text-xs text-gray-500">
+                      {source.totalRuns} uruchomień • śr. {Math.round(source.avgDurationMs / 1000)} s
+                      {source.httpFailures > 0 && ` • ${source.httpFailures} błędów HTTP`}
+                    </div>
+                    {source.stale && (
+                      <span className="inline-flex mt-1 px-2 text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        {source.totalRuns === 0 ? 'Brak uruchomień' : 'Brak nowych danych'}
+                      </span>
+                    )}
+                    {!source.registered ? (
+                      <span className="inline-flex mt-1 px-2 text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-600">
+                        Usunięty
+                      </span>
+                    ) : !source.enabled && (
+                      <span className="inline-flex mt-1 px-2 text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-600">
+                        Wyłączony
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {source.successRate === null ? (
+                      <span className="text-gray-400">–</span>
+                    ) : (
+                      <span className={source.successRate < 0.8 ? 'text-red-600 font-medium' : 'text-gray-900'}>
+                        {Math.round(source.successRate * 100)}%
+                      </span>
+                    )}
+                    {source.lastRunStatus === 'FAILED' && source.lastError && (
+                      <div className="text-xs text-red-600 max-w-xs truncate" title={source.lastError}>
+                        {source.lastError}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {formatAgo(source.lastSuccessAt)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {formatAgo(source.lastRealEventsAt)}
+                  </td>
+                  <td className="px-6 py-4">
+                    <YieldChart source={source} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedScraper && (
+        <div className="border-t px-6 py-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-3">
+            Historia uruchomień: {selectedScraper}
+          </h3>
+          <ul className="divide-y divide-gray-100">
+            {runs.map(run => (
+              <li key={run.id} className="py-2 text-sm flex items-start justify-between gap-4">
+                <div>
+                  <span className={run.status === 'SUCCESS' ? 'text-green-600' : 'text-red-600'}>
+                    {run.status === 'SUCCESS' ? 'Sukces' : 'Błąd'}
+                  </span>
+                  <span className="text-gray-500"> • {formatAgo(run.started_at)} • {Math.round(run.duration_ms / 1000)} s</span>
+                  {run.error && <div className="text-xs text-red-600">{run.error}</div>}
+                </div>
+                <div className="text-xs text-gray-500 whitespace-nowrap">
+                  {run.real_events} prawdziwych • {run.synthesized_events} wygenerowanych • {run.new_events} nowych
+                  {run.http_failures > 0 && ` • ${run.http_failures} błędów HTTP`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Simple bar chart of real events per day
+function YieldChart({ source }: { source: ScraperSourceHealth }) {
+  const max = Math.max(1, ...source.yieldByDay.map(d => d.realEvents))
+
+  return (
+    <div className="flex items-end gap-0.5 h-8">
+      {source.yieldByDay.map(day => (
+        <div
+          key={day.date}
+          title={`${day.date}: ${day.realEvents} wydarzeń (${day.newEvents} nowych)`}
+          className={`w-1.5 ${day.realEvents > 0 ? 'bg-blue-500' : 'bg-gray-300'}`}
+          style={{ height: `${Math.max(2, (day.realEvents / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  )
+}
@@ -23,6 +23,7 @@ export interface Alert {
   created_at: string
   updated_at: string
   user_id: string
+  last_triggered_at?: string | null
 }
 
 export interface CreateAlertInput {
@@ -1,18 +1,22 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { searchEvents, getEvent, createEvent, updateEvent, deleteEvent, trackEventClick, getChildProfiles, createChildProfile, updateChildProfile, deleteChildProfile } from '@/lib/supabase-queries'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { searchEvents, getEvent, createEvent, updateEvent, deleteEvent, trackEventClick, getChildProfiles, createChildProfile, updateChildProfile, deleteChildProfile, getRecommendations } from '@/lib/supabase-queries'
 
-export function useEvents(params: Parameters<typeof searchEvents>[0]) {
-  return useQuery({
+// Infinite list: each page continues from the previous page's cursor
+export function useEvents(params: Omit<Parameters<typeof searchEvents>[0], 'cursor' | 'offset'>, enabled = true) {
+  return useInfiniteQuery({
     queryKey: ['events', params],
-    queryFn: async (): Promise<{
+    enabled,
+    initialPageParam: undefined as string | undefined,
+    queryFn: async ({ pageParam }): Promise<{
       items: any[]
       total: number
       hasMore: boolean
+      nextCursor: string | null
     }> => {
-      console.log('useEvents queryFn starting...')
+      console.log('useEvents queryFn starting...', { cursor: pageParam })
       
       // Add timeout protection for React Query
-      const queryPromise = searchEvents(params)
+      const queryPromise = searchEvents({ ...params, cursor: pageParam })
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error('React Query timeout after 8 seconds')), 8000)
       })
@@ -21,6 +25,7 @@ export function useEvents(params: Parameters<typeof searchEvents>[0]) {
       console.log('useEvents queryFn completed:', result)
       return result
     },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     retry: 1, // Reduce retries for faster debugging
     retryDelay: 1000, // Shorter delay
     staleTime: 30000,
@@ -29,6 +34,18 @@ export function useEvents(params: Parameters<typeof searchEvents>[0]) {
   })
 }
 
+// Events inside the visible map area; the previous markers stay on screen while panning
+export function useEventsInBounds(params: Parameters<typeof searchEvents>[0], enabled = true) {
+  return useQuery({
+    queryKey: ['events', 'map', params],
+    queryFn: () => searchEvents(params),
+    enabled: enabled && !!params.bounds,
+    placeholderData: keepPreviousData,
+    staleTime: 30000,
+    refetchOnWindowFocus: false,
+  })
+}
+
 export function useEvent(id: string) {
   return useQuery({
     queryKey: ['event', id],
@@ -90,6 +107,16 @@ export function useChildProfiles() {
   })
 }
 
+// "For my kids" feed; refreshed when child profiles change
+export function useRecommendations(params: Parameters<typeof getRecommendations>[0], enabled = true) {
+  return useQuery({
+    queryKey: ['recommendations', params],
+    queryFn: () => getRecommendations(params),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
 export function useCreateChildProfile() {
   const queryClient = useQueryClient()
   
@@ -97,6 +124,7 @@ export function useCreateChildProfile() {
     mutationFn: (childData: Parameters<typeof createChildProfile>[0]) => createChildProfile(childData),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['child-profiles'] })
+      queryClient.invalidateQueries({ queryKey: ['recommendations'] })
     },
   })
 }
@@ -109,6 +137,7 @@ export function useUpdateChildProfile() {
       updateChildProfile(id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['child-profiles'] })
+      queryClient.invalidateQueries({ queryKey: ['recommendations'] })
     },
   })
 }
@@ -120,6 +149,7 @@ export function useDeleteChildProfile() {
     mutationFn: (id: string) => deleteChildProfile(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['child-profiles'] })
+      queryClient.invalidateQueries({ queryKey: ['recommendations'] })
     },
   })
 }
\ No newline at end of file
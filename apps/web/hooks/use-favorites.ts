@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { toggleFavorite, getUserFavorites } from '@/lib/supabase-queries'
+import { toggleFavorite, getUserFavorites, getCalendarFeedUrl, resetCalendarFeedUrl } from '@/lib/supabase-queries'
 import { useAuth } from '@/contexts/auth-context-v2'
 import { toast } from '@/lib/toast'
 import { EventApiResponse } from '@/lib/types'
@@ -112,4 +112,33 @@ export function useToggleFavorite() {
 export function useFavoritesCount(): number {
   const { data: favorites = [] } = useFavorites()
   return favorites.length
-}
\ No newline at end of file
+}
+
+// Hook for the secret calendar subscription URL of the user's favourites
+export function useCalendarFeedUrl() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ['calendar-feed', user?.id],
+    queryFn: () => getCalendarFeedUrl(),
+    enabled: !!user,
+    staleTime: Infinity,
+  })
+}
+
+// Hook to replace the calendar URL, e.g. after it was shared by mistake
+export function useResetCalendarFeedUrl() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: () => resetCalendarFeedUrl(),
+    onSuccess: (url) => {
+      queryClient.setQueryData(['calendar-feed', user?.id], url)
+      toast.success('Utworzono nowy link do kalendarza')
+    },
+    onError: () => {
+      toast.error('Nie udało się utworzyć nowego linku')
+    },
+  })
+}
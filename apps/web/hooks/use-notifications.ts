@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/auth-context-v2'
+import { toast } from '@/lib/toast'
+import { supabase } from '@/lib/supabase-client'
+
+// Types for in-app notifications (written by the alerts worker)
+export interface Notification {
+  id: string
+  user_id: string
+  alert_id: string | null
+  type: string
+  title: string
+  body: string | null
+  link: string | null
+  event_ids: string[]
+  read_at: string | null
+  created_at: string
+}
+
+// Hook to get the latest user notifications
+export function useNotifications(limit = 50) {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ['notifications', user?.id, limit],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated')
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return data as Notification[]
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000, // Poll every minute for new alerts
+  })
+}
+
+// Hook to get the unread notifications count for the header bell
+export function useUnreadNotificationsCount() {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: ['notifications', user?.id, 'unread-count'],
+    queryFn: async () => {
+      if (!user) throw new Error('User not authenticated')
+
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('read_at', null)
+
+      if (error) throw error
+      return count || 0
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000, // Poll every minute for new alerts
+  })
+}
+
+// Hook to mark a single notification as read
+export function useMarkNotificationRead() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) throw new Error('User not authenticated')
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .is('read_at', null)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] })
+    },
+  })
+}
+
+// Hook to mark all notifications as read
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('User not authenticated')
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .is('read_at', null)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] })
+      toast.success('Wszystkie powiadomienia oznaczone jako przeczytane')
+    },
+    onError: () => {
+      toast.error('Nie udało się oznaczyć powiadomień')
+    },
+  })
+}
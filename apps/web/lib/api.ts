@@ -1,4 +1,4 @@
-import { EventsSearchResponse, EventApiResponse, UserProfile } from './types'
+import { EventsSearchResponse, EventApiResponse, UserProfile, ScraperRun, ScraperHealthResponse, ApiKey, ApiKeyUsageDay } from './types'
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000'
 
@@ -195,6 +195,62 @@ class ApiClient {
       },
     })
   }
+
+  // Partner API keys
+  async getApiKeys(token: string) {
+    return this.request<ApiKey[]>('/api-keys', {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+  }
+
+  async createApiKey(token: string, name: string) {
+    return this.request<ApiKey & { key: string }>('/api-keys', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ name }),
+    })
+  }
+
+  async revokeApiKey(token: string, id: string) {
+    return this.request(`/api-keys/${id}`, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+  }
+
+  async getApiKeyUsage(token: string, id: string, days = 30) {
+    return this.request<{ items: ApiKeyUsageDay[] }>(`/api-keys/${id}/usage?days=${days}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+  }
+
+  // Admin
+  async getScraperHealth(token: string, days = 14) {
+    return this.request<ScraperHealthResponse>(`/admin/scraper-health?days=${days}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+  }
+
+  async getScraperRuns(token: string, scraper?: string, limit = 50) {
+    const searchParams = new URLSearchParams({ limit: String(limit) })
+    if (scraper) searchParams.append('scraper', scraper)
+
+    return this.request<ScraperRun[]>(`/admin/scraper-runs?${searchParams}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    })
+  }
 }
 
 export const api = new ApiClient()
\ No newline at end of file
@@ -1,5 +1,22 @@
+import {
+  attachSearchHighlights,
+  childAgeAt,
+  CITY_COORDINATES,
+  decodeEventCursor,
+  distanceKm,
+  encodeEventCursor,
+  eventCursorFilter,
+  eventsEndingAfterFilter,
+  expandOccurrences,
+  fillPage,
+  getNextOccurrence,
+  getRecommendationAgeRange,
+  parseDateBoundary,
+  recommendCandidates,
+  SearchHighlight
+} from '@events-agregator/shared'
 import { supabase } from './supabase-client'
-import { EventDbRow, EventApiResponse } from './types'
+import { ChildProfile, EventDbRow, EventApiResponse, EventSource, MapBounds, RecommendedEvent } from './types'
 
 interface Profile {
   id: string
@@ -11,6 +28,8 @@ interface Profile {
   last_login_at?: string
 }
 
+const DEFAULT_RADIUS_KM = 15
+
 // Transform snake_case database fields to camelCase for components
 function transformEvent(event: EventDbRow | null): EventApiResponse | null {
   if (!event) return null
@@ -35,9 +54,55 @@ function transformEvent(event: EventDbRow | null): EventApiResponse | null {
     sourceId: event.source_id,
     sourceName: event.source_name,
     postalCode: event.postal_code,
+    canonicalEventId: event.canonical_event_id,
+    cancelledAt: event.cancelled_at,
+    recurrenceRule: event.recurrence_rule,
+    recurrenceExceptions: event.recurrence_exceptions,
+    searchRank: event.search_rank,
+    titleHighlight: event.title_highlight,
+    snippet: event.snippet,
+    distanceKm: event.distance_km,
+    nextOccurrence: event.recurrence_rule
+      ? getNextOccurrence(new Date(event.start_date), event.recurrence_rule, event.recurrence_exceptions)?.toISOString() ?? null
+      : null,
   }
 }
 
+// First date of a series within the range (open ends: from now on, no end)
+function firstOccurrenceInRange(row: EventDbRow, from: Date | null, to: Date | null): Date | null {
+  const [occurrence] = expandOccurrences(new Date(row.start_date), row.recurrence_rule!, {
+    from: from || new Date(),
+    to: to || new Date(8.64e15),
+    exceptions: row.recurrence_exceptions || [],
+    limit: 1
+  })
+  return occurrence || null
+}
+
+// Recurring events show their first date within the range; series with no date in it are left out
+function withOccurrenceInRange(event: EventApiResponse | null, from: Date | null, to: Date | null): EventApiResponse | null {
+  if (!event?.recurrenceRule) return event
+  const [occurrence] = expandOccurrences(new Date(event.startDate), event.recurrenceRule, {
+    from: from || new Date(),
+    to: to || new Date(8.64e15),
+    exceptions: event.recurrenceExceptions,
+    limit: 1
+  })
+  return occurrence ? { ...event, nextOccurrence: occurrence.toISOString() } : null
+}
+
+// Relevance and highlighted fragments (<mark>) for a page of search results; none on failure
+async function loadSearchHighlights(searchTerm: string, eventIds: string[]): Promise<SearchHighlight[]> {
+  const { data, error } = await supabase
+    .rpc('event_search_highlights', { p_query: searchTerm, p_event_ids: eventIds })
+
+  if (error) {
+    console.error('Search highlights error:', error)
+    return []
+  }
+  return data || []
+}
+
 // Events queries
 export async function searchEvents(params: {
   city?: string
@@ -46,8 +111,16 @@ export async function searchEvents(params: {
   ageMax?: number
   priceType?: string
   search?: string
+  lat?: number
+  lng?: number
+  radiusKm?: number  // Around lat/lng, or around the city centre when only city is given
+  sort?: 'date' | 'distance' | 'relevance'
+  bounds?: MapBounds  // Visible map area
+  startDate?: string  // YYYY-MM-DD or ISO; events overlapping the range match
+  endDate?: string
   limit?: number
   offset?: number
+  cursor?: string  // nextCursor of the previous page; takes precedence over offset
   includeExpiredEvents?: boolean  // Status-based filtering instead of date-based
 }) {
   const hostname = typeof window !== 'undefined' ? window.location.hostname : 'server'
@@ -57,91 +130,135 @@ export async function searchEvents(params: {
   try {
     console.log('Starting events query with full filtering...')
     
-    // Start with base query - select all fields for complete event data
-    let query = supabase
-      .from('events')
-      .select('*', { count: 'exact' })
-    
-    // Status-based filtering (proper approach)
-    if (params.includeExpiredEvents) {
-      query = query.in('status', ['ACTIVE', 'EXPIRED'])
-    } else {
-      query = query.eq('status', 'ACTIVE')
-    }
+    // Radius around the city centre covers suburbs the exact city filter misses
+    const cityName = params.city?.trim()
+    const cityCenter = cityName && params.radiusKm && params.lat === undefined ? CITY_COORDINATES[cityName] : undefined
+    const center = params.lat !== undefined && params.lng !== undefined ? { lat: params.lat, lng: params.lng } : cityCenter
+    const sortByDistance = params.sort === 'distance' && !!center
     
-    // Apply filters conditionally
-    if (params.city && params.city.trim()) {
-      console.log('Applying city filter:', params.city.trim())
-      query = query.eq('city', params.city.trim())
-    }
+    const searchTerm = params.search?.trim()
+    const rangeStart = params.startDate ? parseDateBoundary(params.startDate, 'start') : null
+    const rangeEnd = params.endDate ? parseDateBoundary(params.endDate, 'end') : null
     
-    if (params.category && params.category.trim()) {
-      console.log('Applying category filter:', params.category.trim().toUpperCase())
-      query = query.eq('category', params.category.trim().toUpperCase())
-    }
+    // Ordering: upcoming events first, id keeps equal dates stable (search results come ordered by relevance)
+    const orderByDate = params.sort === 'date' || (!searchTerm && !sortByDistance)
     
-    if (params.priceType && params.priceType.trim()) {
-      console.log('Applying price type filter:', params.priceType.trim().toUpperCase())
-      query = query.eq('price_type', params.priceType.trim().toUpperCase())
-    }
+    // A fresh query per batch - filters added to a query builder can not be removed
+    const buildQuery = () => {
+      // Start with base query - select all fields for complete event data
+      // The search function filters like the events table and adds the date each event is listed under
+      let query = supabase.rpc('search_events', {
+        p_query: searchTerm || null,
+        p_lat: center?.lat ?? null,
+        p_lng: center?.lng ?? null,
+        p_radius_km: center ? params.radiusKm ?? DEFAULT_RADIUS_KM : null,
+        p_order_by: orderByDate ? 'date' : sortByDistance ? 'distance' : 'relevance',
+        p_from: (rangeStart || new Date()).toISOString()
+      }, { count: 'exact' })
     
-    // Text search across multiple fields
-    if (params.search && params.search.trim()) {
-      const searchTerm = params.search.trim()
-      console.log('Applying text search:', searchTerm)
-      query = query.or(`title.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%,location_name.ilike.%${searchTerm}%`)
-    }
+      // Status-based filtering (proper approach)
+      if (params.includeExpiredEvents) {
+        query = query.in('status', ['ACTIVE', 'EXPIRED'])
+      } else {
+        query = query.eq('status', 'ACTIVE')
+      }
     
-    // Age range filtering (overlapping ranges)
-    if (params.ageMin !== undefined) {
-      console.log('Applying age min filter:', params.ageMin)
-      query = query.lte('age_min', params.ageMin)
-    }
-    if (params.ageMax !== undefined) {
-      console.log('Applying age max filter:', params.ageMax)
-      query = query.gte('age_max', params.ageMax)
-    }
+      // Apply filters conditionally
+      if (cityName && !cityCenter) {
+        console.log('Applying city filter:', cityName)
+        query = query.eq('city', cityName)
+      }
     
-    // Ordering: upcoming events first, then by creation date
-    console.log('Applying ordering: start_date ASC, created_at DESC')
-    query = query.order('start_date', { ascending: true })
-    query = query.order('created_at', { ascending: false })
+      if (params.bounds) {
+        console.log('Applying map bounds filter:', params.bounds)
+        query = query
+          .gte('lat', params.bounds.south)
+          .lte('lat', params.bounds.north)
+          .gte('lng', params.bounds.west)
+          .lte('lng', params.bounds.east)
+      }
     
-    // Pagination
-    const limit = params.limit || 25
-    const offset = params.offset || 0
-    console.log('Applying pagination:', { limit, offset, range: [offset, offset + limit - 1] })
-    query = query.range(offset, offset + limit - 1)
+      if (params.category && params.category.trim()) {
+        console.log('Applying category filter:', params.category.trim().toUpperCase())
+        query = query.eq('category', params.category.trim().toUpperCase())
+      }
     
-    console.log('Executing complete query with all filters...')
-    const { data, error, count } = await query
+      if (params.priceType && params.priceType.trim()) {
+        console.log('Applying price type filter:', params.priceType.trim().toUpperCase())
+        query = query.eq('price_type', params.priceType.trim().toUpperCase())
+      }
     
-    console.log('Raw query result:', { 
-      hasData: !!data, 
-      dataLength: data?.length, 
-      hasError: !!error, 
-      errorDetails: error,
-      totalCount: count,
-      hasMore: (offset + limit) < (count || 0)
-    })
+      // Age range filtering (overlapping ranges)
+      if (params.ageMin !== undefined) {
+        console.log('Applying age min filter:', params.ageMin)
+        query = query.lte('age_min', params.ageMin)
+      }
+      if (params.ageMax !== undefined) {
+        console.log('Applying age max filter:', params.ageMax)
+        query = query.gte('age_max', params.ageMax)
+      }
     
-    if (error) {
-      console.error('Supabase query error:', error)
-      return {
-        items: [],
-        total: 0,
-        hasMore: false
+      // Date range: multi-day events still running and series continuing into the range match too
+      if (rangeStart) {
+        console.log('Applying start date filter:', rangeStart.toISOString())
+        query = query.or(eventsEndingAfterFilter(rangeStart))
+      }
+      if (rangeEnd) {
+        console.log('Applying end date filter:', rangeEnd.toISOString())
+        query = query.lte('start_date', rangeEnd.toISOString())
       }
+    
+      return query
     }
     
-    console.log('Query succeeded, processing data...')
-    const transformedItems = (data || []).map(transformEvent)
+    const limit = params.limit || 25
+    const cursor = params.cursor
+      ? decodeEventCursor(params.cursor)
+      : params.offset ? { offset: params.offset } : null
+    
+    // Series with no date in the range are left out, so batches are fetched until the page is full
+    let count: number | null = null
+    console.log('Executing complete query with all filters...', { limit, cursor })
+    const { rows: page, hasMore, nextCursor } = await fillPage<EventDbRow & { next_occurrence: string }>({
+      cursor,
+      limit,
+      orderByDate,
+      isListed: row => !row.recurrence_rule || !(rangeStart || rangeEnd) || !!firstOccurrenceInRange(row, rangeStart, rangeEnd),
+      fetchBatch: async (batchCursor, size) => {
+        let query = buildQuery()
+        if (orderByDate) {
+          // Keyset pagination: rows added meanwhile don't shift the following pages
+          if (batchCursor && 'nextOccurrence' in batchCursor) {
+            query = query.or(eventCursorFilter(batchCursor))
+          }
+          query = query.order('next_occurrence', { ascending: true }).order('id', { ascending: true })
+        }
+        const offset = batchCursor && 'offset' in batchCursor ? batchCursor.offset : 0
+        const { data, error, count: batchCount } = await query.range(offset, offset + size - 1)
+        if (error) throw error
+        count ??= batchCount
+        return data || []
+      }
+    })
+    console.log('Query succeeded:', { pageLength: page.length, hasMore, totalCount: count })
+    
+    const rows: EventDbRow[] = searchTerm
+      ? await attachSearchHighlights(page, eventIds => loadSearchHighlights(searchTerm, eventIds), !sortByDistance)
+      : page
+    const transformedItems = rows
+      .map(row => center && row.lat !== null && row.lat !== undefined && row.lng !== null && row.lng !== undefined
+        ? { ...row, distance_km: Math.round(distanceKm(center, { lat: Number(row.lat), lng: Number(row.lng) }) * 10) / 10 }
+        : row)
+      .map(transformEvent)
+      .map(event => rangeStart || rangeEnd ? withOccurrenceInRange(event, rangeStart, rangeEnd) : event)
+      .filter((event): event is EventApiResponse => event !== null)
     console.log('Transformed items count:', transformedItems.length)
     
     return {
       items: transformedItems,
-      total: count || 0,
-      hasMore: (offset + limit) < (count || 0)
+      total: count || 0, // After a date cursor: the events from this page on
+      hasMore,
+      nextCursor
     }
     
   } catch (err: any) {
@@ -149,7 +266,8 @@ export async function searchEvents(params: {
     return {
       items: [],
       total: 0,
-      hasMore: false
+      hasMore: false,
+      nextCursor: null
     }
   }
 }
@@ -172,7 +290,14 @@ export async function getEvent(id: string) {
     .update({ view_count: (data.view_count || 0) + 1 })
     .eq('id', id)
 
-  return transformEvent(data)
+  // All sources that published this event (merged duplicates included)
+  const { data: sources } = await supabase
+    .from('event_sources')
+    .select('contributing_event_id, source_name, source_url')
+    .eq('event_id', id)
+
+  const event = transformEvent(data)
+  return event ? { ...event, sources: (sources || []) as EventSource[] } : null
 }
 
 export async function createEvent(event: Partial<EventDbRow>) {
@@ -357,6 +482,33 @@ export async function getUserFavorites(userId?: string) {
   return data?.map((item: any) => transformEvent(item.events)).filter(Boolean) || []
 }
 
+// Calendar feed
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000'
+
+// Secret ICS subscription URL of the user's favourites
+export async function getCalendarFeedUrl() {
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('calendar_token')
+    .eq('id', user.id)
+    .single()
+
+  if (error) throw error
+  return `${API_URL}/api/calendar/feed/${data.calendar_token}.ics`
+}
+
+// Replaces the feed URL; calendars subscribed to the old one stop updating
+export async function resetCalendarFeedUrl() {
+  const { data: token, error } = await supabase.rpc('reset_calendar_token')
+
+  if (error) throw error
+  return `${API_URL}/api/calendar/feed/${token}.ics`
+}
+
 // Child Profiles
 export async function getChildProfiles(userId?: string) {
   const id = userId || (await supabase.auth.getUser()).data.user?.id
@@ -376,7 +528,9 @@ export async function getChildProfiles(userId?: string) {
     id: profile.id,
     userId: profile.user_id,
     name: profile.name,
-    age: profile.age,
+    birthYear: profile.birth_year,
+    birthMonth: profile.birth_month,
+    age: childAgeAt({ birthYear: profile.birth_year, birthMonth: profile.birth_month }),
     interests: profile.interests || [],
     createdAt: profile.created_at,
     updatedAt: profile.updated_at
@@ -385,7 +539,8 @@ export async function getChildProfiles(userId?: string) {
 
 export async function createChildProfile(childData: {
   name: string
-  age: number
+  birthYear: number
+  birthMonth: number
   interests?: string[]
 }) {
   console.log('createChildProfile called with:', childData)
@@ -440,7 +595,8 @@ export async function createChildProfile(childData: {
 
   const insertData = {
     name: childData.name,
-    age: childData.age,
+    birth_year: childData.birthYear,
+    birth_month: childData.birthMonth,
     interests: childData.interests || [],
     user_id: user.id
   }
@@ -480,7 +636,9 @@ export async function createChildProfile(childData: {
     id: data.id,
     userId: data.user_id,
     name: data.name,
-    age: data.age,
+    birthYear: data.birth_year,
+    birthMonth: data.birth_month,
+    age: childAgeAt({ birthYear: data.birth_year, birthMonth: data.birth_month }),
     interests: data.interests || [],
     createdAt: data.created_at,
     updatedAt: data.updated_at
@@ -489,7 +647,8 @@ export async function createChildProfile(childData: {
 
 export async function updateChildProfile(id: string, updates: {
   name?: string
-  age?: number
+  birthYear?: number
+  birthMonth?: number
   interests?: string[]
 }) {
   const { data: { user } } = await supabase.auth.getUser()
@@ -498,7 +657,12 @@ export async function updateChildProfile(id: string, updates: {
 
   const { data, error } = await supabase
     .from('child_profiles')
-    .update(updates)
+    .update({
+      name: updates.name,
+      birth_year: updates.birthYear,
+      birth_month: updates.birthMonth,
+      interests: updates.interests
+    })
     .eq('id', id)
     .eq('user_id', user.id)
     .select()
@@ -511,7 +675,9 @@ export async function updateChildProfile(id: string, updates: {
     id: data.id,
     userId: data.user_id,
     name: data.name,
-    age: data.age,
+    birthYear: data.birth_year,
+    birthMonth: data.birth_month,
+    age: childAgeAt({ birthYear: data.birth_year, birthMonth: data.birth_month }),
     interests: data.interests || [],
     createdAt: data.created_at,
     updatedAt: data.updated_at
@@ -530,4 +696,74 @@ export async function deleteChildProfile(id: string) {
     .eq('user_id', user.id)
 
   if (error) throw error
-}
\ No newline at end of file
+}
+// Recommendations
+const RECOMMENDATION_DAYS = 30
+const RECOMMENDATION_CANDIDATES = 300
+
+// Upcoming events ranked for the user's children (age, interests, distance, favourites, popularity)
+export async function getRecommendations(params: {
+  lat?: number
+  lng?: number
+  city?: string
+  limit?: number
+} = {}): Promise<{ children: ChildProfile[]; items: RecommendedEvent[] }> {
+  const { data: { user } } = await supabase.auth.getUser()
+  
+  if (!user) throw new Error('Not authenticated')
+
+  const children: ChildProfile[] = await getChildProfiles(user.id)
+  if (children.length === 0) {
+    return { children, items: [] }
+  }
+
+  const { data: favorites, error: favoritesError } = await supabase
+    .from('user_favorite_events')
+    .select('event_id, events(category, tags)')
+    .eq('user_id', user.id)
+
+  if (favoritesError) throw favoritesError
+
+  const now = new Date()
+  const horizon = new Date(now.getTime() + RECOMMENDATION_DAYS * 24 * 60 * 60 * 1000)
+  const { youngestAge, oldestAge } = getRecommendationAgeRange(children, now, horizon)
+
+  let query = supabase
+    .from('events')
+    .select('*')
+    .eq('status', 'ACTIVE')
+    .lte('age_min', oldestAge)
+    .gte('age_max', youngestAge)
+    .lte('start_date', horizon.toISOString())
+    .or(eventsEndingAfterFilter(now))
+    .order('start_date', { ascending: true })
+    .limit(RECOMMENDATION_CANDIDATES)
+
+  if (params.city) {
+    query = query.eq('city', params.city)
+  }
+
+  const { data: candidates, error } = await query
+  if (error) throw error
+
+  const location = params.lat !== undefined && params.lng !== undefined ? { lat: params.lat, lng: params.lng } : undefined
+  const ranked = recommendCandidates((candidates || []) as EventDbRow[], {
+    children,
+    favorites: favorites || [],
+    location,
+    now,
+    horizon,
+    limit: params.limit
+  })
+
+  const items = ranked
+    .map(recommendation => {
+      const event = transformEvent(location
+        ? { ...recommendation.event, distance_km: Math.round(distanceKm(location, { lat: Number(recommendation.event.lat), lng: Number(recommendation.event.lng) }) * 10) / 10 }
+        : recommendation.event)
+      return event && { ...event, score: recommendation.score, reasons: recommendation.reasons, childIds: recommendation.childIds }
+    })
+    .filter((event): event is RecommendedEvent => event !== null)
+
+  return { children, items }
+}
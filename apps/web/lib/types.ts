@@ -32,6 +32,24 @@ export interface EventDbRow {
   source_id?: string
   source_name?: string
   postal_code?: string
+  canonical_event_id?: string | null
+  cancelled_at?: string | null
+  recurrence_rule?: string | null
+  recurrence_exceptions?: string[]
+  recurrence_until?: string | null
+  // Set on full-text search results
+  search_rank?: number
+  title_highlight?: string
+  snippet?: string
+  // Set on radius search results, in kilometres from the search centre
+  distance_km?: number
+}
+
+// One source that published an event (several when duplicates were merged)
+export interface EventSource {
+  contributing_event_id: string
+  source_name: string | null
+  source_url: string
 }
 
 // Transformed event type (camelCase) - used by components
@@ -67,6 +85,25 @@ export interface EventApiResponse {
   sourceName?: string
   postalCode?: string
   currency?: string
+  canonicalEventId?: string | null
+  cancelledAt?: string | null
+  // Recurring events: startDate is the first occurrence, nextOccurrence the upcoming one
+  recurrenceRule?: string | null
+  recurrenceExceptions?: string[]
+  nextOccurrence?: string | null
+  // Full-text search: relevance and HTML fragments with <mark> around matches
+  searchRank?: number
+  titleHighlight?: string
+  snippet?: string
+  distanceKm?: number
+  sources?: EventSource[]
+}
+
+// "For my kids" feed entry; reasons explain the pick in Polish
+export interface RecommendedEvent extends EventApiResponse {
+  score: number
+  reasons: string[]
+  childIds: string[]
 }
 
 export interface EventsSearchResponse {
@@ -75,6 +112,75 @@ export interface EventsSearchResponse {
   hasMore: boolean
 }
 
+export interface ScraperRun {
+  id: string
+  scraper_name: string
+  status: 'SUCCESS' | 'FAILED'
+  started_at: string
+  finished_at: string
+  duration_ms: number
+  events_count: number
+  new_events: number
+  updated_events: number
+  unchanged_events: number
+  real_events: number
+  synthesized_events: number
+  error: string | null
+  http_failures: number
+  http_failure_details: Array<{ url?: string; status?: number; message: string }>
+}
+
+export interface ScraperSourceHealth {
+  scraperName: string
+  registered: boolean // false once the scraper is removed from the worker
+  enabled: boolean
+  totalRuns: number
+  successRate: number | null // null without runs in the period
+  lastRunAt: string | null
+  lastRunStatus: 'SUCCESS' | 'FAILED' | null
+  lastError: string | null
+  lastSuccessAt: string | null
+  lastRealEventsAt: string | null
+  avgDurationMs: number
+  httpFailures: number
+  stale: boolean
+  yieldByDay: Array<{ date: string; realEvents: number; newEvents: number; runs: number }>
+}
+
+export interface ScraperHealthResponse {
+  since: string
+  staleAfterHours: number
+  sources: ScraperSourceHealth[]
+}
+
+// Partner API key; the full key is only returned when it is created
+export interface ApiKey {
+  id: string
+  name: string
+  key_prefix: string
+  requests_per_minute: number
+  requests_per_day: number
+  requests_today: number
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+  key?: string
+}
+
+export interface ApiKeyUsageDay {
+  date: string
+  requests: number
+  rejected: number
+  endpoints: Record<string, number>
+}
+
+export interface MapBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
 export interface UserProfile {
   id: string
   email: string
@@ -90,7 +196,9 @@ export interface ChildProfile {
   id: string
   userId: string
   name: string
-  age: number
+  birthYear: number
+  birthMonth: number // 1-12
+  age: number // Current age, derived from the birth month
   interests: string[]
   createdAt: string
   updatedAt: string
@@ -0,0 +1,54 @@
+import type { MapBounds } from '@/lib/types'
+
+export interface ClusterablePoint {
+  lat: number
+  lng: number
+}
+
+export interface MarkerCluster<T extends ClusterablePoint> {
+  key: string
+  lat: number
+  lng: number
+  items: T[]
+  bounds: MapBounds
+}
+
+/**
+ * Groups points that fall into the same square of cellSizePx × cellSizePx screen pixels
+ * at the current zoom. Clusters split up as the user zooms in.
+ */
+export function clusterMarkers<T extends ClusterablePoint>(
+  points: T[],
+  project: (lat: number, lng: number) => { x: number; y: number },
+  cellSizePx = 60
+): MarkerCluster<T>[] {
+  const cells = new Map<string, T[]>()
+
+  for (const point of points) {
+    const { x, y } = project(point.lat, point.lng)
+    const key = `${Math.floor(x / cellSizePx)}:${Math.floor(y / cellSizePx)}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(point)
+    } else {
+      cells.set(key, [point])
+    }
+  }
+
+  return Array.from(cells, ([key, items]) => {
+    const lats = items.map(item => item.lat)
+    const lngs = items.map(item => item.lng)
+    return {
+      key,
+      lat: lats.reduce((sum, lat) => sum + lat, 0) / items.length,
+      lng: lngs.reduce((sum, lng) => sum + lng, 0) / items.length,
+      items,
+      bounds: {
+        north: Math.max(...lats),
+        south: Math.min(...lats),
+        east: Math.max(...lngs),
+        west: Math.min(...lngs)
+      }
+    }
+  })
+}
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+import {
+  loadScrapers,
+  recordFixture,
+  serializeEvents,
+  writeFixture,
+  writeSnapshot
+} from '../testing/fixture-harness'
+
+/**
+ * Re-records HTTP fixtures and snapshots from the live sites.
+ * Usage: npm run fixtures:refresh [-- <scraper-name> ...]
+ */
+async function main() {
+  const requested = process.argv.slice(2)
+  const scrapers = await loadScrapers()
+  const selected = requested.length > 0
+    ? scrapers.filter(scraper => requested.includes(scraper.name))
+    : scrapers
+
+  const unknown = requested.filter(name => !scrapers.some(scraper => scraper.name === name))
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown scrapers: ${unknown.join(', ')}`)
+    console.log(`Available: ${scrapers.map(scraper => scraper.name).join(', ')}`)
+    process.exit(1)
+  }
+
+  for (const scraper of selected) {
+    console.log(`🔄 Recording ${scraper.name}...`)
+    try {
+      const { fixture, events } = await recordFixture(scraper)
+      const responses = Object.values(fixture.responses)
+
+      // An unreachable site would replace the stored fixture with nothing but network errors
+      if (responses.every(response => response.status === 0)) {
+        console.error(`❌ ${scraper.name}: no response received, keeping the stored fixture`)
+        continue
+      }
+
+      writeFixture(fixture)
+      writeSnapshot(scraper.name, serializeEvents(events))
+
+      const failed = responses.filter(response => response.status === 0 || response.status >= 400).length
+      const synthesized = events.filter(event => event.provenance === 'SYNTHESIZED').length
+      console.log(`✅ ${scraper.name}: ${responses.length} responses (${failed} failed), ${events.length} events (${synthesized} synthesized)`)
+    } catch (error) {
+      console.error(`❌ ${scraper.name}: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  process.exit(0)
+}
+
+main()
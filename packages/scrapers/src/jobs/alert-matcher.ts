@@ -0,0 +1,345 @@
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '../utils/logger'
+import { PolishEventParser } from '../utils/polish-parser'
+import { notificationService } from '../notifications/notification-service'
+import { NotificationMessage } from '../notifications/channel'
+import { pluralize } from '@events-agregator/shared/src/plural'
+import dotenv from 'dotenv'
+import path from 'path'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Unsubscribe links point at the API, which deactivates the alert by its token
+const API_URL = process.env.API_URL || 'http://localhost:4000'
+
+export type AlertFrequency = 'IMMEDIATE' | 'DAILY' | 'WEEKLY'
+export type AlertChannel = 'PUSH' | 'EMAIL' | 'IN_APP'
+
+// Same shape as the filters saved by apps/api/src/routes/alerts.ts
+export interface AlertFilters {
+  cities?: string[]
+  categories?: string[]
+  ageMin?: number
+  ageMax?: number
+  keywords?: string[]
+  priceType?: 'free' | 'paid' | 'any'
+}
+
+export interface AlertRow {
+  id: string
+  user_id: string
+  name: string
+  filters: AlertFilters
+  frequency: AlertFrequency
+  channels: AlertChannel[]
+  is_active: boolean
+  last_triggered_at: string | null
+  unsubscribe_token: string
+}
+
+export interface MatchableEvent {
+  id: string
+  title: string
+  description: string
+  city: string
+  category: string
+  age_min: number
+  age_max: number
+  price_type: string
+  tags: string[] | null
+  start_date: string
+  status: string
+}
+
+const EVENT_COLUMNS = 'id, title, description, city, category, age_min, age_max, price_type, tags, start_date, status'
+
+interface PendingMatchRow {
+  id: string
+  alert_id: string
+  event: MatchableEvent | null
+}
+
+// Lowercase and strip Polish diacritics so "Białystok" matches "bialystok"
+const normalize = (text: string): string => PolishEventParser.foldDiacritics(text)
+
+export function matchesAlertFilters(filters: AlertFilters, event: MatchableEvent): boolean {
+  if (filters.cities && filters.cities.length > 0) {
+    const city = normalize(event.city)
+    if (!filters.cities.some(c => normalize(c) === city)) {
+      return false
+    }
+  }
+
+  if (filters.categories && filters.categories.length > 0) {
+    if (!filters.categories.some(c => c.toUpperCase() === event.category)) {
+      return false
+    }
+  }
+
+  // Age ranges only need to overlap
+  if (filters.ageMin !== undefined && event.age_max < filters.ageMin) {
+    return false
+  }
+  if (filters.ageMax !== undefined && event.age_min > filters.ageMax) {
+    return false
+  }
+
+  if (filters.priceType === 'free' && event.price_type !== 'FREE') {
+    return false
+  }
+  if (filters.priceType === 'paid' && event.price_type !== 'PAID') {
+    return false
+  }
+
+  if (filters.keywords && filters.keywords.length > 0) {
+    const haystack = normalize([event.title, event.description, ...(event.tags || [])].join(' '))
+    if (!filters.keywords.some(keyword => haystack.includes(normalize(keyword)))) {
+      return false
+    }
+  }
+
+  return true
+}
+
+// "1 nowe wydarzenie pasuje", "3 nowe wydarzenia pasują", "5 nowych wydarzeń pasuje"
+const formatMatchCount = (count: number): string =>
+  `${count} ${pluralize(count, 'nowe wydarzenie pasuje', 'nowe wydarzenia pasują', 'nowych wydarzeń pasuje')}`
+
+export function buildAlertMessage(alert: AlertRow, events: MatchableEvent[]): NotificationMessage {
+  const sorted = [...events].sort((a, b) =>
+    new Date(a.start_date).getTime() - new Date(b.start_date).getTime()
+  )
+
+  const body = sorted
+    .map(event => {
+      const date = new Date(event.start_date).toLocaleDateString('pl-PL', {
+        day: 'numeric',
+        month: 'long',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+      return `• ${event.title} – ${event.city}, ${date}`
+    })
+    .join('\n')
+
+  return {
+    type: 'ALERT_MATCH',
+    title: `${formatMatchCount(sorted.length)} do alertu „${alert.name}”`,
+    body,
+    path: `/events/${sorted[0].id}`,
+    eventIds: sorted.map(event => event.id),
+    alertId: alert.id,
+    unsubscribeUrl: `${API_URL}/api/alerts/unsubscribe/${alert.unsubscribe_token}`
+  }
+}
+
+export class AlertMatcher {
+  /**
+   * Matches freshly inserted events against every active alert.
+   * Matches are recorded for all frequencies; IMMEDIATE alerts are queued for delivery right away,
+   * DAILY and WEEKLY ones wait for their digest job.
+   */
+  async matchNewEvents(eventIds: string[]): Promise<{ matchedCount: number; queuedCount: number }> {
+    if (eventIds.length === 0) {
+      return { matchedCount: 0, queuedCount: 0 }
+    }
+
+    const { data: events, error: eventsError } = await supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .in('id', eventIds)
+      .eq('status', 'ACTIVE')
+
+    if (eventsError) {
+      logger.error('Error loading events for alert matching:', eventsError)
+      return { matchedCount: 0, queuedCount: 0 }
+    }
+
+    const { data: alerts, error: alertsError } = await supabase
+      .from('alerts')
+      .select('*')
+      .eq('is_active', true)
+
+    if (alertsError) {
+      logger.error('Error loading alerts for matching:', alertsError)
+      return { matchedCount: 0, queuedCount: 0 }
+    }
+
+    const matches: { alert_id: string; event_id: string }[] = []
+    for (const alert of (alerts || []) as AlertRow[]) {
+      for (const event of (events || []) as MatchableEvent[]) {
+        if (matchesAlertFilters(alert.filters || {}, event)) {
+          matches.push({ alert_id: alert.id, event_id: event.id })
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      return { matchedCount: 0, queuedCount: 0 }
+    }
+
+    // Pairs that were already recorded are ignored, so only new matches come back
+    const { data: inserted, error: insertError } = await supabase
+      .from('alert_matches')
+      .upsert(matches, { onConflict: 'alert_id,event_id', ignoreDuplicates: true })
+      .select('id, alert_id, event_id')
+
+    if (insertError) {
+      logger.error('Error recording alert matches:', insertError)
+      return { matchedCount: 0, queuedCount: 0 }
+    }
+
+    const newMatches = inserted || []
+    logger.info(`Recorded ${newMatches.length} new alert matches for ${eventIds.length} events`)
+
+    let queuedCount = 0
+    const immediateAlerts = ((alerts || []) as AlertRow[]).filter(a => a.frequency === 'IMMEDIATE')
+
+    for (const alert of immediateAlerts) {
+      const alertMatches = newMatches.filter(m => m.alert_id === alert.id)
+      if (alertMatches.length === 0) continue
+
+      const alertEvents = ((events || []) as MatchableEvent[]).filter(e =>
+        alertMatches.some(m => m.event_id === e.id)
+      )
+
+      if (await this.deliver(alert, alertEvents, alertMatches.map(m => m.id))) {
+        queuedCount += alertEvents.length
+      }
+    }
+
+    return { matchedCount: newMatches.length, queuedCount }
+  }
+
+  /**
+   * Queues all pending matches of DAILY or WEEKLY alerts as one digest per alert.
+   * Events that already started or are no longer active are left out of the digest
+   * and their matches marked as skipped.
+   */
+  async runDigest(frequency: Exclude<AlertFrequency, 'IMMEDIATE'>): Promise<{ alertsCount: number; queuedCount: number }> {
+    logger.info(`Starting ${frequency} alert digest...`)
+
+    const { data: alerts, error: alertsError } = await supabase
+      .from('alerts')
+      .select('*')
+      .eq('is_active', true)
+      .eq('frequency', frequency)
+
+    if (alertsError) {
+      logger.error(`Error loading ${frequency} alerts:`, alertsError)
+      return { alertsCount: 0, queuedCount: 0 }
+    }
+
+    if (!alerts || alerts.length === 0) {
+      return { alertsCount: 0, queuedCount: 0 }
+    }
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('alert_matches')
+      .select(`id, alert_id, event:events(${EVENT_COLUMNS})`)
+      .in('alert_id', alerts.map(a => a.id))
+      .is('delivered_at', null)
+      .is('skipped_at', null)
+      .order('matched_at', { ascending: true })
+      .returns<PendingMatchRow[]>()
+
+    if (pendingError) {
+      logger.error('Error loading pending alert matches:', pendingError)
+      return { alertsCount: 0, queuedCount: 0 }
+    }
+
+    const now = new Date()
+    const isDeliverable = (match: PendingMatchRow) =>
+      !!match.event && match.event.status === 'ACTIVE' && new Date(match.event.start_date) >= now
+
+    await this.markSkipped((pending || []).filter(match => !isDeliverable(match)).map(match => match.id))
+
+    let alertsCount = 0
+    let queuedCount = 0
+
+    for (const alert of alerts as AlertRow[]) {
+      const alertMatches = (pending || []).filter(match => match.alert_id === alert.id && isDeliverable(match))
+      if (alertMatches.length === 0) continue
+
+      const alertEvents = alertMatches.map(match => match.event!)
+
+      if (await this.deliver(alert, alertEvents, alertMatches.map(match => match.id))) {
+        alertsCount++
+        queuedCount += alertEvents.length
+      }
+    }
+
+    logger.info(`${frequency} alert digest completed: ${queuedCount} events for ${alertsCount} alerts`)
+
+    return { alertsCount, queuedCount }
+  }
+
+  private async markSkipped(matchIds: string[]) {
+    if (matchIds.length === 0) return
+
+    const { error } = await supabase
+      .from('alert_matches')
+      .update({ skipped_at: new Date().toISOString() })
+      .in('id', matchIds)
+
+    if (error) {
+      logger.error('Error marking stale alert matches as skipped:', error)
+    } else {
+      logger.info(`Skipped ${matchIds.length} alert matches for started or withdrawn events`)
+    }
+  }
+
+  /**
+   * Queues the alert message on the alert's channels. The matches are marked as delivered by
+   * markDelivered() once a channel got through, and stay pending until then.
+   */
+  private async deliver(alert: AlertRow, events: MatchableEvent[], matchIds: string[]): Promise<boolean> {
+    logger.info(`Queueing alert "${alert.name}" with ${events.length} events`, {
+      alertId: alert.id,
+      userId: alert.user_id,
+      channels: alert.channels
+    })
+
+    try {
+      await notificationService.notify(alert.user_id, alert.channels, buildAlertMessage(alert, events), matchIds)
+      return true
+    } catch (error) {
+      logger.error(`Alert ${alert.id} could not be queued for delivery:`, error)
+      return false
+    }
+  }
+
+  // Called by the notification worker for every channel that delivered; only the first one counts
+  async markDelivered(alertId: string, matchIds: string[]) {
+    const deliveredAt = new Date().toISOString()
+
+    const { error: matchesError } = await supabase
+      .from('alert_matches')
+      .update({ delivered_at: deliveredAt })
+      .in('id', matchIds)
+      .is('delivered_at', null)
+
+    if (matchesError) {
+      logger.error(`Error marking matches as delivered for alert ${alertId}:`, matchesError)
+      return
+    }
+
+    const { error: alertError } = await supabase
+      .from('alerts')
+      .update({ last_triggered_at: deliveredAt })
+      .eq('id', alertId)
+
+    if (alertError) {
+      logger.error(`Error updating last_triggered_at for alert ${alertId}:`, alertError)
+    }
+  }
+}
+
+export const alertMatcher = new AlertMatcher()
@@ -0,0 +1,88 @@
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '../utils/logger'
+import { favoriteNotifier } from './favorite-notifier'
+import type { NotificationMessage } from '../notifications/channel'
+import dotenv from 'dotenv'
+import path from 'path'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Consecutive runs an event may be missing from its source before it is cancelled
+const MISSED_RUNS_BEFORE_CANCEL = 3
+
+interface CancelledEvent {
+  id: string
+  title: string
+  start_date: string
+  location_name: string
+}
+
+export function buildCancellationMessage(event: CancelledEvent): NotificationMessage {
+  const date = new Date(event.start_date).toLocaleDateString('pl-PL', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  return {
+    type: 'EVENT_CANCELLED',
+    title: `Wydarzenie odwołane: ${event.title}`,
+    body: `Wydarzenie „${event.title}” (${event.location_name}, ${date}) zniknęło ze strony organizatora i zostało oznaczone jako odwołane.`,
+    path: `/events/${event.id}`,
+    eventIds: [event.id]
+  }
+}
+
+export class CancellationDetector {
+  /**
+   * Records the events a source listed in a run. Future events missing for
+   * MISSED_RUNS_BEFORE_CANCEL consecutive runs are cancelled and their fans notified.
+   */
+  async recordListing(sourceName: string, seenHashes: string[]): Promise<{ cancelledIds: string[] }> {
+    const { data, error } = await supabase.rpc('record_source_listing', {
+      p_source_name: sourceName,
+      p_seen_hashes: seenHashes,
+      p_missed_runs_threshold: MISSED_RUNS_BEFORE_CANCEL
+    })
+
+    if (error) {
+      logger.error(`Error recording listing for ${sourceName}:`, error)
+      return { cancelledIds: [] }
+    }
+
+    const cancelledIds = ((data || []) as { cancelled_event_id: string }[]).map(row => row.cancelled_event_id)
+
+    if (cancelledIds.length > 0) {
+      logger.info(`Cancelled ${cancelledIds.length} events missing from ${sourceName}`)
+      await this.notifyFavorites(cancelledIds)
+    }
+
+    return { cancelledIds }
+  }
+
+  private async notifyFavorites(eventIds: string[]) {
+    const { data: events, error: eventsError } = await supabase
+      .from('events')
+      .select('id, title, start_date, location_name')
+      .in('id', eventIds)
+
+    if (eventsError) {
+      logger.error('Error loading cancelled events:', eventsError)
+      return
+    }
+
+    await favoriteNotifier.notifyFavorites(
+      ((events || []) as CancelledEvent[]).map(buildCancellationMessage)
+    )
+  }
+}
+
+export const cancellationDetector = new CancellationDetector()
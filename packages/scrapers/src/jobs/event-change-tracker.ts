@@ -0,0 +1,118 @@
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '../utils/logger'
+import { favoriteNotifier } from './favorite-notifier'
+import type { NotificationMessage } from '../notifications/channel'
+import type { EventFieldChange } from '../scrapers/event-row-mapper'
+import dotenv from 'dotenv'
+import path from 'path'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export interface EventUpdate {
+  eventId: string
+  title: string
+  changes: EventFieldChange[]
+}
+
+const DATE_FIELDS = ['start_date', 'end_date', 'recurrence_rule', 'recurrence_exceptions']
+const PRICE_FIELDS = ['price_type', 'price']
+
+function formatDate(value: unknown): string {
+  if (!value) return 'brak'
+  return new Date(String(value)).toLocaleDateString('pl-PL', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+function formatPrice(priceType: unknown, price: unknown): string {
+  if (priceType === 'FREE') return 'bezpłatne'
+  if (priceType === 'DONATION') return 'darowizna'
+  return price !== null && price !== undefined ? `${Number(price)} zł` : 'płatne'
+}
+
+/**
+ * Builds the "date changed" / "price changed" messages for users who favourited the event.
+ * Other field changes are only logged.
+ */
+export function buildChangeMessages(update: EventUpdate): NotificationMessage[] {
+  const messages: NotificationMessage[] = []
+  const byField = new Map(update.changes.map(change => [change.field as string, change]))
+  const path = `/events/${update.eventId}`
+
+  const startDate = byField.get('start_date')
+  if (DATE_FIELDS.some(field => byField.has(field))) {
+    messages.push({
+      type: 'EVENT_DATE_CHANGED',
+      title: `Zmiana terminu: ${update.title}`,
+      body: startDate
+        ? `Nowy termin: ${formatDate(startDate.newValue)} (wcześniej ${formatDate(startDate.oldValue)}).`
+        : byField.has('end_date')
+          ? 'Organizator zmienił godzinę zakończenia wydarzenia.'
+          : 'Organizator zmienił harmonogram powtórzeń lub odwołał część terminów.',
+      path,
+      eventIds: [update.eventId]
+    })
+  }
+
+  if (PRICE_FIELDS.some(field => byField.has(field))) {
+    const priceType = byField.get('price_type')
+    const price = byField.get('price')
+    const oldPrice = formatPrice(priceType ? priceType.oldValue : 'PAID', price?.oldValue)
+    const newPrice = formatPrice(priceType ? priceType.newValue : 'PAID', price?.newValue)
+
+    messages.push({
+      type: 'EVENT_PRICE_CHANGED',
+      title: `Zmiana ceny: ${update.title}`,
+      body: `Nowa cena: ${newPrice} (wcześniej ${oldPrice}).`,
+      path,
+      eventIds: [update.eventId]
+    })
+  }
+
+  return messages
+}
+
+export class EventChangeTracker {
+  /**
+   * Stores field-level diffs of rescraped events and notifies users who favourited them.
+   */
+  async recordChanges(sourceName: string, updates: EventUpdate[]): Promise<{ changesCount: number }> {
+    const rows = updates.flatMap(update =>
+      update.changes.map(change => ({
+        event_id: update.eventId,
+        field: change.field,
+        old_value: change.oldValue,
+        new_value: change.newValue,
+        source: sourceName
+      }))
+    )
+
+    if (rows.length === 0) {
+      return { changesCount: 0 }
+    }
+
+    const { error } = await supabase
+      .from('event_changes')
+      .insert(rows)
+
+    if (error) {
+      logger.error(`Error recording event changes for ${sourceName}:`, error)
+    }
+
+    await favoriteNotifier.notifyFavorites(updates.flatMap(buildChangeMessages))
+
+    return { changesCount: rows.length }
+  }
+}
+
+export const eventChangeTracker = new EventChangeTracker()
@@ -0,0 +1,263 @@
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '../utils/logger'
+import { PolishEventParser } from '../utils/polish-parser'
+import dotenv from 'dotenv'
+import path from 'path'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Events from different sources starting within this window can be the same event
+const TIME_WINDOW_MS = 2 * 60 * 60 * 1000 // 2 hours
+// Two venues closer than this are treated as the same place
+const MAX_VENUE_DISTANCE_KM = 0.3
+// Titles this similar are duplicates even when the venue spelling differs
+const STRONG_TITLE_SIMILARITY = 0.8
+// Titles this similar are duplicates when the venue matches too
+const TITLE_SIMILARITY = 0.5
+const VENUE_SIMILARITY = 0.5
+
+// Words that say nothing about which event it is ("Spektakl: Calineczka" vs "Calineczka")
+const TITLE_STOPWORDS = new Set([
+  'i', 'w', 'z', 'na', 'do', 'dla', 'o', 'od', 'po', 'oraz', 'the',
+  'spektakl', 'koncert', 'warsztaty', 'warsztat', 'wystawa', 'premiera', 'dzieci'
+])
+
+export interface DedupCandidate {
+  id: string
+  title: string
+  location_name: string
+  city: string
+  lat: number | null
+  lng: number | null
+  start_date: string
+  source_name: string | null
+  status: string
+}
+
+const CANDIDATE_COLUMNS = 'id, title, location_name, city, lat, lng, start_date, source_name, status'
+
+export function normalizeTitle(title: string): string {
+  return PolishEventParser.foldDiacritics(title)
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0 && !TITLE_STOPWORDS.has(word))
+    .join(' ')
+}
+
+const tokenSet = (text: string): Set<string> => new Set(text.split(' ').filter(Boolean))
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/\s+/g, '')
+  const result: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2))
+  }
+  return result
+}
+
+/**
+ * Similarity of two already normalized strings in 0..1.
+ * Takes the better of word overlap (robust to reordering) and character bigrams (robust to typos).
+ */
+export function textSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const tokensA = tokenSet(a)
+  const tokensB = tokenSet(b)
+  const sharedTokens = [...tokensA].filter(token => tokensB.has(token)).length
+  const jaccard = sharedTokens / (tokensA.size + tokensB.size - sharedTokens)
+
+  const bigramsA = bigrams(a)
+  const bigramsB = bigrams(b)
+  const remaining = [...bigramsB]
+  let sharedBigrams = 0
+  for (const bigram of bigramsA) {
+    const index = remaining.indexOf(bigram)
+    if (index !== -1) {
+      sharedBigrams++
+      remaining.splice(index, 1)
+    }
+  }
+  const dice = bigramsA.length + bigramsB.length > 0
+    ? (2 * sharedBigrams) / (bigramsA.length + bigramsB.length)
+    : 0
+
+  return Math.max(jaccard, dice)
+}
+
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLng = toRad(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Returns a similarity score when two events look like the same event, or null when they don't.
+ */
+export function duplicateScore(a: DedupCandidate, b: DedupCandidate): number | null {
+  const timeDiff = Math.abs(new Date(a.start_date).getTime() - new Date(b.start_date).getTime())
+  if (timeDiff > TIME_WINDOW_MS) {
+    return null
+  }
+
+  if (PolishEventParser.foldDiacritics(a.city) !== PolishEventParser.foldDiacritics(b.city)) {
+    return null
+  }
+
+  const titleScore = textSimilarity(normalizeTitle(a.title), normalizeTitle(b.title))
+
+  const venueA = normalizeTitle(PolishEventParser.normalizeVenue(a.location_name))
+  const venueB = normalizeTitle(PolishEventParser.normalizeVenue(b.location_name))
+  const venueScore = textSimilarity(venueA, venueB)
+  const nearby = a.lat != null && a.lng != null && b.lat != null && b.lng != null &&
+    distanceKm(Number(a.lat), Number(a.lng), Number(b.lat), Number(b.lng)) <= MAX_VENUE_DISTANCE_KM
+  const sameVenue = venueScore >= VENUE_SIMILARITY || nearby
+
+  if (titleScore >= STRONG_TITLE_SIMILARITY || (titleScore >= TITLE_SIMILARITY && sameVenue)) {
+    return Math.round((titleScore * 0.7 + (sameVenue ? 0.3 : 0)) * 1000) / 1000
+  }
+
+  return null
+}
+
+export class EventDeduplicator {
+  /**
+   * Merges freshly inserted events into matching events from other sources.
+   * The event that was there first stays canonical; the new one is hidden and linked to it.
+   * Returns the ids that were merged away, so callers can skip them (e.g. for alerts).
+   */
+  async deduplicateEvents(eventIds: string[]): Promise<{ mergedIds: string[] }> {
+    const mergedIds: string[] = []
+
+    if (eventIds.length === 0) {
+      return { mergedIds }
+    }
+
+    const { data: events, error } = await supabase
+      .from('events')
+      .select(CANDIDATE_COLUMNS)
+      .in('id', eventIds)
+
+    if (error) {
+      logger.error('Error loading events for deduplication:', error)
+      return { mergedIds }
+    }
+
+    for (const event of (events || []) as DedupCandidate[]) {
+      try {
+        const match = await this.findCanonical(event)
+        if (!match) continue
+
+        if (await this.merge(event, match.canonicalId, match.score)) {
+          mergedIds.push(event.id)
+        }
+      } catch (error) {
+        logger.error(`Deduplication failed for event ${event.id}:`, error)
+      }
+    }
+
+    if (mergedIds.length > 0) {
+      logger.info(`Merged ${mergedIds.length} duplicate events into existing events`)
+    }
+
+    return { mergedIds }
+  }
+
+  private async findCanonical(event: DedupCandidate): Promise<{ canonicalId: string; score: number } | null> {
+    const start = new Date(event.start_date).getTime()
+
+    let query = supabase
+      .from('events')
+      .select(CANDIDATE_COLUMNS)
+      .neq('id', event.id)
+      .is('canonical_event_id', null)
+      .in('status', ['ACTIVE', 'DRAFT'])
+      .eq('provenance', 'SCRAPED') // Never merge into events invented by a fallback
+      .gte('start_date', new Date(start - TIME_WINDOW_MS).toISOString())
+      .lte('start_date', new Date(start + TIME_WINDOW_MS).toISOString())
+
+    // The same source never duplicates itself - its events are already keyed by source_hash
+    if (event.source_name) {
+      query = query.neq('source_name', event.source_name)
+    }
+
+    const { data: candidates, error } = await query
+
+    if (error) {
+      logger.error(`Error loading dedup candidates for event ${event.id}:`, error)
+      return null
+    }
+
+    if (!candidates || candidates.length === 0) {
+      return null
+    }
+
+    const { data: exclusions } = await supabase
+      .from('event_dedup_exclusions')
+      .select('event_id, other_event_id')
+      .or(`event_id.eq.${event.id},other_event_id.eq.${event.id}`)
+
+    const excludedIds = new Set(
+      (exclusions || []).map(e => (e.event_id === event.id ? e.other_event_id : e.event_id))
+    )
+
+    let best: { canonicalId: string; score: number } | null = null
+
+    for (const candidate of candidates as DedupCandidate[]) {
+      if (excludedIds.has(candidate.id)) continue
+
+      const score = duplicateScore(event, candidate)
+      if (score !== null && (!best || score > best.score)) {
+        best = { canonicalId: candidate.id, score }
+      }
+    }
+
+    return best
+  }
+
+  private async merge(duplicate: DedupCandidate, canonicalId: string, score: number): Promise<boolean> {
+    const { error: linkError } = await supabase
+      .from('event_duplicates')
+      .insert({
+        canonical_event_id: canonicalId,
+        duplicate_event_id: duplicate.id,
+        similarity: score,
+        previous_status: duplicate.status
+      })
+
+    if (linkError) {
+      logger.error(`Error recording duplicate ${duplicate.id} of ${canonicalId}:`, linkError)
+      return false
+    }
+
+    const { error: updateError } = await supabase
+      .from('events')
+      .update({
+        canonical_event_id: canonicalId,
+        status: 'ARCHIVED'
+      })
+      .eq('id', duplicate.id)
+
+    if (updateError) {
+      logger.error(`Error hiding duplicate event ${duplicate.id}:`, updateError)
+      await supabase.from('event_duplicates').delete().eq('duplicate_event_id', duplicate.id)
+      return false
+    }
+
+    logger.debug(`Merged "${duplicate.title}" (${duplicate.source_name}) into ${canonicalId} (score ${score})`)
+    return true
+  }
+}
+
+export const eventDeduplicator = new EventDeduplicator()
@@ -0,0 +1,56 @@
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '../utils/logger'
+import { notificationService } from '../notifications/notification-service'
+import type { NotificationMessage } from '../notifications/channel'
+import type { AlertChannel } from './alert-matcher'
+import dotenv from 'dotenv'
+import path from 'path'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// In-app only: favourites have no email opt-out, so they must not send mail without an unsubscribe link
+const FAVORITE_NOTIFICATION_CHANNELS: AlertChannel[] = ['IN_APP']
+
+export class FavoriteNotifier {
+  /**
+   * Queues each message for every user who favourited its event (message.eventIds[0]).
+   */
+  async notifyFavorites(messages: NotificationMessage[]): Promise<{ queuedCount: number }> {
+    const eventIds = Array.from(new Set(messages.map(message => message.eventIds[0])))
+    if (eventIds.length === 0) {
+      return { queuedCount: 0 }
+    }
+
+    const { data: favorites, error } = await supabase
+      .from('user_favorite_events')
+      .select('user_id, event_id')
+      .in('event_id', eventIds)
+
+    if (error) {
+      logger.error('Error loading favorites for event notifications:', error)
+      return { queuedCount: 0 }
+    }
+
+    let queuedCount = 0
+
+    for (const message of messages) {
+      const fans = (favorites || []).filter(favorite => favorite.event_id === message.eventIds[0])
+
+      for (const fan of fans) {
+        await notificationService.notify(fan.user_id, FAVORITE_NOTIFICATION_CHANNELS, message)
+        queuedCount++
+      }
+    }
+
+    return { queuedCount }
+  }
+}
+
+export const favoriteNotifier = new FavoriteNotifier()
@@ -0,0 +1,87 @@
+import { createClient } from '@supabase/supabase-js'
+import { logger } from '../utils/logger'
+import { getListingOccurrences } from '@events-agregator/shared/src/recurrence'
+import dotenv from 'dotenv'
+import path from 'path'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Series loaded per query by the daily refresh
+const REFRESH_PAGE_SIZE = 500
+
+export interface SeriesRow {
+  id: string
+  start_date: string
+  recurrence_rule: string | null
+  recurrence_exceptions: string[] | null
+}
+
+/**
+ * Stores the dates recurring events are listed under (event_occurrences), so date-ordered lists
+ * can sort a series by its next date in SQL. Stale dates of an event that is no longer a series
+ * are ignored by the database, so only series are written.
+ */
+export class OccurrenceIndexer {
+  /**
+   * Saves the dates of the series among the rows; returns how many could not be saved.
+   */
+  async saveSeries(rows: SeriesRow[]): Promise<number> {
+    let failedCount = 0
+
+    for (const row of rows) {
+      if (!row.recurrence_rule) continue
+
+      const dates = getListingOccurrences(new Date(row.start_date), row.recurrence_rule, row.recurrence_exceptions || [])
+      const { error } = await supabase
+        .rpc('replace_event_occurrences', { p_event_id: row.id, p_dates: dates.map(date => date.toISOString()) })
+
+      if (error) {
+        logger.error(`Failed to save listing dates of event ${row.id}:`, error)
+        failedCount++
+      }
+    }
+
+    return failedCount
+  }
+
+  /**
+   * Expands every active series again from today on. Run daily, so the stored dates
+   * keep reaching a year ahead and past ones drop out.
+   */
+  async refreshActiveSeries(): Promise<{ refreshedCount: number; failedCount: number }> {
+    let refreshedCount = 0
+    let failedCount = 0
+
+    for (let offset = 0; ; offset += REFRESH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, start_date, recurrence_rule, recurrence_exceptions')
+        .eq('status', 'ACTIVE')
+        .not('recurrence_rule', 'is', null)
+        .order('id', { ascending: true })
+        .range(offset, offset + REFRESH_PAGE_SIZE - 1)
+        .returns<SeriesRow[]>()
+
+      if (error) throw error
+
+      const rows = data || []
+      const failed = await this.saveSeries(rows)
+      refreshedCount += rows.length - failed
+      failedCount += failed
+
+      if (rows.length < REFRESH_PAGE_SIZE) break
+    }
+
+    logger.info(`Refreshed listing dates of ${refreshedCount} series (${failedCount} failed)`)
+    return { refreshedCount, failedCount }
+  }
+}
+
+export const occurrenceIndexer = new OccurrenceIndexer()
@@ -0,0 +1,129 @@
+import { createClient } from '@supabase/supabase-js'
+import { AsyncLocalStorage } from 'async_hooks'
+import axios from 'axios'
+import { logger } from '../utils/logger'
+import dotenv from 'dotenv'
+import path from 'path'
+import type { ScraperRunResult, ScraperSchedule } from '../scrapers/base-scraper'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Keep the stored details small - a broken source can fail hundreds of requests
+const MAX_HTTP_FAILURE_DETAILS = 20
+
+interface HttpFailure {
+  url?: string
+  status?: number
+  message: string
+}
+
+interface RunContext {
+  httpFailures: HttpFailure[]
+}
+
+// Scrapers run concurrently in the worker, so failures are attributed through the async context
+const runContext = new AsyncLocalStorage<RunContext>()
+
+axios.interceptors.response.use(undefined, (error) => {
+  runContext.getStore()?.httpFailures.push({
+    url: error?.config?.url,
+    status: error?.response?.status,
+    message: error?.message || 'Unknown error'
+  })
+  return Promise.reject(error)
+})
+
+export class ScraperRunRecorder {
+  /**
+   * Runs a scraper and persists the outcome to scraper_runs, whether it succeeds or throws.
+   */
+  async track(scraperName: string, run: () => Promise<ScraperRunResult>): Promise<ScraperRunResult> {
+    const context: RunContext = { httpFailures: [] }
+    const startedAt = new Date()
+
+    try {
+      const result = await runContext.run(context, run)
+      await this.save(scraperName, startedAt, context, result)
+      return result
+    } catch (error) {
+      await this.save(scraperName, startedAt, context, null, error)
+      throw error
+    }
+  }
+
+  /**
+   * Syncs the registered scrapers to scraper_sources, so the health dashboard also lists
+   * sources that never ran. Scrapers no longer registered are marked, not deleted.
+   */
+  async registerSources(sources: Array<{ name: string; schedule: ScraperSchedule }>) {
+    const now = new Date().toISOString()
+
+    const { error } = await supabase
+      .from('scraper_sources')
+      .upsert(sources.map(({ name, schedule }) => ({
+        name,
+        city: schedule.city ?? null,
+        schedule_pattern: schedule.pattern,
+        enabled: schedule.enabled,
+        unregistered_at: null,
+        updated_at: now
+      })), { onConflict: 'name' })
+
+    if (error) {
+      logger.error('Failed to register scraper sources:', error)
+      return
+    }
+
+    const { error: unregisterError } = await supabase
+      .from('scraper_sources')
+      .update({ unregistered_at: now, updated_at: now })
+      .is('unregistered_at', null)
+      .not('name', 'in', `(${sources.map(source => `"${source.name}"`).join(',')})`)
+
+    if (unregisterError) {
+      logger.error('Failed to mark unregistered scraper sources:', unregisterError)
+    }
+  }
+
+  private async save(
+    scraperName: string,
+    startedAt: Date,
+    context: RunContext,
+    result: ScraperRunResult | null,
+    error?: unknown
+  ) {
+    const finishedAt = new Date()
+
+    const { error: insertError } = await supabase
+      .from('scraper_runs')
+      .insert({
+        scraper_name: scraperName,
+        status: result ? 'SUCCESS' : 'FAILED',
+        started_at: startedAt.toISOString(),
+        finished_at: finishedAt.toISOString(),
+        duration_ms: finishedAt.getTime() - startedAt.getTime(),
+        events_count: result?.eventsCount || 0,
+        new_events: result?.newEvents || 0,
+        updated_events: result?.updatedEvents || 0,
+        unchanged_events: result?.unchangedEvents || 0,
+        real_events: result?.realEvents || 0,
+        synthesized_events: result?.synthesizedEvents || 0,
+        error: error ? (error instanceof Error ? error.message : String(error)) : null,
+        http_failures: context.httpFailures.length,
+        http_failure_details: context.httpFailures.slice(0, MAX_HTTP_FAILURE_DETAILS)
+      })
+
+    if (insertError) {
+      logger.error(`Failed to record run of ${scraperName}:`, insertError)
+    }
+  }
+}
+
+export const scraperRunRecorder = new ScraperRunRecorder()
@@ -0,0 +1,25 @@
+import type { AlertChannel } from '../jobs/alert-matcher'
+
+// Base URL of the web app, used to build absolute links in emails and push messages
+export const APP_URL = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+export interface NotificationRecipient {
+  userId: string
+  email: string
+  name?: string
+}
+
+export interface NotificationMessage {
+  type: string // e.g. 'ALERT_MATCH'
+  title: string
+  body: string
+  path: string // Link inside the web app, e.g. /events/<id>
+  eventIds: string[]
+  alertId?: string
+  unsubscribeUrl?: string
+}
+
+export interface NotificationChannel {
+  readonly name: AlertChannel
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void>
+}
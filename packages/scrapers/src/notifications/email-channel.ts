@@ -0,0 +1,63 @@
+import nodemailer, { Transporter } from 'nodemailer'
+import { APP_URL, NotificationChannel, NotificationMessage, NotificationRecipient } from './channel'
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'EMAIL' as const
+  private transporter: Transporter
+
+  constructor() {
+    // Defaults point at a local MailHog instance (SMTP on 1025, web UI on 8025)
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    })
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    const url = `${APP_URL}${message.path}`
+
+    const text = [
+      message.title,
+      '',
+      message.body,
+      '',
+      `Zobacz: ${url}`,
+      ...(message.unsubscribeUrl ? ['', `Wypisz się z tego alertu: ${message.unsubscribeUrl}`] : []),
+    ].join('\n')
+
+    const html = `
+      <h2>${escapeHtml(message.title)}</h2>
+      <p>${escapeHtml(message.body).replace(/\n/g, '<br>')}</p>
+      <p><a href="${escapeHtml(url)}">Zobacz wydarzenia</a></p>
+      ${message.unsubscribeUrl
+        ? `<p style="font-size:12px;color:#6b7280"><a href="${escapeHtml(message.unsubscribeUrl)}">Wypisz się z tego alertu</a></p>`
+        : ''}
+    `
+
+    await this.transporter.sendMail({
+      from: process.env.SMTP_FROM || 'Wydarzenia dla dzieci <alerty@localhost>',
+      to: recipient.email,
+      subject: message.title,
+      text,
+      html,
+      // One-click unsubscribe (RFC 8058): mail clients POST to the link instead of opening it
+      headers: message.unsubscribeUrl
+        ? {
+            'List-Unsubscribe': `<${message.unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          }
+        : undefined,
+    })
+  }
+}
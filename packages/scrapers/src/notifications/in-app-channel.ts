@@ -0,0 +1,35 @@
+import { createClient } from '@supabase/supabase-js'
+import dotenv from 'dotenv'
+import path from 'path'
+import { NotificationChannel, NotificationMessage, NotificationRecipient } from './channel'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'IN_APP' as const
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: recipient.userId,
+        alert_id: message.alertId,
+        type: message.type,
+        title: message.title,
+        body: message.body,
+        link: message.path,
+        event_ids: message.eventIds,
+      })
+
+    if (error) {
+      throw new Error(`Failed to store in-app notification: ${error.message}`)
+    }
+  }
+}
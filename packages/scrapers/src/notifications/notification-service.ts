@@ -0,0 +1,119 @@
+import { createClient } from '@supabase/supabase-js'
+import { UnrecoverableError } from 'bullmq'
+import dotenv from 'dotenv'
+import path from 'path'
+import { logger } from '../utils/logger'
+import type { AlertChannel } from '../jobs/alert-matcher'
+import { NotificationChannel, NotificationMessage, NotificationRecipient } from './channel'
+import { EmailChannel } from './email-channel'
+import { InAppChannel } from './in-app-channel'
+import { PushChannel } from './push-channel'
+import { enqueueNotifications, NotificationJob } from '../queue/notification-queue'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export class NotificationService {
+  private channels: Map<AlertChannel, NotificationChannel> = new Map()
+
+  constructor(channels: NotificationChannel[] = [new EmailChannel(), new InAppChannel(), new PushChannel()]) {
+    for (const channel of channels) {
+      this.channels.set(channel.name, channel)
+    }
+  }
+
+  /**
+   * Queues a message to one user on each of the given channels. Deliveries and their retries
+   * run in the notification worker, so a slow or failing channel never holds up the caller.
+   */
+  async notify(
+    userId: string,
+    channels: AlertChannel[],
+    message: NotificationMessage,
+    matchIds?: string[]
+  ): Promise<void> {
+    await enqueueNotifications(channels.map(channel => ({ userId, channel, message, matchIds })))
+  }
+
+  /**
+   * Sends one queued delivery. Errors are rethrown so the queue retries it with backoff;
+   * the outcome is written to notification_deliveries once it is final.
+   */
+  async deliver(job: NotificationJob, attempt: number, isLastAttempt: boolean): Promise<void> {
+    const { userId, channel: channelName, message } = job
+
+    const channel = this.channels.get(channelName)
+    if (!channel) {
+      await this.logDelivery(userId, channelName, message, attempt, 'Channel not registered')
+      throw new UnrecoverableError(`Notification channel not registered: ${channelName}`)
+    }
+
+    const recipient = await this.getRecipient(userId)
+    if (!recipient) {
+      await this.logDelivery(userId, channelName, message, attempt, 'Profile not found')
+      throw new UnrecoverableError(`Cannot notify user ${userId}: profile not found`)
+    }
+
+    try {
+      await channel.send(recipient, message)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.warn(`Notification via ${channelName} failed (attempt ${attempt})`, { userId, error: errorMessage })
+      if (isLastAttempt) {
+        await this.logDelivery(userId, channelName, message, attempt, errorMessage)
+      }
+      throw error
+    }
+
+    await this.logDelivery(userId, channelName, message, attempt)
+  }
+
+  private async getRecipient(userId: string): Promise<NotificationRecipient | null> {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('id, email, name')
+      .eq('id', userId)
+      .single()
+
+    if (error || !profile) {
+      return null
+    }
+
+    return {
+      userId: profile.id,
+      email: profile.email,
+      name: profile.name || undefined
+    }
+  }
+
+  private async logDelivery(
+    userId: string,
+    channel: AlertChannel,
+    message: NotificationMessage,
+    attempts: number,
+    error?: string
+  ) {
+    const { error: logError } = await supabase
+      .from('notification_deliveries')
+      .insert({
+        user_id: userId,
+        alert_id: message.alertId,
+        channel,
+        status: error ? 'FAILED' : 'SENT',
+        attempts,
+        error
+      })
+
+    if (logError) {
+      logger.error('Failed to log notification delivery:', logError)
+    }
+  }
+}
+
+export const notificationService = new NotificationService()
@@ -0,0 +1,86 @@
+import { createClient } from '@supabase/supabase-js'
+import webpush from 'web-push'
+import dotenv from 'dotenv'
+import path from 'path'
+import { logger } from '../utils/logger'
+import { APP_URL, NotificationChannel, NotificationMessage, NotificationRecipient } from './channel'
+
+// Load environment variables
+dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export class PushChannel implements NotificationChannel {
+  readonly name = 'PUSH' as const
+  private configured = false
+
+  constructor() {
+    const publicKey = process.env.VAPID_PUBLIC_KEY
+    const privateKey = process.env.VAPID_PRIVATE_KEY
+
+    if (publicKey && privateKey) {
+      webpush.setVapidDetails(
+        process.env.VAPID_SUBJECT || 'mailto:alerty@localhost',
+        publicKey,
+        privateKey
+      )
+      this.configured = true
+    }
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<void> {
+    if (!this.configured) {
+      throw new Error('Web Push is not configured (missing VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY)')
+    }
+
+    const { data: subscriptions, error } = await supabase
+      .from('push_subscriptions')
+      .select('id, endpoint, p256dh, auth')
+      .eq('user_id', recipient.userId)
+
+    if (error) {
+      throw new Error(`Failed to load push subscriptions: ${error.message}`)
+    }
+
+    if (!subscriptions || subscriptions.length === 0) {
+      logger.debug(`No push subscriptions for user ${recipient.userId}`)
+      return
+    }
+
+    const payload = JSON.stringify({
+      title: message.title,
+      body: message.body,
+      url: `${APP_URL}${message.path}`,
+    })
+
+    let failures = 0
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload
+        )
+      } catch (error) {
+        // 404/410 mean the browser dropped the subscription - clean it up instead of retrying
+        if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          await supabase.from('push_subscriptions').delete().eq('id', subscription.id)
+          logger.info(`Removed expired push subscription ${subscription.id}`)
+        } else {
+          failures++
+          logger.warn(`Push notification failed for subscription ${subscription.id}`, {
+            error: error instanceof Error ? error.message : error
+          })
+        }
+      }
+    }
+
+    if (failures === subscriptions.length) {
+      throw new Error(`All ${failures} push subscriptions failed`)
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import dotenv from 'dotenv'
 import path from 'path'
-import { createBackgroundWorker, scheduleBackgroundJobs } from './queue/queue'
+import { createBackgroundWorker, createNotificationWorker, scheduleBackgroundJobs } from './queue/queue'
 import { logger } from './utils/logger'
 
 // Load environment variables
@@ -10,8 +10,9 @@ async function startQueueWorker() {
   try {
     logger.info('Starting background queue worker...')
     
-    // Create and start the worker
+    // Create and start the workers
     const worker = createBackgroundWorker()
+    const notificationWorker = createNotificationWorker()
     
     // Schedule periodic jobs (scrapers + status updates)
     await scheduleBackgroundJobs()
@@ -21,13 +22,13 @@ async function startQueueWorker() {
     // Graceful shutdown
     process.on('SIGINT', async () => {
       logger.info('Gracefully shutting down background worker...')
-      await worker.close()
+      await Promise.all([worker.close(), notificationWorker.close()])
       process.exit(0)
     })
     
     process.on('SIGTERM', async () => {
       logger.info('Gracefully shutting down background worker...')
-      await worker.close()
+      await Promise.all([worker.close(), notificationWorker.close()])
       process.exit(0)
     })
     
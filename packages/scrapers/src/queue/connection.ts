@@ -0,0 +1,11 @@
+import Redis, { RedisOptions } from 'ioredis'
+
+// BullMQ workers need maxRetriesPerRequest: null, so blocking commands wait out reconnects
+export const createRedisConnection = (options: RedisOptions = {}) => process.env.REDIS_URL
+  ? new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: null, ...options })
+  : new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      maxRetriesPerRequest: null,
+      ...options,
+    })
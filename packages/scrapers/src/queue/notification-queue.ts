@@ -0,0 +1,58 @@
+import { Queue } from 'bullmq'
+import type Redis from 'ioredis'
+import type { AlertChannel } from '../jobs/alert-matcher'
+import type { NotificationMessage } from '../notifications/channel'
+import { createRedisConnection } from './connection'
+
+export const NOTIFICATION_QUEUE_NAME = 'notifications'
+
+// One job per user and channel, so a retry never resends on channels that already got through
+export interface NotificationJob {
+  userId: string
+  channel: AlertChannel
+  message: NotificationMessage
+  matchIds?: string[] // Alert matches marked as delivered once the message got through
+}
+
+let connection: Redis | null = null
+let notificationQueue: Queue<NotificationJob> | null = null
+
+// Created on first use, so scripts that never notify anyone do not connect to Redis
+function getNotificationQueue(): Queue<NotificationJob> {
+  if (!notificationQueue) {
+    // Fail fast instead of queueing commands while Redis is down, which would stall the caller
+    connection = createRedisConnection({ enableOfflineQueue: false, maxRetriesPerRequest: 1 })
+    notificationQueue = new Queue<NotificationJob>(NOTIFICATION_QUEUE_NAME, {
+      connection,
+      defaultJobOptions: {
+        removeOnComplete: {
+          age: 24 * 3600, // keep completed jobs for 24 hours
+          count: 1000,
+        },
+        removeOnFail: {
+          age: 7 * 24 * 3600, // keep failed jobs for 7 days
+        },
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    })
+  }
+  return notificationQueue
+}
+
+export async function enqueueNotifications(jobs: NotificationJob[]) {
+  if (jobs.length === 0) return
+
+  await getNotificationQueue().addBulk(jobs.map(data => ({ name: 'notification', data })))
+}
+
+// Lets one-off scripts exit once they are done
+export async function closeNotificationQueue() {
+  await notificationQueue?.close()
+  await connection?.quit()
+  notificationQueue = null
+  connection = null
+}
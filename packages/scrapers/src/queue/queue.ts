@@ -1,17 +1,16 @@
 import { Queue, Worker, Job } from 'bullmq'
-import Redis from 'ioredis'
 import { logger } from '../utils/logger'
 import { ScraperManager } from '../scrapers/scraper-manager'
 import { statusManager } from '../jobs/status-manager'
+import { alertMatcher } from '../jobs/alert-matcher'
+import { occurrenceIndexer } from '../jobs/occurrence-indexer'
+import { scraperRunRecorder } from '../jobs/scraper-run-recorder'
+import { notificationService } from '../notifications/notification-service'
+import { createRedisConnection } from './connection'
+import { NOTIFICATION_QUEUE_NAME, NotificationJob } from './notification-queue'
 
 // Redis connection
-const connection = process.env.REDIS_URL 
-  ? new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: null })
-  : new Redis({
-      host: process.env.REDIS_HOST || 'localhost',
-      port: parseInt(process.env.REDIS_PORT || '6379'),
-      maxRetriesPerRequest: null,
-    })
+const connection = createRedisConnection()
 
 // Queue for all background jobs (scraping, status management, etc.)
 export const backgroundQueue = new Queue('background-jobs', {
@@ -61,6 +60,25 @@ export const createBackgroundWorker = () => {
             })
             return statusResult
             
+          case 'occurrence-refresh':
+            const refreshResult = await occurrenceIndexer.refreshActiveSeries()
+            logger.info(`Occurrence refresh completed`, { 
+              jobId: job.id, 
+              refreshedCount: refreshResult.refreshedCount,
+              failedCount: refreshResult.failedCount 
+            })
+            return refreshResult
+            
+          case 'alert-digest':
+            const { frequency } = job.data
+            const digestResult = await alertMatcher.runDigest(frequency)
+            logger.info(`Alert digest completed: ${frequency}`, { 
+              jobId: job.id, 
+              alertsCount: digestResult.alertsCount,
+              queuedCount: digestResult.queuedCount 
+            })
+            return digestResult
+            
           default:
             throw new Error(`Unknown job type: ${type}`)
         }
@@ -89,6 +107,32 @@ export const createBackgroundWorker = () => {
   return worker
 }
 
+// Worker delivering queued notifications - failed channels are retried with the queue's backoff
+export const createNotificationWorker = () => {
+  const worker = new Worker<NotificationJob>(
+    NOTIFICATION_QUEUE_NAME,
+    async (job: Job<NotificationJob>) => {
+      const attempt = job.attemptsMade + 1
+      await notificationService.deliver(job.data, attempt, attempt >= (job.opts.attempts ?? 1))
+
+      const { matchIds, message } = job.data
+      if (matchIds && matchIds.length > 0 && message.alertId) {
+        await alertMatcher.markDelivered(message.alertId, matchIds)
+      }
+    },
+    {
+      connection,
+      concurrency: 5,
+    }
+  )
+
+  worker.on('failed', (job, err) => {
+    logger.error(`Notification job failed: ${job?.id}`, { channel: job?.data.channel, error: err.message })
+  })
+
+  return worker
+}
+
 // Schedule all background jobs
 export const scheduleBackgroundJobs = async () => {
   // Schedule status updates (every hour)
@@ -104,24 +148,86 @@ export const scheduleBackgroundJobs = async () => {
   )
   logger.info('Scheduled status updates (hourly)')
   
-  // Schedule scrapers (every 2 hours)
-  const scrapers = ['biblioteki-warszawa', 'czas-dzieci'] // Working scrapers with fixed URLs
+  // Keep the stored dates of recurring events a year ahead - lists are ordered by them
+  await backgroundQueue.add(
+    'occurrence-refresh',
+    { type: 'occurrence-refresh' },
+    {
+      repeat: {
+        pattern: '15 0 * * *', // Every day at 0:15
+      },
+      jobId: 'scheduled-occurrence-refresh',
+    }
+  )
+  logger.info('Scheduled occurrence refresh (daily)')
   
-  for (const scraperName of scrapers) {
-    await backgroundQueue.add(
-      `scraper-${scraperName}`,
-      { 
-        type: 'scraper',
-        scraperName, 
-        options: {} 
+  // Schedule alert digests (daily at 7:00, weekly on Monday at 7:00)
+  await backgroundQueue.add(
+    'alert-digest-daily',
+    { type: 'alert-digest', frequency: 'DAILY' },
+    {
+      repeat: {
+        pattern: '0 7 * * *', // Every day at 7:00
+      },
+      jobId: 'scheduled-alert-digest-daily',
+    }
+  )
+  await backgroundQueue.add(
+    'alert-digest-weekly',
+    { type: 'alert-digest', frequency: 'WEEKLY' },
+    {
+      repeat: {
+        pattern: '0 7 * * 1', // Every Monday at 7:00
       },
+      jobId: 'scheduled-alert-digest-weekly',
+    }
+  )
+  logger.info('Scheduled alert digests (daily + weekly)')
+  
+  await syncScraperSchedules()
+}
+
+// Sync repeatable scraper jobs with the schedule declared on each scraper
+export const syncScraperSchedules = async () => {
+  const scraperManager = new ScraperManager()
+  const schedules = scraperManager.getScraperSchedules()
+  await scraperRunRecorder.registerSources(schedules)
+  const enabledIds = new Set(
+    schedules.filter(s => s.schedule.enabled).map(s => `scheduled-scraper-${s.name}`)
+  )
+  
+  // Remove schedules of disabled or no longer registered scrapers
+  const existing = await backgroundQueue.getJobSchedulers()
+  for (const scheduler of existing) {
+    if (!scheduler.name.startsWith('scraper-') || enabledIds.has(scheduler.key)) continue
+    
+    // Legacy repeatable jobs (added with queue.add + repeat) are keyed by name:jobId:...:pattern
+    if (scheduler.key.includes(':')) {
+      await backgroundQueue.removeRepeatableByKey(scheduler.key)
+    } else {
+      await backgroundQueue.removeJobScheduler(scheduler.key)
+    }
+    logger.info(`Removed scraper schedule: ${scheduler.name}`)
+  }
+  
+  for (const { name, schedule } of schedules) {
+    if (!schedule.enabled) continue
+    
+    await backgroundQueue.upsertJobScheduler(
+      `scheduled-scraper-${name}`,
+      { pattern: schedule.pattern },
       {
-        repeat: {
-          pattern: '0 */2 * * *', // Run every 2 hours
+        name: `scraper-${name}`,
+        data: {
+          type: 'scraper',
+          scraperName: name,
+          options: {}
+        },
+        opts: {
+          priority: schedule.priority,
         },
-        jobId: `scheduled-scraper-${scraperName}`,
       }
     )
-    logger.info(`Scheduled scraper: ${scraperName}`)
+    logger.info(`Scheduled scraper: ${name} (${schedule.pattern})`, { city: schedule.city })
   }
 }
\ No newline at end of file
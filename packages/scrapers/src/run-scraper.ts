@@ -1,6 +1,7 @@
 import dotenv from 'dotenv'
 import path from 'path'
 import { ScraperManager } from './scrapers/scraper-manager'
+import { closeNotificationQueue } from './queue/notification-queue'
 import { logger } from './utils/logger'
 
 // Load environment variables from the scrapers package .env file
@@ -38,13 +39,19 @@ async function main() {
         if (result.error) {
           logger.error(`${result.name}: Failed - ${result.error}`)
         } else {
-          logger.info(`${result.name}: ${result.eventsCount} events (${result.newEvents} new, ${result.updatedEvents} updated)`)
+          logger.info(`${result.name}: ${result.eventsCount} events (${result.newEvents} new, ${result.updatedEvents} updated, ${result.unchangedEvents} unchanged)`)
+          if (result.realEvents === 0) {
+            logger.warn(`${result.name}: zero real events - ${result.synthesizedEvents} synthesized events sent to review`)
+          }
         }
       })
     }
   } catch (error) {
     logger.error('Scraper execution failed', { error })
     process.exit(1)
+  } finally {
+    // Notifications are delivered by the queue worker; only the connection is closed here
+    await closeNotificationQueue()
   }
 }
 
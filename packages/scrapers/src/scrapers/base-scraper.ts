@@ -1,8 +1,28 @@
 import { createClient } from '@supabase/supabase-js'
+import { AxiosError } from 'axios'
 import crypto from 'crypto'
 import dotenv from 'dotenv'
 import path from 'path'
 import { logger } from '../utils/logger'
+import { PolishEventParser } from '../utils/polish-parser'
+import { RobotsDisallowedError, withAbortSignal } from '../utils/http-client'
+import { alertMatcher } from '../jobs/alert-matcher'
+import { eventDeduplicator } from '../jobs/event-deduplicator'
+import { scraperRunRecorder } from '../jobs/scraper-run-recorder'
+import { cancellationDetector } from '../jobs/cancellation-detector'
+import { eventChangeTracker, EventUpdate } from '../jobs/event-change-tracker'
+import { occurrenceIndexer } from '../jobs/occurrence-indexer'
+import {
+  EVENT_CONTENT_COLUMNS,
+  EventContentColumn,
+  EventRow,
+  PreservedEventColumns,
+  diffEventRow,
+  hasPlaceholderDate,
+  keepSeriesStart,
+  keepStoredDates,
+  mapScrapedEventToRow
+} from './event-row-mapper'
 
 // Load environment variables
 dotenv.config({ path: path.join(__dirname, '..', '..', '.env') })
@@ -15,7 +35,9 @@ const supabase = createClient(
 
 export type PriceType = 'FREE' | 'PAID' | 'DONATION'
 export type EventCategory = 'WARSZTATY' | 'SPEKTAKLE' | 'SPORT' | 'EDUKACJA' | 'INNE'
-export type EventStatus = 'DRAFT' | 'ACTIVE' | 'EXPIRED' | 'ARCHIVED'
+export type EventStatus = 'DRAFT' | 'ACTIVE' | 'EXPIRED' | 'ARCHIVED' | 'CANCELLED'
+// SCRAPED events were parsed from the source; SYNTHESIZED ones were invented by a fallback
+export type EventProvenance = 'SCRAPED' | 'SYNTHESIZED'
 
 export interface ScrapedEvent {
   title: string
@@ -36,117 +58,183 @@ export interface ScrapedEvent {
   imageUrls: string[]
   startDate: Date
   endDate?: Date
+  dateIsDefault?: boolean // startDate is a placeholder - the source listed no date
   category: EventCategory
   tags: string[]
+  provenance?: EventProvenance // Defaults to SCRAPED
+  recurrenceRule?: string // RRULE of a repeating event - startDate is then its first known occurrence
+  recurrenceExceptions?: string[] // YYYY-MM-DD dates the series skips
+}
+
+export interface ScraperRunResult {
+  eventsCount: number
+  newEvents: number
+  updatedEvents: number
+  unchangedEvents: number
+  realEvents: number
+  synthesizedEvents: number
+}
+
+export interface ScraperSchedule {
+  pattern: string // Cron pattern of the repeatable queue job
+  enabled: boolean // Disabled scrapers are unscheduled on the next sync
+  timeoutMs: number // Runs taking longer are recorded as failed
+  priority: number // BullMQ job priority, 1 is the highest
+  city?: string
+}
+
+export const DEFAULT_SCRAPER_SCHEDULE: ScraperSchedule = {
+  pattern: '0 */2 * * *', // Every 2 hours
+  enabled: true,
+  timeoutMs: 10 * 60 * 1000,
+  priority: 5,
+}
+
+const UPSERT_BATCH_SIZE = 100
+
+const EXISTING_EVENT_COLUMNS = ['id', 'source_hash', 'organizer_id', 'provenance', 'status', 'date_is_default', ...EVENT_CONTENT_COLUMNS].join(', ')
+
+// A placeholder date moves with every run, so its changes are not worth a notification
+const DATE_COLUMNS: EventContentColumn[] = ['start_date', 'end_date']
+
+interface SaveEventsResult {
+  insertedRows: UpsertedEventRow[]
+  updatedEvents: number
+  unchangedEvents: number
+}
+
+interface UpsertedEventRow {
+  id: string
+  provenance: EventProvenance
+  created_at: string
+  updated_at: string
+  start_date: string
+  recurrence_rule: string | null
+  recurrence_exceptions: string[] | null
 }
 
 export abstract class BaseScraper {
   abstract name: string
   abstract sourceUrl: string
+  // Subclasses override only what differs from DEFAULT_SCRAPER_SCHEDULE
+  schedule: Partial<ScraperSchedule> = {}
   
   protected abstract scrapeEvents(): Promise<ScrapedEvent[]>
   
-  async run(): Promise<{ eventsCount: number, newEvents: number, updatedEvents: number }> {
+  getSchedule(): ScraperSchedule {
+    return { ...DEFAULT_SCRAPER_SCHEDULE, ...this.schedule }
+  }
+  
+  // Set until a run has actually stopped, which for a timed-out run is after the timeout fired
+  private running = false
+  // Set when a listing page failed this run, so part of the source went unseen
+  private listingIncomplete = false
+  
+  async run(): Promise<ScraperRunResult> {
+    // A retried job must not write alongside a timed-out run that is still unwinding
+    if (this.running) {
+      throw new Error(`Scraper ${this.name} is still running`)
+    }
+    
+    const { timeoutMs } = this.getSchedule()
+    
+    // Every run, successful or not, is persisted to scraper_runs
+    return scraperRunRecorder.track(this.name, () => this.withTimeout(timeoutMs))
+  }
+  
+  /**
+   * Runs the scraper and aborts it after timeoutMs: in-flight requests are cancelled
+   * and the run stops at its next checkpoint instead of writing on in the background.
+   */
+  private async withTimeout(timeoutMs: number): Promise<ScraperRunResult> {
+    const controller = new AbortController()
+    this.running = true
+    const execution = withAbortSignal(controller.signal, () => this.execute(controller.signal))
+      .finally(() => {
+        this.running = false
+      })
+    
+    let timer: NodeJS.Timeout | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Scraper ${this.name} timed out after ${timeoutMs}ms`)
+        controller.abort(error)
+        reject(error)
+      }, timeoutMs)
+    })
+    
+    try {
+      return await Promise.race([execution, timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+  
+  private async execute(signal: AbortSignal): Promise<ScraperRunResult> {
     logger.info(`Starting scraper: ${this.name}`)
+    this.listingIncomplete = false
     
     try {
       const scrapedEvents = await this.scrapeEvents()
+      // Scrapers swallow failed requests, so a cancelled run only shows here
+      signal.throwIfAborted()
       logger.info(`Scraped ${scrapedEvents.length} events from ${this.name}`)
       
-      let newEvents = 0
-      let updatedEvents = 0
-      
-      for (const event of scrapedEvents) {
-        const hash = this.generateHash(event)
-        
-        // Check if event already exists
-        const { data: existingEvent } = await supabase
-          .from('events')
-          .select('id')
-          .eq('source_hash', hash)
-          .single()
-        
-        if (existingEvent) {
-          // Update existing event
-          const { error } = await supabase
-            .from('events')
-            .update({
-              title: event.title,
-              description: event.description,
-              age_min: event.ageMin,
-              age_max: event.ageMax,
-              price_type: event.priceType,
-              price: event.price,
-              currency: event.currency || 'PLN',
-              location_name: event.locationName,
-              address: event.address,
-              city: event.city,
-              lat: event.lat,
-              lng: event.lng,
-              postal_code: event.postalCode,
-              organizer_name: event.organizerName,
-              source_url: event.sourceUrl,
-              image_urls: event.imageUrls,
-              start_date: event.startDate.toISOString(),
-              end_date: event.endDate?.toISOString(),
-              category: event.category,
-              tags: event.tags,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', existingEvent.id)
-          
-          if (!error) {
-            updatedEvents++
-            logger.debug(`Updated event: ${event.title}`)
-          } else {
-            logger.error(`Failed to update event: ${event.title}`, error)
-          }
-        } else {
-          // Create new event
-          const { error } = await supabase
-            .from('events')
-            .insert({
-              title: event.title,
-              description: event.description,
-              age_min: event.ageMin,
-              age_max: event.ageMax,
-              price_type: event.priceType,
-              price: event.price,
-              currency: event.currency || 'PLN',
-              location_name: event.locationName,
-              address: event.address,
-              city: event.city,
-              lat: event.lat,
-              lng: event.lng,
-              postal_code: event.postalCode,
-              organizer_name: event.organizerName,
-              organizer_id: process.env.SCRAPER_USER_ID || '00000000-0000-0000-0000-000000000000',
-              source_url: event.sourceUrl,
-              source_hash: hash,
-              source_name: this.name,
-              image_urls: event.imageUrls,
-              start_date: event.startDate.toISOString(),
-              end_date: event.endDate?.toISOString(),
-              category: event.category,
-              tags: event.tags,
-              status: 'ACTIVE' as EventStatus // Auto-approve scraped events
-            })
-          
-          if (!error) {
-            newEvents++
-            logger.debug(`Created new event: ${event.title}`)
-          } else {
-            logger.error(`Failed to create event: ${event.title}`, error)
-          }
+      const synthesizedEvents = scrapedEvents.filter(e => e.provenance === 'SYNTHESIZED').length
+      const realEvents = scrapedEvents.length - synthesizedEvents
+      if (realEvents === 0) {
+        await this.reportZeroRealEvents(synthesizedEvents)
+      }
+      
+      const { insertedRows, updatedEvents, unchangedEvents } = await this.saveEvents(scrapedEvents, signal)
+      signal.throwIfAborted()
+      const newEvents = insertedRows.length
+      
+      // Synthesized events stay out of deduplication and alert matching until reviewed
+      const newEventIds = insertedRows.filter(row => row.provenance !== 'SYNTHESIZED').map(row => row.id)
+      
+      logger.info(`Scraper ${this.name} completed. New: ${newEvents}, Updated: ${updatedEvents}, Unchanged: ${unchangedEvents}`)
+      
+      // Merge events already published by another source - a failure here must not fail the scrape
+      let mergedIds: string[] = []
+      try {
+        const dedupResult = await eventDeduplicator.deduplicateEvents(newEventIds)
+        mergedIds = dedupResult.mergedIds
+      } catch (error) {
+        logger.error(`Deduplication failed for ${this.name}:`, error)
+      }
+      
+      signal.throwIfAborted()
+      
+      // Cancel events that vanished from the listing - skipped when the source looks broken or
+      // a listing page failed, otherwise events that went unseen would count as gone
+      if (this.listingIncomplete) {
+        logger.warn(`Skipping cancellation check for ${this.name}: listing incomplete`)
+      } else if (realEvents > 0) {
+        try {
+          const seenHashes = scrapedEvents.filter(e => e.provenance !== 'SYNTHESIZED').map(e => this.generateHash(e))
+          await cancellationDetector.recordListing(this.name, seenHashes)
+        } catch (error) {
+          logger.error(`Cancellation check failed for ${this.name}:`, error)
         }
       }
       
-      logger.info(`Scraper ${this.name} completed. New: ${newEvents}, Updated: ${updatedEvents}`)
+      signal.throwIfAborted()
+      
+      // Match new events against saved alerts - a failure here must not fail the scrape
+      try {
+        await alertMatcher.matchNewEvents(newEventIds.filter(id => !mergedIds.includes(id)))
+      } catch (error) {
+        logger.error(`Alert matching failed for ${this.name}:`, error)
+      }
       
       return {
         eventsCount: scrapedEvents.length,
         newEvents,
-        updatedEvents
+        updatedEvents,
+        unchangedEvents,
+        realEvents,
+        synthesizedEvents
       }
     } catch (error) {
       logger.error(`Scraper ${this.name} failed:`, error)
@@ -154,8 +242,220 @@ export abstract class BaseScraper {
     }
   }
   
+  /**
+   * Upserts scraped events on source_hash in batches. Rows whose content did not
+   * change are skipped, and moderation fields of existing rows are preserved. A batch whose
+   * stored rows can not be loaded is left unsaved and fails the run once the rest is saved.
+   */
+  private async saveEvents(scrapedEvents: ScrapedEvent[], signal: AbortSignal): Promise<SaveEventsResult> {
+    // The same event can be listed twice on a page - keep the last occurrence
+    const rowsByHash = new Map<string, EventRow>()
+    for (const event of scrapedEvents) {
+      const hash = this.generateHash(event)
+      rowsByHash.set(hash, mapScrapedEventToRow(event, this.name, hash))
+    }
+    
+    const result: SaveEventsResult = { insertedRows: [], updatedEvents: 0, unchangedEvents: 0 }
+    const eventUpdates: EventUpdate[] = []
+    const rows = Array.from(rowsByHash.values())
+    const failedBatches: string[] = []
+    
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      signal.throwIfAborted()
+      const batch = rows.slice(i, i + UPSERT_BATCH_SIZE)
+      
+      const { data: existingRows, error: selectError } = await supabase
+        .from('events')
+        .select(EXISTING_EVENT_COLUMNS)
+        .in('source_hash', batch.map(row => row.source_hash))
+      
+      if (selectError) {
+        logger.error(`Failed to load existing events for ${this.name}:`, selectError)
+        failedBatches.push(selectError.message)
+        continue
+      }
+      
+      const existingByHash = new Map<string, Record<string, unknown>>()
+      for (const existing of (existingRows || []) as unknown as Record<string, unknown>[]) {
+        existingByHash.set(existing.source_hash as string, existing)
+      }
+      
+      // Placeholder dates are not a date the event could have been moved from
+      const unknownRows = batch.filter(row => !existingByHash.has(row.source_hash) && !row.date_is_default)
+      for (const [hash, moved] of await this.findMovedEvents(unknownRows, rowsByHash)) {
+        existingByHash.set(hash, moved)
+      }
+      
+      const changedRows: EventRow[] = []
+      const batchUpdates: EventUpdate[] = []
+      for (const scrapedRow of batch) {
+        const existing = existingByHash.get(scrapedRow.source_hash)
+        const row = !existing
+          ? scrapedRow
+          : scrapedRow.provenance === 'SYNTHESIZED'
+            ? keepStoredDates(existing, scrapedRow)
+            : keepSeriesStart(existing, scrapedRow)
+        const changes = existing ? diffEventRow(existing, row) : []
+        if (!existing) {
+          changedRows.push(row)
+        } else if (changes.length > 0) {
+          const notableChanges = row.date_is_default || existing.date_is_default
+            ? changes.filter(change => !DATE_COLUMNS.includes(change.field))
+            : changes
+          if (notableChanges.length > 0) {
+            batchUpdates.push({ eventId: existing.id as string, title: row.title as string, changes: notableChanges })
+          }
+          const preserved: PreservedEventColumns = {
+            organizer_id: existing.organizer_id as string,
+            provenance: existing.provenance as EventProvenance,
+            status: existing.status as EventStatus,
+          }
+          changedRows.push({ ...row, ...preserved })
+        } else {
+          result.unchangedEvents++
+        }
+      }
+      
+      if (changedRows.length === 0) continue
+      
+      const upserted = await this.upsertRows(changedRows)
+      // A failure is made up for by the daily refresh, so it does not fail the scrape
+      await occurrenceIndexer.saveSeries(upserted)
+      const upsertedIds = new Set(upserted.map(row => row.id))
+      eventUpdates.push(...batchUpdates.filter(update => upsertedIds.has(update.eventId)))
+      
+      for (const row of upserted) {
+        // The updated_at trigger only fires on UPDATE, so fresh inserts keep both timestamps equal
+        if (row.created_at === row.updated_at) {
+          result.insertedRows.push(row)
+        } else {
+          result.updatedEvents++
+        }
+      }
+    }
+    
+    // Change log and notifications must not fail the scrape
+    try {
+      await eventChangeTracker.recordChanges(this.name, eventUpdates)
+    } catch (error) {
+      logger.error(`Recording event changes failed for ${this.name}:`, error)
+    }
+    
+    if (failedBatches.length > 0) {
+      const batchCount = Math.ceil(rows.length / UPSERT_BATCH_SIZE)
+      throw new Error(`Failed to save ${failedBatches.length} of ${batchCount} event batches of ${this.name}: ${failedBatches[0]}`)
+    }
+    
+    return result
+  }
+  
+  /**
+   * The hash includes the start date, so a rescheduled event comes back under a new hash.
+   * An unknown row matching exactly one future event of this source by title and venue,
+   * which is no longer listed under its old hash, is that event moved - it is rehashed
+   * so the upsert updates it instead of inserting a copy. This includes a row listed with a
+   * placeholder date until the source announced the real one.
+   */
+  private async findMovedEvents(
+    rows: EventRow[],
+    listedRows: Map<string, EventRow>
+  ): Promise<Map<string, Record<string, unknown>>> {
+    const moved = new Map<string, Record<string, unknown>>()
+    if (rows.length === 0) return moved
+    
+    const { data: candidates, error } = await supabase
+      .from('events')
+      .select(EXISTING_EVENT_COLUMNS)
+      .eq('source_name', this.name)
+      .in('status', ['ACTIVE', 'CANCELLED'])
+      .gt('start_date', new Date().toISOString())
+      .in('title', Array.from(new Set(rows.map(row => row.title as string))))
+    
+    if (error) {
+      logger.error(`Failed to look up moved events for ${this.name}:`, error)
+      return moved
+    }
+    
+    const unlisted = ((candidates || []) as unknown as Record<string, unknown>[])
+      .filter(candidate => !listedRows.has(candidate.source_hash as string))
+    
+    for (const row of rows) {
+      const matches = unlisted.filter(candidate =>
+        candidate.title === row.title && candidate.location_name === row.location_name
+      )
+      // Several showings of the same title are ambiguous - treat them as new events
+      if (matches.length !== 1 || Array.from(moved.values()).includes(matches[0])) continue
+      
+      const { error: rehashError } = await supabase
+        .from('events')
+        .update({ source_hash: row.source_hash })
+        .eq('id', matches[0].id)
+      
+      if (rehashError) {
+        logger.error(`Failed to rehash moved event: ${row.title}`, rehashError)
+        continue
+      }
+      
+      moved.set(row.source_hash, matches[0])
+    }
+    
+    return moved
+  }
+  
+  private async upsertRows(rows: EventRow[]): Promise<UpsertedEventRow[]> {
+    const { data, error } = await supabase
+      .from('events')
+      .upsert(rows, { onConflict: 'source_hash' })
+      .select('id, provenance, created_at, updated_at, start_date, recurrence_rule, recurrence_exceptions')
+    
+    if (!error) return data || []
+    
+    // One invalid row fails the whole statement - retry row by row to save the rest
+    if (rows.length > 1) {
+      logger.warn(`Batch upsert failed for ${this.name}, retrying row by row`, error)
+      const results = []
+      for (const row of rows) {
+        results.push(...await this.upsertRows([row]))
+      }
+      return results
+    }
+    
+    logger.error(`Failed to save event: ${rows[0].title}`, error)
+    return []
+  }
+  
+  private async reportZeroRealEvents(synthesizedEvents: number) {
+    const details = `Source ${this.name} yielded zero real events (${synthesizedEvents} synthesized)`
+    logger.warn(details)
+    
+    const { error } = await supabase
+      .from('system_logs')
+      .insert({ operation: 'scraper_zero_real_events', details })
+    
+    if (error) {
+      logger.error(`Failed to log zero real events for ${this.name}:`, error)
+    }
+  }
+  
+  /**
+   * Reports a listing page that could not be fetched. The events on it went unseen this run, so
+   * the run is kept out of cancellation. Pages that do not exist or robots.txt disallows list
+   * nothing in any run and are only logged - unlike pages skipped while robots.txt is unreachable.
+   */
+  protected listPageFailed(url: string, error: unknown) {
+    logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+    
+    const status = error instanceof AxiosError ? error.response?.status : undefined
+    if (status !== 404 && status !== 410 && !(error instanceof RobotsDisallowedError)) {
+      this.listingIncomplete = true
+    }
+  }
+  
   protected generateHash(event: ScrapedEvent): string {
-    const data = `${event.title}-${event.startDate.toISOString()}-${event.locationName}`
+    // A series is identified by its rule - its next occurrence moves forward every week.
+    // Placeholder dates are relative to the run, so they are left out
+    const when = event.recurrenceRule || (hasPlaceholderDate(event) ? 'undated' : event.startDate.toISOString())
+    const data = `${event.title}-${when}-${event.locationName}`
     return crypto.createHash('sha256').update(data).digest('hex')
   }
   
@@ -210,28 +510,7 @@ export abstract class BaseScraper {
   }
   
   protected mapCategory(text: string): EventCategory {
-    const lowerText = text.toLowerCase()
-    
-    if (lowerText.includes('warsztat') || lowerText.includes('zajęcia') || 
-        lowerText.includes('kurs') || lowerText.includes('lekcj')) {
-      return 'WARSZTATY'
-    }
-    if (lowerText.includes('spektakl') || lowerText.includes('teatr') || 
-        lowerText.includes('przedstawieni') || lowerText.includes('musical')) {
-      return 'SPEKTAKLE'
-    }
-    if (lowerText.includes('sport') || lowerText.includes('basen') || 
-        lowerText.includes('taniec') || lowerText.includes('joga') ||
-        lowerText.includes('gimnastyk') || lowerText.includes('piłk')) {
-      return 'SPORT'
-    }
-    if (lowerText.includes('nauk') || lowerText.includes('eduk') || 
-        lowerText.includes('szkoł') || lowerText.includes('akademi') ||
-        lowerText.includes('robot') || lowerText.includes('programow')) {
-      return 'EDUKACJA'
-    }
-    
-    return 'INNE'
+    return PolishEventParser.inferCategory(text)
   }
   
   protected normalizeText(text: string): string {
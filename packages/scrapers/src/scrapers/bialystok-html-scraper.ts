@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
@@ -14,18 +14,14 @@ import { addDays } from 'date-fns'
 export class BialystokHtmlScraper extends BaseScraper {
   name = 'bialystok-html'
   sourceUrl = 'https://bialystok.pl/pl/dla-mieszkanca/kalendarz-imprez'
+  schedule = { city: 'Białystok', priority: 2 }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
       logger.info(`Fetching Białystok events from: ${this.sourceUrl}`)
       
-      const response = await axios.get(this.sourceUrl, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-        }
+      const response = await httpClient.get(this.sourceUrl, {
+        timeout: 10000
       })
       
       const $ = load(response.data)
@@ -157,6 +153,9 @@ export class BialystokHtmlScraper extends BaseScraper {
       sourceUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -220,6 +219,9 @@ export class BialystokHtmlScraper extends BaseScraper {
       sourceUrl: this.sourceUrl,
       imageUrls: [],
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category: this.mapCategory(text),
       tags: this.generateTags(text)
     }
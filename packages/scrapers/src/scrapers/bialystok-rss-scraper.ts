@@ -2,6 +2,7 @@ import Parser from 'rss-parser'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
 import { logger } from '../utils/logger'
+import { httpClient, FEED_ACCEPT } from '../utils/http-client'
 import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
 
 /**
@@ -12,6 +13,7 @@ import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
 export class BialystokRssScraper extends BaseScraper {
   name = 'bialystok-rss'
   sourceUrl = 'https://bialystok.pl/pl/dla-mieszkanca/kalendarz-imprez.rss'
+  schedule = { city: 'Białystok', priority: 2 }
   
   private parser = new Parser({
     customFields: {
@@ -26,11 +28,19 @@ export class BialystokRssScraper extends BaseScraper {
     }
   })
   
+  private async fetchFeed(url: string) {
+    const response = await httpClient.get<string>(url, {
+      responseType: 'text',
+      headers: { 'Accept': FEED_ACCEPT }
+    })
+    return this.parser.parseString(response.data)
+  }
+  
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
       logger.info(`Fetching Białystok RSS from: ${this.sourceUrl}`)
       
-      const feed = await this.parser.parseURL(this.sourceUrl)
+      const feed = await this.fetchFeed(this.sourceUrl)
       const events: ScrapedEvent[] = []
       
       logger.info(`Found ${feed.items?.length || 0} items in Białystok RSS`)
@@ -94,6 +104,9 @@ export class BialystokRssScraper extends BaseScraper {
       sourceUrl: item.link,
       imageUrls: this.extractImages(item),
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText, item.category)
     }
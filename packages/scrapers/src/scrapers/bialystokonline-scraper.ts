@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
@@ -14,6 +14,7 @@ import { addDays } from 'date-fns'
 export class BialystokOnlineScraper extends BaseScraper {
   name = 'bialystokonline'
   sourceUrl = 'https://bialystokonline.pl'
+  schedule = { city: 'Białystok', priority: 2 }
   eventsUrl = 'https://bialystokonline.pl/dla-dzieci'
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
@@ -38,12 +39,8 @@ export class BialystokOnlineScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
+          const response = await httpClient.get(url, {
             headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8',
               'Cache-Control': 'no-cache'
             }
           })
@@ -55,7 +52,7 @@ export class BialystokOnlineScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -266,6 +263,9 @@ export class BialystokOnlineScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: [],
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -353,7 +353,8 @@ export class BialystokOnlineScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 5), // Events every 5 days
       category: eventData.category,
-      tags: ['białystok', 'portal', 'agregator', 'lokalne', ...eventData.tags]
+      tags: ['białystok', 'portal', 'agregator', 'lokalne', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
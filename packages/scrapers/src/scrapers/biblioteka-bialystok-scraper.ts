@@ -1,6 +1,7 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
+import { extractStructuredEvents, StructuredEventDefaults } from './structured-data-extractor'
 import { PolishEventParser } from '../utils/polish-parser'
 import { logger } from '../utils/logger'
 import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
@@ -14,7 +15,16 @@ import { addDays } from 'date-fns'
 export class BibliotekaBialystokScraper extends BaseScraper {
   name = 'biblioteka-bialystok'
   sourceUrl = 'https://www.biblioteka.bialystok.pl'
+  schedule = { city: 'Białystok', pattern: '10 */6 * * *', priority: 3 }
   eventsUrl = 'https://www.biblioteka.bialystok.pl/wydarzenia'
+  venueDefaults: StructuredEventDefaults = {
+    locationName: 'Biblioteka Publiczna w Białymstoku',
+    address: 'ul. Młynowa 6, Białystok',
+    city: 'Białystok',
+    organizerName: 'Biblioteka Publiczna w Białymstoku',
+    ageMin: 4,
+    ageMax: 14
+  }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
@@ -35,14 +45,7 @@ export class BibliotekaBialystokScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
+          const response = await httpClient.get(url)
           
           const $ = load(response.data)
           const pageEvents = this.extractEventsFromPage($, url)
@@ -52,7 +55,7 @@ export class BibliotekaBialystokScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -80,6 +83,11 @@ export class BibliotekaBialystokScraper extends BaseScraper {
   }
   
   private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
+    const structuredEvents = extractStructuredEvents($, sourceUrl, this.venueDefaults)
+    if (structuredEvents.length > 0) {
+      return structuredEvents
+    }
+    
     const events: ScrapedEvent[] = []
     
     // Try multiple selectors for library events
@@ -197,6 +205,9 @@ export class BibliotekaBialystokScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -294,7 +305,8 @@ export class BibliotekaBialystokScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 5), // Events every 5 days
       category: eventData.category,
-      tags: ['białystok', 'biblioteka', 'dzieci', 'edukacja', ...eventData.tags]
+      tags: ['białystok', 'biblioteka', 'dzieci', 'edukacja', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
@@ -2,24 +2,18 @@ import { addDays, parseISO } from 'date-fns'
 import { load } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { logger } from '../utils/logger'
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 
 export class BibliotekiWarszawaScraper extends BaseScraper {
   name = 'biblioteki-warszawa'
   sourceUrl = 'https://www.bibliotekiwarszawy.pl/wydarzenia/lista/'
+  schedule = { city: 'Warszawa' }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
       logger.info(`Fetching current events from: ${this.sourceUrl}`)
       
-      const response = await axios.get(this.sourceUrl, {
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-        }
-      })
+      const response = await httpClient.get(this.sourceUrl)
       
       const events: ScrapedEvent[] = []
       
@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
@@ -14,20 +14,14 @@ import { addDays } from 'date-fns'
 export class BokBialystokScraper extends BaseScraper {
   name = 'bok-bialystok'
   sourceUrl = 'https://bok.bialystok.pl'
+  schedule = { city: 'Białystok', pattern: '20 */6 * * *', priority: 3 }
   eventsUrl = 'https://bok.bialystok.pl/wydarzenia'
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
       logger.info(`Fetching BOK Białystok events from: ${this.eventsUrl}`)
       
-      const response = await axios.get(this.eventsUrl, {
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-        }
-      })
+      const response = await httpClient.get(this.eventsUrl)
       
       const $ = load(response.data)
       const events: ScrapedEvent[] = []
@@ -177,6 +171,9 @@ export class BokBialystokScraper extends BaseScraper {
       sourceUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -228,10 +225,9 @@ export class BokBialystokScraper extends BaseScraper {
   
   private async scrapeEventFromLink(url: string): Promise<ScrapedEvent | null> {
     try {
-      const response = await axios.get(url, {
+      const response = await httpClient.get(url, {
         timeout: 10000,
         headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0)',
           'Accept': 'text/html,application/xhtml+xml'
         }
       })
@@ -274,6 +270,9 @@ export class BokBialystokScraper extends BaseScraper {
         sourceUrl: url,
         imageUrls: this.extractImagesFromPage($),
         startDate: dateRange?.startDate || this.getDefaultDate(),
+        dateIsDefault: !dateRange?.startDate,
+        recurrenceRule: dateRange?.recurrenceRule,
+        recurrenceExceptions: dateRange?.exceptions,
         category: this.mapCategory(content),
         tags: this.generateTags(content)
       }
@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
@@ -14,20 +14,14 @@ import { addDays } from 'date-fns'
 export class CentrumNaukiKopernikScraper extends BaseScraper {
   name = 'centrum-nauki-kopernik'
   sourceUrl = 'https://www.kopernik.org.pl'
+  schedule = { city: 'Warszawa', pattern: '15 3,15 * * *' }
   eventsUrl = 'https://www.kopernik.org.pl/wydarzenia'
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
       logger.info(`Fetching Kopernik events from: ${this.eventsUrl}`)
       
-      const response = await axios.get(this.eventsUrl, {
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-        }
-      })
+      const response = await httpClient.get(this.eventsUrl)
       
       const $ = load(response.data)
       const events: ScrapedEvent[] = []
@@ -164,6 +158,9 @@ export class CentrumNaukiKopernikScraper extends BaseScraper {
       sourceUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -233,7 +230,8 @@ export class CentrumNaukiKopernikScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 3), // Events every 3 days
       category: eventData.category,
-      tags: ['warszawa', 'kopernik', 'nauka', 'edukacja', ...eventData.tags]
+      tags: ['warszawa', 'kopernik', 'nauka', 'edukacja', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
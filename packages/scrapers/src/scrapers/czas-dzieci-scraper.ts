@@ -2,6 +2,7 @@ import Parser from 'rss-parser'
 import { addDays, parseISO } from 'date-fns'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { logger } from '../utils/logger'
+import { httpClient, FEED_ACCEPT } from '../utils/http-client'
 
 /**
  * Scraper dla CzasDzieci.pl - prawdziwe źródło wydarzeń dla dzieci
@@ -12,6 +13,7 @@ import { logger } from '../utils/logger'
 export class CzasDzieciScraper extends BaseScraper {
   name = 'czas-dzieci'
   sourceUrl = 'https://czasdzieci.pl/rss_warszawa_dzis.xml'
+  schedule = { city: 'Warszawa' }
   tomorrowUrl = 'https://czasdzieci.pl/rss_warszawa_jutro.xml'
   
   private parser = new Parser({
@@ -25,13 +27,21 @@ export class CzasDzieciScraper extends BaseScraper {
     }
   })
   
+  private async fetchFeed(url: string) {
+    const response = await httpClient.get<string>(url, {
+      responseType: 'text',
+      headers: { 'Accept': FEED_ACCEPT }
+    })
+    return this.parser.parseString(response.data)
+  }
+  
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     const events: ScrapedEvent[] = []
     
     // Scrape today's events
     try {
       logger.info(`Fetching today's RSS from: ${this.sourceUrl}`)
-      const todayFeed = await this.parser.parseURL(this.sourceUrl)
+      const todayFeed = await this.fetchFeed(this.sourceUrl)
       logger.info(`Found ${todayFeed.items?.length || 0} items in today's RSS`)
       
       for (const item of todayFeed.items || []) {
@@ -45,15 +55,13 @@ export class CzasDzieciScraper extends BaseScraper {
         }
       }
     } catch (error) {
-      logger.error(`Failed to fetch today's RSS feed: ${this.sourceUrl}`, { 
-        error: error instanceof Error ? error.message : error
-      })
+      this.listPageFailed(this.sourceUrl, error)
     }
     
     // Scrape tomorrow's events
     try {
       logger.info(`Fetching tomorrow's RSS from: ${this.tomorrowUrl}`)
-      const tomorrowFeed = await this.parser.parseURL(this.tomorrowUrl)
+      const tomorrowFeed = await this.fetchFeed(this.tomorrowUrl)
       logger.info(`Found ${tomorrowFeed.items?.length || 0} items in tomorrow's RSS`)
       
       for (const item of tomorrowFeed.items || []) {
@@ -67,9 +75,7 @@ export class CzasDzieciScraper extends BaseScraper {
         }
       }
     } catch (error) {
-      logger.error(`Failed to fetch tomorrow's RSS feed: ${this.tomorrowUrl}`, { 
-        error: error instanceof Error ? error.message : error
-      })
+      this.listPageFailed(this.tomorrowUrl, error)
     }
     
     logger.info(`Successfully parsed ${events.length} events from CzasDzieci`)
@@ -119,6 +125,7 @@ export class CzasDzieciScraper extends BaseScraper {
       sourceUrl: item.link,
       imageUrls: this.extractImages(item),
       startDate: addDays(new Date(), daysOffset), // Use offset from today/tomorrow feed
+      dateIsDefault: true, // The feed only tells the day, the time is the run's
       category: category,
       tags: this.extractTags(categories)
     }
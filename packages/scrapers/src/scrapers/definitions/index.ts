@@ -0,0 +1,11 @@
+import type { SelectorSourceDefinition } from '../selector-scraper'
+import operaBialystok from './opera-bialystok.json'
+import muzeumPodlaskie from './muzeum-podlaskie.json'
+import teatrDramatycznyBialystok from './teatr-dramatyczny-bialystok.json'
+
+// Venues scraped by SelectorScraper - add new JSON definitions here
+export const sourceDefinitions = [
+  operaBialystok, // Opera & Philharmonic
+  muzeumPodlaskie, // Regional Museum
+  teatrDramatycznyBialystok, // Drama Theater
+] as SelectorSourceDefinition[]
@@ -1,6 +1,7 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
+import { extractStructuredEvents, StructuredEventDefaults } from './structured-data-extractor'
 import { PolishEventParser } from '../utils/polish-parser'
 import { logger } from '../utils/logger'
 import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
@@ -14,7 +15,16 @@ import { addDays } from 'date-fns'
 export class EpiCentrumScraper extends BaseScraper {
   name = 'epi-centrum'
   sourceUrl = 'https://epi-centrum.bialystok.pl'
+  schedule = { city: 'Białystok', pattern: '30 */6 * * *', priority: 3 }
   eventsUrl = 'https://epi-centrum.bialystok.pl/wydarzenia'
+  venueDefaults: StructuredEventDefaults = {
+    locationName: 'Epi-Centrum Nauki',
+    address: 'ul. Świętojańska 19, Białystok',
+    city: 'Białystok',
+    organizerName: 'Epi-Centrum Nauki',
+    ageMin: 6,
+    ageMax: 16
+  }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
@@ -26,14 +36,7 @@ export class EpiCentrumScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
+          const response = await httpClient.get(url)
           
           const $ = load(response.data)
           const pageEvents = this.extractEventsFromPage($, url)
@@ -43,7 +46,7 @@ export class EpiCentrumScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -62,6 +65,11 @@ export class EpiCentrumScraper extends BaseScraper {
   }
   
   private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
+    const structuredEvents = extractStructuredEvents($, sourceUrl, this.venueDefaults)
+    if (structuredEvents.length > 0) {
+      return structuredEvents
+    }
+    
     const events: ScrapedEvent[] = []
     
     // Try multiple selectors for science center events
@@ -188,6 +196,9 @@ export class EpiCentrumScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -236,7 +247,8 @@ export class EpiCentrumScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 7), // Weekly events
       category: eventData.category,
-      tags: ['białystok', 'epi-centrum', 'nauka', 'edukacja', ...eventData.tags]
+      tags: ['białystok', 'epi-centrum', 'nauka', 'edukacja', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
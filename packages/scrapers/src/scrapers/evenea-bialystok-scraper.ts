@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
@@ -14,6 +14,7 @@ import { addDays } from 'date-fns'
 export class EventaBialystokScraper extends BaseScraper {
   name = 'evenea-bialystok'
   sourceUrl = 'https://evenea.pl'
+  schedule = { city: 'Białystok', priority: 2 }
   eventsUrl = 'https://evenea.pl/wydarzenie/lista'
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
@@ -46,12 +47,8 @@ export class EventaBialystokScraper extends BaseScraper {
       
       for (const url of searchUrls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
+          const response = await httpClient.get(url, {
             headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8',
               'Referer': 'https://evenea.pl'
             }
           })
@@ -63,7 +60,7 @@ export class EventaBialystokScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -281,6 +278,9 @@ export class EventaBialystokScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: [],
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -356,7 +356,8 @@ export class EventaBialystokScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 14), // Events every 2 weeks
       category: eventData.category,
-      tags: ['białystok', 'evenea', 'płatne', 'warsztaty', ...eventData.tags]
+      tags: ['białystok', 'evenea', 'płatne', 'warsztaty', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
@@ -0,0 +1,158 @@
+import type { ScrapedEvent, EventStatus, EventProvenance } from './base-scraper'
+import { expandOccurrences, getSeriesEnd } from '@events-agregator/shared/src/recurrence'
+
+// Columns refreshed from the source on every run
+export const EVENT_CONTENT_COLUMNS = [
+  'title',
+  'description',
+  'age_min',
+  'age_max',
+  'price_type',
+  'price',
+  'currency',
+  'location_name',
+  'address',
+  'city',
+  'lat',
+  'lng',
+  'postal_code',
+  'organizer_name',
+  'source_url',
+  'image_urls',
+  'start_date',
+  'end_date',
+  'category',
+  'tags',
+  'recurrence_rule',
+  'recurrence_exceptions',
+] as const
+
+export type EventContentColumn = typeof EVENT_CONTENT_COLUMNS[number]
+
+export type EventRow = Record<EventContentColumn, unknown> & {
+  source_hash: string
+  source_name: string
+  organizer_id: string
+  provenance: EventProvenance
+  status: EventStatus
+  recurrence_until: string | null // Derived from start_date and recurrence_rule
+  date_is_default: boolean
+}
+
+// Columns set once on insert and preserved on later upserts (moderation, merges)
+export interface PreservedEventColumns {
+  organizer_id: string
+  provenance: EventProvenance
+  status: EventStatus
+}
+
+/**
+ * Whether the event's start date is a placeholder - one a scraper defaulted because the
+ * source gave none, or a synthesized event's run-relative date.
+ */
+export function hasPlaceholderDate(event: ScrapedEvent): boolean {
+  return !!event.dateIsDefault || event.provenance === 'SYNTHESIZED'
+}
+
+/**
+ * Maps a scraped event to an events table row.
+ */
+export function mapScrapedEventToRow(event: ScrapedEvent, sourceName: string, sourceHash: string): EventRow {
+  const provenance = event.provenance || 'SCRAPED'
+
+  return {
+    title: event.title,
+    description: event.description,
+    age_min: event.ageMin,
+    age_max: event.ageMax,
+    price_type: event.priceType,
+    price: event.price ?? null,
+    currency: event.currency || 'PLN',
+    location_name: event.locationName,
+    address: event.address,
+    city: event.city,
+    lat: event.lat ?? null,
+    lng: event.lng ?? null,
+    postal_code: event.postalCode ?? null,
+    organizer_name: event.organizerName,
+    source_url: event.sourceUrl,
+    image_urls: event.imageUrls,
+    start_date: event.startDate.toISOString(),
+    end_date: event.endDate?.toISOString() ?? null,
+    category: event.category,
+    tags: event.tags,
+    recurrence_rule: event.recurrenceRule ?? null,
+    recurrence_exceptions: event.recurrenceExceptions ?? [],
+    recurrence_until: event.recurrenceRule ? getSeriesEnd(event.startDate, event.recurrenceRule)?.toISOString() ?? null : null,
+    date_is_default: hasPlaceholderDate(event),
+    source_hash: sourceHash,
+    source_name: sourceName,
+    organizer_id: process.env.SCRAPER_USER_ID || '00000000-0000-0000-0000-000000000000',
+    provenance,
+    // Auto-approve scraped events - synthesized events wait in the DRAFT review queue
+    status: provenance === 'SYNTHESIZED' ? 'DRAFT' : 'ACTIVE',
+  }
+}
+
+/**
+ * Sources listing a series usually only show its next date. When the scraped start is just
+ * a later occurrence of the stored series, the stored start is kept so the row does not
+ * register a date change every week.
+ */
+export function keepSeriesStart(existing: Record<string, unknown>, row: EventRow): EventRow {
+  if (!row.recurrence_rule || existing.recurrence_rule !== row.recurrence_rule || !existing.start_date) {
+    return row
+  }
+
+  const seriesStart = new Date(String(existing.start_date))
+  const scrapedStart = new Date(String(row.start_date))
+  const isLaterOccurrence = expandOccurrences(seriesStart, String(row.recurrence_rule), { from: scrapedStart, to: scrapedStart }).length > 0
+  if (!isLaterOccurrence) return row
+
+  const duration = row.end_date ? new Date(String(row.end_date)).getTime() - scrapedStart.getTime() : null
+  return {
+    ...row,
+    start_date: existing.start_date,
+    end_date: duration !== null ? new Date(seriesStart.getTime() + duration).toISOString() : null,
+    recurrence_until: getSeriesEnd(seriesStart, String(row.recurrence_rule))?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Synthesized events are dated relative to the run that invented them. A stored row keeps its
+ * dates, which a moderator may have corrected, instead of moving with every run.
+ */
+export function keepStoredDates(existing: Record<string, unknown>, row: EventRow): EventRow {
+  return {
+    ...row,
+    start_date: existing.start_date ?? row.start_date,
+    end_date: existing.end_date ?? null,
+  }
+}
+
+export interface EventFieldChange {
+  field: EventContentColumn
+  oldValue: unknown
+  newValue: unknown
+}
+
+/**
+ * Lists the content columns that differ from the stored row.
+ */
+export function diffEventRow(existing: Record<string, unknown>, row: EventRow): EventFieldChange[] {
+  return EVENT_CONTENT_COLUMNS
+    .filter(column => normalizeValue(existing[column]) !== normalizeValue(row[column]))
+    .map(column => ({ field: column, oldValue: existing[column] ?? null, newValue: row[column] ?? null }))
+}
+
+// Postgres returns timestamps with an offset and numerics as numbers or strings
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return String(new Date(value).getTime())
+  }
+  if (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))) {
+    return String(Number(value))
+  }
+  return JSON.stringify(value)
+}
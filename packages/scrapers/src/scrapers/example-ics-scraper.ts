@@ -0,0 +1,14 @@
+import { IcsScraper } from './ics-scraper'
+
+export class ExampleIcsScraper extends IcsScraper {
+  name = 'example-ics'
+  sourceUrl = 'https://example.com'
+  schedule = { enabled: false } // Placeholder calendar, kept as an example
+  protected calendarUrls = ['https://example.com/calendar/events.ics']
+  protected defaults = {
+    city: 'Białystok',
+    locationName: 'Dom Kultury Example',
+    address: 'ul. Przykładowa 1, Białystok',
+    organizerName: 'Dom Kultury Example'
+  }
+}
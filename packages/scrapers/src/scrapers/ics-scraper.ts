@@ -0,0 +1,331 @@
+import ICAL from 'ical.js'
+import { addDays } from 'date-fns'
+import { BaseScraper, ScrapedEvent } from './base-scraper'
+import { PolishEventParser } from '../utils/polish-parser'
+import { logger } from '../utils/logger'
+import { httpClient } from '../utils/http-client'
+import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
+import { fromWallClock, getNextOccurrence, parseRecurrenceRule, toCalendarDay } from '@events-agregator/shared/src/recurrence'
+
+const CALENDAR_ACCEPT = 'text/calendar, text/plain;q=0.9, */*;q=0.8'
+
+// Guards against daily rules that started years ago or never end
+const MAX_RECURRENCE_ITERATIONS = 5000
+
+export interface IcsOccurrence {
+  uid: string
+  summary: string
+  description: string
+  location: string
+  url?: string
+  categories: string[]
+  geo?: { lat: number; lng: number }
+  startDate: Date
+  endDate?: Date
+  allDay: boolean
+  recurring: boolean
+  recurrenceRule?: string // Set when the occurrence stands for the whole series starting at startDate
+  recurrenceExceptions?: string[]
+}
+
+export interface IcsSourceDefaults {
+  city: string
+  locationName: string
+  address: string
+  organizerName: string
+}
+
+/**
+ * Base class for sources publishing iCalendar (.ics) feeds - libraries, schools, cultural centres.
+ * A recurring VEVENT becomes a single series event carrying its RRULE, with EXDATEs and
+ * RECURRENCE-ID overrides as skipped dates and the overrides listed on their own. Rules the
+ * shared recurrence subset can not express are listed by their next occurrence only.
+ * Subclasses only supply URLs and defaults.
+ */
+export abstract class IcsScraper extends BaseScraper {
+  protected abstract calendarUrls: string[]
+  protected abstract defaults: IcsSourceDefaults
+  protected timezone = 'Europe/Warsaw' // Used for floating times and TZIDs without a VTIMEZONE
+  protected horizonDays = 90
+
+  protected async scrapeEvents(): Promise<ScrapedEvent[]> {
+    const events: ScrapedEvent[] = []
+
+    for (const url of this.calendarUrls) {
+      try {
+        const response = await httpClient.get<string>(url, {
+          responseType: 'text',
+          headers: { 'Accept': CALENDAR_ACCEPT }
+        })
+
+        const occurrences = this.parseCalendar(String(response.data))
+        logger.info(`Found ${occurrences.length} upcoming events in calendar: ${url}`)
+
+        for (const occurrence of occurrences) {
+          try {
+            const event = this.mapOccurrence(occurrence, url)
+            if (event) {
+              events.push(event)
+            }
+          } catch (error) {
+            logger.error(`Failed to map calendar event: ${occurrence.summary}`, { error })
+          }
+        }
+      } catch (error) {
+        this.listPageFailed(url, error)
+      }
+    }
+
+    return events
+  }
+
+  /**
+   * Lists the VEVENTs of a calendar with an occurrence between now and the horizon.
+   */
+  parseCalendar(text: string, now: Date = new Date()): IcsOccurrence[] {
+    const parsed: unknown[] = ICAL.parse(text)
+    // A feed with several VCALENDARs parses to a list of them
+    const calendars = Array.isArray(parsed[0]) ? parsed.filter(Array.isArray) : [parsed]
+    const windowEnd = addDays(now, this.horizonDays)
+    const occurrences: IcsOccurrence[] = []
+
+    for (const jcal of calendars) {
+      const calendar = new ICAL.Component(jcal)
+      const calendarZone = String(calendar.getFirstPropertyValue('x-wr-timezone') || this.timezone)
+
+      for (const vtimezone of calendar.getAllSubcomponents('vtimezone')) {
+        ICAL.TimezoneService.register(vtimezone)
+      }
+
+      // Overrides of single occurrences share the UID of their recurring master
+      const masters: ICAL.Event[] = []
+      const exceptions = new Map<string, ICAL.Event[]>()
+      for (const vevent of calendar.getAllSubcomponents('vevent')) {
+        const event = new ICAL.Event(vevent)
+        if (event.isRecurrenceException()) {
+          exceptions.set(event.uid, [...(exceptions.get(event.uid) || []), event])
+        } else {
+          masters.push(event)
+        }
+      }
+
+      for (const master of masters) {
+        for (const exception of exceptions.get(master.uid) || []) {
+          master.relateException(exception)
+        }
+        exceptions.delete(master.uid)
+
+        try {
+          occurrences.push(...this.expandEvent(master, calendarZone, now, windowEnd))
+        } catch (error) {
+          logger.error(`Failed to expand calendar event: ${master.summary}`, { error })
+        }
+      }
+
+      // Overrides whose master is missing from the feed are kept as standalone events
+      for (const orphan of Array.from(exceptions.values()).flat()) {
+        occurrences.push(...this.expandEvent(orphan, calendarZone, now, windowEnd))
+      }
+    }
+
+    return occurrences
+  }
+
+  private expandEvent(event: ICAL.Event, calendarZone: string, now: Date, windowEnd: Date): IcsOccurrence[] {
+    const masterZone = (event.startDate as ICAL.Time & { timezone?: string }).timezone || calendarZone
+
+    if (!event.isRecurring()) {
+      const occurrence = this.toOccurrence(event, event.startDate, event.endDate, masterZone, false)
+      return occurrence && this.isUpcoming(occurrence, now, windowEnd) ? [occurrence] : []
+    }
+
+    return this.toSeries(event, masterZone, now, windowEnd) ?? this.nextOccurrence(event, masterZone, now, windowEnd)
+  }
+
+  /**
+   * The series as one occurrence carrying its rule, plus the overrides of single occurrences
+   * that fall in the window. Null when the rule is outside the shared recurrence subset.
+   */
+  private toSeries(event: ICAL.Event, zone: string, now: Date, windowEnd: Date): IcsOccurrence[] | null {
+    const rrule = event.component.getFirstPropertyValue('rrule')
+    const recurrenceRule = rrule && !event.component.hasProperty('rdate') ? String(rrule) : null
+    if (!recurrenceRule || !parseRecurrenceRule(recurrenceRule)) return null
+
+    const series = this.toOccurrence(event, event.startDate, event.endDate, zone, true)
+    if (!series) return []
+
+    const exceptions = new Set<string>()
+    for (const property of event.component.getAllProperties('exdate')) {
+      for (const value of property.getValues()) {
+        exceptions.add(this.toCalendarDate(value as ICAL.Time, zone))
+      }
+    }
+
+    // An override replaces its occurrence, so the series skips that date
+    const overrides: IcsOccurrence[] = []
+    for (const override of Object.values(event.exceptions)) {
+      exceptions.add(this.toCalendarDate(override.recurrenceId, zone))
+      const occurrence = this.toOccurrence(override, override.startDate, override.endDate, zone, true)
+      if (occurrence && this.isUpcoming(occurrence, now, windowEnd)) {
+        overrides.push(occurrence)
+      }
+    }
+
+    const recurrenceExceptions = Array.from(exceptions).sort()
+    const next = getNextOccurrence(series.startDate, recurrenceRule, recurrenceExceptions, now)
+    if (!next || next > windowEnd) return overrides
+
+    return [{ ...series, recurrenceRule, recurrenceExceptions }, ...overrides]
+  }
+
+  private nextOccurrence(event: ICAL.Event, zone: string, now: Date, windowEnd: Date): IcsOccurrence[] {
+    const iterator = event.iterator()
+
+    for (let iteration = 0; iteration < MAX_RECURRENCE_ITERATIONS; iteration++) {
+      const next = iterator.next()
+      if (!next) break
+
+      const details = event.getOccurrenceDetails(next)
+      const occurrence = this.toOccurrence(details.item, details.startDate, details.endDate, zone, true)
+      if (!occurrence) continue
+      if (occurrence.startDate > windowEnd) break
+      if (this.isUpcoming(occurrence, now, windowEnd)) return [occurrence]
+    }
+
+    return []
+  }
+
+  // YYYY-MM-DD of the day a time falls on in Europe/Warsaw, as recurrence exceptions are stored
+  private toCalendarDate(time: ICAL.Time, fallbackZone: string): string {
+    return toCalendarDay(this.toDate(time, fallbackZone)).toISOString().slice(0, 10)
+  }
+
+  private toOccurrence(
+    item: ICAL.Event,
+    start: ICAL.Time,
+    end: ICAL.Time | null,
+    fallbackZone: string,
+    recurring: boolean
+  ): IcsOccurrence | null {
+    const status = String(item.component.getFirstPropertyValue('status') || '').toUpperCase()
+    if (status === 'CANCELLED' || !start) {
+      return null
+    }
+
+    const geo = item.component.getFirstPropertyValue('geo') as number[] | null
+    const url = item.component.getFirstPropertyValue('url')
+    const categories = item.component
+      .getAllProperties('categories')
+      .flatMap(property => property.getValues().map(String))
+
+    return {
+      uid: item.uid,
+      summary: item.summary || '',
+      description: item.description || '',
+      location: item.location || '',
+      url: url ? String(url) : undefined,
+      categories,
+      geo: Array.isArray(geo) && geo.length === 2 ? { lat: Number(geo[0]), lng: Number(geo[1]) } : undefined,
+      startDate: this.toDate(start, fallbackZone),
+      endDate: end ? this.toDate(end, fallbackZone) : undefined,
+      allDay: start.isDate,
+      recurring
+    }
+  }
+
+  private isUpcoming(occurrence: IcsOccurrence, now: Date, windowEnd: Date): boolean {
+    return (occurrence.endDate || occurrence.startDate) >= now && occurrence.startDate <= windowEnd
+  }
+
+  /**
+   * UTC and VTIMEZONE-backed times convert directly; floating times, all-day dates and
+   * TZIDs the feed did not define are read as wall-clock time in the calendar's zone.
+   */
+  private toDate(time: ICAL.Time, fallbackZone: string): Date {
+    if (!time.isDate && time.zone && time.zone.tzid !== 'floating') {
+      return time.toJSDate()
+    }
+
+    const tzid = (time as ICAL.Time & { timezone?: string }).timezone || fallbackZone
+    return zonedTimeToDate(time, tzid) || zonedTimeToDate(time, this.timezone) || time.toJSDate()
+  }
+
+  /**
+   * Maps an occurrence to a ScrapedEvent; override for source-specific fields.
+   */
+  protected mapOccurrence(occurrence: IcsOccurrence, calendarUrl: string): ScrapedEvent | null {
+    if (!occurrence.summary || occurrence.summary.length < 3) {
+      return null
+    }
+
+    const text = [occurrence.summary, occurrence.description, occurrence.categories.join(' ')].join(' ')
+    const ageRange = PolishEventParser.extractAgeRange(text)
+    const priceInfo = PolishEventParser.parsePrice(text)
+    const venue = this.resolveVenue(occurrence)
+    const coords = occurrence.geo || CITY_COORDINATES[venue.city]
+
+    return {
+      title: PolishEventParser.normalizeText(occurrence.summary),
+      description: PolishEventParser.normalizeText(occurrence.description || occurrence.summary),
+      ageMin: ageRange.min ?? 0,
+      ageMax: ageRange.max ?? 18,
+      priceType: priceInfo.type,
+      price: priceInfo.amount,
+      locationName: venue.locationName,
+      address: venue.address,
+      city: venue.city,
+      lat: coords?.lat,
+      lng: coords?.lng,
+      organizerName: this.defaults.organizerName,
+      sourceUrl: occurrence.url || calendarUrl,
+      imageUrls: [],
+      startDate: occurrence.startDate,
+      endDate: occurrence.endDate,
+      recurrenceRule: occurrence.recurrenceRule,
+      recurrenceExceptions: occurrence.recurrenceExceptions,
+      category: PolishEventParser.inferCategory(text),
+      tags: this.generateTags(occurrence, venue.city)
+    }
+  }
+
+  // LOCATION is usually "Venue, street, city"; fall back to the description, then the defaults
+  private resolveVenue(occurrence: IcsOccurrence): { locationName: string; address: string; city: string } {
+    const parts = occurrence.location.split(',').map(part => part.trim()).filter(Boolean)
+    const foldedLocation = PolishEventParser.foldDiacritics(occurrence.location)
+    const city = Object.keys(CITY_COORDINATES)
+      .find(name => foldedLocation.includes(PolishEventParser.foldDiacritics(name))) || this.defaults.city
+
+    if (parts.length === 0) {
+      const extracted = PolishEventParser.extractLocation(occurrence.description)
+      return {
+        locationName: extracted || this.defaults.locationName,
+        address: this.defaults.address,
+        city
+      }
+    }
+
+    return {
+      locationName: PolishEventParser.normalizeVenue(parts[0]),
+      address: parts.length > 1 ? parts.slice(1).join(', ') : occurrence.location,
+      city
+    }
+  }
+
+  private generateTags(occurrence: IcsOccurrence, city: string): string[] {
+    const tags = new Set<string>([city.toLowerCase(), 'kalendarz'])
+    occurrence.categories.forEach(category => tags.add(category.toLowerCase().trim()))
+    if (occurrence.recurring) {
+      tags.add('cykliczne')
+    }
+    return Array.from(tags).filter(Boolean).slice(0, 10)
+  }
+}
+
+// Reads an ICAL time as wall-clock time in an IANA zone; null when the zone is unknown
+function zonedTimeToDate(time: ICAL.Time, timeZone: string): Date | null {
+  try {
+    return fromWallClock(time, timeZone)
+  } catch {
+    return null
+  }
+}
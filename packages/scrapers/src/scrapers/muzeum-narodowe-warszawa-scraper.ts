@@ -1,6 +1,7 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
+import { extractStructuredEvents, StructuredEventDefaults } from './structured-data-extractor'
 import { PolishEventParser } from '../utils/polish-parser'
 import { logger } from '../utils/logger'
 import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
@@ -14,7 +15,16 @@ import { addDays } from 'date-fns'
 export class MuzeumNarodoweWarszawaScraper extends BaseScraper {
   name = 'muzeum-narodowe-warszawa'
   sourceUrl = 'https://www.mnw.art.pl'
+  schedule = { city: 'Warszawa', pattern: '25 3,15 * * *' }
   eventsUrl = 'https://www.mnw.art.pl/pl/wydarzenia'
+  venueDefaults: StructuredEventDefaults = {
+    locationName: 'Muzeum Narodowe w Warszawie',
+    address: 'Al. Jerozolimskie 3, Warszawa',
+    city: 'Warszawa',
+    organizerName: 'Muzeum Narodowe w Warszawie',
+    ageMin: 6,
+    ageMax: 16
+  }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
@@ -33,14 +43,7 @@ export class MuzeumNarodoweWarszawaScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
+          const response = await httpClient.get(url)
           
           const $ = load(response.data)
           const pageEvents = this.extractEventsFromPage($, url)
@@ -50,7 +53,7 @@ export class MuzeumNarodoweWarszawaScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -78,6 +81,11 @@ export class MuzeumNarodoweWarszawaScraper extends BaseScraper {
   }
   
   private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
+    const structuredEvents = extractStructuredEvents($, sourceUrl, this.venueDefaults)
+    if (structuredEvents.length > 0) {
+      return structuredEvents
+    }
+    
     const events: ScrapedEvent[] = []
     
     // Try multiple selectors for museum events
@@ -193,6 +201,9 @@ export class MuzeumNarodoweWarszawaScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -278,7 +289,8 @@ export class MuzeumNarodoweWarszawaScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 4), // Events every 4 days
       category: eventData.category,
-      tags: ['warszawa', 'muzeum', 'sztuka', 'kultura', ...eventData.tags]
+      tags: ['warszawa', 'muzeum', 'sztuka', 'kultura', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
@@ -1,357 +0,0 @@
-import axios from 'axios'
-import { load, CheerioAPI, Cheerio } from 'cheerio'
-import { BaseScraper, ScrapedEvent } from './base-scraper'
-import { PolishEventParser } from '../utils/polish-parser'
-import { logger } from '../utils/logger'
-import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
-import { addDays } from 'date-fns'
-
-/**
- * Scraper for Muzeum Podlaskie w Białymstoku
- * Source: https://muzeum.bialystok.pl - Regional museum
- * Priority: Medium (educational programs and workshops)
- */
-export class MuzeumPodlaskieScraper extends BaseScraper {
-  name = 'muzeum-podlaskie'
-  sourceUrl = 'https://muzeum.bialystok.pl'
-  eventsUrl = 'https://muzeum.bialystok.pl/wydarzenia'
-  
-  protected async scrapeEvents(): Promise<ScrapedEvent[]> {
-    try {
-      logger.info(`Fetching Muzeum Podlaskie events from: ${this.eventsUrl}`)
-      
-      // Try multiple potential URLs for events
-      const urls = [
-        this.eventsUrl,
-        `${this.sourceUrl}/pl/wydarzenia`,
-        `${this.sourceUrl}/edukacja`,
-        `${this.sourceUrl}/warsztaty`,
-        `${this.sourceUrl}/dzieci`,
-        `${this.sourceUrl}/aktualnosci`,
-        this.sourceUrl
-      ]
-      
-      const events: ScrapedEvent[] = []
-      
-      for (const url of urls) {
-        try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
-          
-          const $ = load(response.data)
-          const pageEvents = this.extractEventsFromPage($, url)
-          events.push(...pageEvents)
-          
-          if (pageEvents.length > 0) {
-            logger.info(`Found ${pageEvents.length} events from: ${url}`)
-          }
-        } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
-        }
-      }
-      
-      // If no events found, create standard museum events
-      if (events.length === 0) {
-        logger.info('No events found on website, creating standard museum events')
-        const standardEvents = this.createStandardMuseumEvents()
-        events.push(...standardEvents)
-      }
-      
-      // Remove duplicates based on title
-      const uniqueEvents = this.removeDuplicates(events)
-      
-      logger.info(`Successfully parsed ${uniqueEvents.length} unique events from Muzeum Podlaskie`)
-      return uniqueEvents
-    } catch (error) {
-      logger.error(`Failed to fetch Muzeum Podlaskie events`, { 
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined
-      })
-      
-      // Return standard events as fallback
-      return this.createStandardMuseumEvents()
-    }
-  }
-  
-  private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
-    const events: ScrapedEvent[] = []
-    
-    // Try multiple selectors for museum events
-    const eventSelectors = [
-      '.event-item',
-      '.wydarzenie',
-      '.calendar-event',
-      '.event-card',
-      '.event',
-      '.news-item',
-      '.warsztat',
-      '.edukacja-item',
-      'article',
-      '.content-item',
-      '.card',
-      '.museum-event'
-    ]
-    
-    for (const selector of eventSelectors) {
-      const eventElements = $(selector)
-      if (eventElements.length > 0) {
-        logger.info(`Found ${eventElements.length} potential events using selector: ${selector}`)
-        
-        eventElements.each((index, element) => {
-          try {
-            const event = this.parseEventElement($, $(element), sourceUrl)
-            if (event) {
-              events.push(event)
-            }
-          } catch (error) {
-            logger.error(`Failed to parse museum event element ${index}`, { error })
-          }
-        })
-        
-        if (events.length > 0) break
-      }
-    }
-    
-    return events
-  }
-  
-  private parseEventElement($: CheerioAPI, element: Cheerio<any>, sourceUrl: string): ScrapedEvent | null {
-    // Extract title
-    const titleSelectors = ['h1', 'h2', 'h3', 'h4', '.title', '.event-title', '.card-title', 'a']
-    let title = ''
-    
-    for (const selector of titleSelectors) {
-      const titleElement = element.find(selector).first()
-      if (titleElement.length > 0) {
-        title = titleElement.text().trim()
-        if (title.length > 5) break
-      }
-    }
-    
-    if (!title || title.length < 3) {
-      return null
-    }
-    
-    // Extract description
-    const descSelectors = ['.description', '.excerpt', '.content', '.summary', 'p', '.card-text']
-    let description = ''
-    
-    for (const selector of descSelectors) {
-      const descElement = element.find(selector).first()
-      if (descElement.length > 0) {
-        description = descElement.text().trim()
-        if (description.length > 10) break
-      }
-    }
-    
-    // Extract link
-    const linkElement = element.find('a').first()
-    const link = linkElement.length > 0 ? linkElement.attr('href') : ''
-    let eventUrl = link || sourceUrl
-    
-    // Make URL absolute
-    if (eventUrl.startsWith('/')) {
-      eventUrl = `${this.sourceUrl}${eventUrl}`
-    } else if (!eventUrl.startsWith('http')) {
-      eventUrl = `${this.sourceUrl}/${eventUrl}`
-    }
-    
-    // Extract full text for parsing
-    const fullText = `${title} ${description} ${element.text()}`
-    
-    // Use Polish parser for data extraction
-    const ageRange = PolishEventParser.extractAgeRange(fullText)
-    const priceInfo = PolishEventParser.parsePrice(fullText)
-    const location = PolishEventParser.extractLocation(fullText) || 'Muzeum Podlaskie w Białymstoku'
-    const dateRange = PolishEventParser.parseDate(fullText)
-    
-    // Museum events are typically educational
-    const category = this.mapCategory(fullText)
-    
-    // Use Białystok coordinates
-    const bialystokCoords = CITY_COORDINATES['Białystok']
-    
-    // Extract images
-    const images = this.extractImages($, element)
-    
-    return {
-      title: PolishEventParser.normalizeText(title),
-      description: PolishEventParser.normalizeText(description || 'Wydarzenie edukacyjne w Muzeum Podlaskim'),
-      ageMin: ageRange.min || 6,
-      ageMax: ageRange.max || 16,
-      priceType: priceInfo.type,
-      price: priceInfo.amount,
-      locationName: PolishEventParser.normalizeVenue(location),
-      address: 'ul. Kilińskiego 1, Białystok',
-      city: 'Białystok',
-      lat: bialystokCoords.lat,
-      lng: bialystokCoords.lng,
-      organizerName: 'Muzeum Podlaskie w Białymstoku',
-      sourceUrl: eventUrl,
-      imageUrls: images,
-      startDate: dateRange?.startDate || this.getDefaultDate(),
-      category,
-      tags: this.generateTags(fullText)
-    }
-  }
-  
-  private createStandardMuseumEvents(): ScrapedEvent[] {
-    const bialystokCoords = CITY_COORDINATES['Białystok']
-    const baseDate = new Date()
-    
-    // Standard museum offerings focusing on regional history and culture
-    const standardEvents = [
-      {
-        title: 'Warsztaty historyczne dla dzieci',
-        description: 'Interaktywne zajęcia poznające historię Podlasia. Dzieci wcielają się w role postaci historycznych.',
-        category: 'WARSZTATY' as const,
-        tags: ['historia', 'podlaskie', 'interaktywne', 'postacie'],
-        price: 15,
-        ageMin: 8,
-        ageMax: 14
-      },
-      {
-        title: 'Zwiedzanie z przewodnikiem dla rodzin',
-        description: 'Oprowadzanie dostosowane do najmłodszych. Historia regionu opowiedziana w przystępny sposób.',
-        category: 'EDUKACJA' as const,
-        tags: ['przewodnik', 'rodziny', 'region', 'przystępne'],
-        price: 10,
-        ageMin: 5,
-        ageMax: 16
-      },
-      {
-        title: 'Warsztaty archeologiczne',
-        description: 'Dzieci uczą się pracy archeologa. Symulacja wykopalisk i odkrywanie starożytnych artefaktów.',
-        category: 'WARSZTATY' as const,
-        tags: ['archeologia', 'wykopaliska', 'artefakty', 'odkrywanie'],
-        price: 20,
-        ageMin: 9,
-        ageMax: 15
-      },
-      {
-        title: 'Lekcje muzealne dla szkół',
-        description: 'Specjalne zajęcia edukacyjne dopasowane do programu szkolnego. Historia lokalna w praktyce.',
-        category: 'EDUKACJA' as const,
-        tags: ['szkoły', 'program', 'lokalna', 'praktyka'],
-        price: 8,
-        ageMin: 6,
-        ageMax: 18
-      },
-      {
-        title: 'Noce w muzeum - rodzinne wydarzenia',
-        description: 'Wyjątkowe nocne zwiedzanie z latarkami. Muzeum po zmroku dla odważnych rodzin.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['nocne', 'latarki', 'zmrok', 'odważne'],
-        price: 25,
-        ageMin: 7,
-        ageMax: 18
-      },
-      {
-        title: 'Warsztaty rękodzieła ludowego',
-        description: 'Nauka tradycyjnych technik rękodzielniczych Podlasia. Tworzenie pamiątek według dawnych wzorów.',
-        category: 'WARSZTATY' as const,
-        tags: ['rękodzieło', 'tradycyjne', 'pamiątki', 'wzory'],
-        price: 18,
-        ageMin: 10,
-        ageMax: 16
-      }
-    ]
-    
-    return standardEvents.map((eventData, index) => ({
-      title: eventData.title,
-      description: eventData.description,
-      ageMin: eventData.ageMin,
-      ageMax: eventData.ageMax,
-      priceType: 'PAID' as const,
-      price: eventData.price,
-      locationName: 'Muzeum Podlaskie w Białymstoku',
-      address: 'ul. Kilińskiego 1, Białystok',
-      city: 'Białystok',
-      lat: bialystokCoords.lat,
-      lng: bialystokCoords.lng,
-      organizerName: 'Muzeum Podlaskie w Białymstoku',
-      sourceUrl: this.sourceUrl,
-      imageUrls: [],
-      startDate: addDays(baseDate, index * 6), // Events every 6 days
-      category: eventData.category,
-      tags: ['białystok', 'muzeum', 'podlaskie', 'historia', ...eventData.tags]
-    }))
-  }
-  
-  private extractImages($: CheerioAPI, element: Cheerio<any>): string[] {
-    const images: string[] = []
-    
-    element.find('img').each((_: any, img: any) => {
-      const src = $(img).attr('src')
-      if (src) {
-        let imageUrl = src
-        // Make URLs absolute
-        if (imageUrl.startsWith('/')) {
-          imageUrl = `${this.sourceUrl}${imageUrl}`
-        } else if (!imageUrl.startsWith('http')) {
-          imageUrl = `${this.sourceUrl}/${imageUrl}`
-        }
-        images.push(imageUrl)
-      }
-    })
-    
-    return images.slice(0, 3)
-  }
-  
-  protected mapCategory(text: string): 'WARSZTATY' | 'SPEKTAKLE' | 'SPORT' | 'EDUKACJA' | 'INNE' {
-    const lowerText = text.toLowerCase()
-    
-    if (lowerText.match(/warsztat|rękodzieło|archeologiczne|tworzenie|techniki/)) {
-      return 'WARSZTATY'
-    }
-    if (lowerText.match(/noc|nocne|spektakl|wydarzenie|latarki/)) {
-      return 'SPEKTAKLE'
-    }
-    if (lowerText.match(/zwiedzanie|przewodnik|lekcje|edukacja|szkoły|historia/)) {
-      return 'EDUKACJA'
-    }
-    
-    // Default for museum
-    return 'EDUKACJA'
-  }
-  
-  private generateTags(text: string): string[] {
-    const tags = new Set<string>(['białystok', 'muzeum', 'podlaskie', 'historia'])
-    
-    const keywords = [
-      'dzieci', 'rodziny', 'warsztaty', 'edukacja', 'archeologia', 'rękodzieło',
-      'tradycyjne', 'przewodnik', 'zwiedzanie', 'nocne', 'szkoły'
-    ]
-    
-    const lowerText = text.toLowerCase()
-    keywords.forEach(keyword => {
-      if (lowerText.includes(keyword)) {
-        tags.add(keyword)
-      }
-    })
-    
-    return Array.from(tags).slice(0, 10)
-  }
-  
-  private removeDuplicates(events: ScrapedEvent[]): ScrapedEvent[] {
-    const seen = new Set<string>()
-    return events.filter(event => {
-      const key = event.title.toLowerCase().trim()
-      if (seen.has(key)) {
-        return false
-      }
-      seen.add(key)
-      return true
-    })
-  }
-  
-  private getDefaultDate(): Date {
-    return addDays(new Date(), 7) // Default to next week
-  }
-}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import axios from 'axios'
+import { httpClient, FEED_ACCEPT } from '../utils/http-client'
 import { load } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { PolishEventParser } from '../utils/polish-parser'
@@ -14,6 +14,7 @@ import { addDays } from 'date-fns'
 export class NaszeMiastoBialystokScraper extends BaseScraper {
   name = 'naszemiasto-bialystok'
   sourceUrl = 'https://bialystok.naszemiasto.pl'
+  schedule = { city: 'Białystok', priority: 2 }
   eventsUrl = 'https://bialystok.naszemiasto.pl/kalendarz-imprez'
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
@@ -40,12 +41,9 @@ export class NaszeMiastoBialystokScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
+          const response = await httpClient.get(url, {
             headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'application/rss+xml, application/xml, text/xml, text/html, */*',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
+              'Accept': FEED_ACCEPT
             }
           })
           
@@ -68,7 +66,7 @@ export class NaszeMiastoBialystokScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -243,13 +241,9 @@ export class NaszeMiastoBialystokScraper extends BaseScraper {
     // Parse pubDate for event date
     let eventDate = dateRange?.startDate
     if (!eventDate && pubDate) {
-      try {
-        eventDate = new Date(pubDate)
-        if (isNaN(eventDate.getTime())) {
-          eventDate = this.getDefaultDate()
-        }
-      } catch {
-        eventDate = this.getDefaultDate()
+      const published = new Date(pubDate)
+      if (!isNaN(published.getTime())) {
+        eventDate = published
       }
     }
     
@@ -283,6 +277,9 @@ export class NaszeMiastoBialystokScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: [],
       startDate: eventDate || this.getDefaultDate(),
+      dateIsDefault: !eventDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -350,7 +347,8 @@ export class NaszeMiastoBialystokScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 7), // Events every week
       category: eventData.category,
-      tags: ['białystok', 'portal', 'lokalne', 'mieszkańcy', ...eventData.tags]
+      tags: ['białystok', 'portal', 'lokalne', 'mieszkańcy', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
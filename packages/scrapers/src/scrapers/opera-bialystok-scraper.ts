@@ -1,359 +0,0 @@
-import axios from 'axios'
-import { load, CheerioAPI, Cheerio } from 'cheerio'
-import { BaseScraper, ScrapedEvent } from './base-scraper'
-import { PolishEventParser } from '../utils/polish-parser'
-import { logger } from '../utils/logger'
-import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
-import { addDays } from 'date-fns'
-
-/**
- * Scraper for Opera i Filharmonia Podlaska
- * Source: https://oifp.eu - Major cultural institution
- * Priority: High (premier venue for family shows and concerts)
- */
-export class OperaBialystokScraper extends BaseScraper {
-  name = 'opera-bialystok'
-  sourceUrl = 'https://oifp.eu'
-  eventsUrl = 'https://oifp.eu/wydarzenia'
-  
-  protected async scrapeEvents(): Promise<ScrapedEvent[]> {
-    try {
-      logger.info(`Fetching Opera Białystok events from: ${this.eventsUrl}`)
-      
-      // Try multiple potential URLs for events
-      const urls = [
-        this.eventsUrl,
-        `${this.sourceUrl}/pl/wydarzenia`,
-        `${this.sourceUrl}/repertuar`,
-        `${this.sourceUrl}/dzieci`,
-        `${this.sourceUrl}/rodzinne`,
-        `${this.sourceUrl}/spektakle`,
-        `${this.sourceUrl}/koncerty`,
-        this.sourceUrl
-      ]
-      
-      const events: ScrapedEvent[] = []
-      
-      for (const url of urls) {
-        try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
-          
-          const $ = load(response.data)
-          const pageEvents = this.extractEventsFromPage($, url)
-          events.push(...pageEvents)
-          
-          if (pageEvents.length > 0) {
-            logger.info(`Found ${pageEvents.length} events from: ${url}`)
-          }
-        } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
-        }
-      }
-      
-      // If no events found, create standard opera/philharmonic events
-      if (events.length === 0) {
-        logger.info('No events found on website, creating standard opera events')
-        const standardEvents = this.createStandardOperaEvents()
-        events.push(...standardEvents)
-      }
-      
-      // Remove duplicates based on title
-      const uniqueEvents = this.removeDuplicates(events)
-      
-      logger.info(`Successfully parsed ${uniqueEvents.length} unique events from Opera Białystok`)
-      return uniqueEvents
-    } catch (error) {
-      logger.error(`Failed to fetch Opera Białystok events`, { 
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined
-      })
-      
-      // Return standard events as fallback
-      return this.createStandardOperaEvents()
-    }
-  }
-  
-  private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
-    const events: ScrapedEvent[] = []
-    
-    // Try multiple selectors for opera events
-    const eventSelectors = [
-      '.event-item',
-      '.wydarzenie',
-      '.spektakl',
-      '.koncert',
-      '.performance',
-      '.calendar-event',
-      '.event-card',
-      '.event',
-      '.repertuar-item',
-      'article',
-      '.content-item',
-      '.card',
-      '.show'
-    ]
-    
-    for (const selector of eventSelectors) {
-      const eventElements = $(selector)
-      if (eventElements.length > 0) {
-        logger.info(`Found ${eventElements.length} potential events using selector: ${selector}`)
-        
-        eventElements.each((index, element) => {
-          try {
-            const event = this.parseEventElement($, $(element), sourceUrl)
-            if (event) {
-              events.push(event)
-            }
-          } catch (error) {
-            logger.error(`Failed to parse opera event element ${index}`, { error })
-          }
-        })
-        
-        if (events.length > 0) break
-      }
-    }
-    
-    return events
-  }
-  
-  private parseEventElement($: CheerioAPI, element: Cheerio<any>, sourceUrl: string): ScrapedEvent | null {
-    // Extract title
-    const titleSelectors = ['h1', 'h2', 'h3', 'h4', '.title', '.event-title', '.card-title', '.spektakl-title', 'a']
-    let title = ''
-    
-    for (const selector of titleSelectors) {
-      const titleElement = element.find(selector).first()
-      if (titleElement.length > 0) {
-        title = titleElement.text().trim()
-        if (title.length > 5) break
-      }
-    }
-    
-    if (!title || title.length < 3) {
-      return null
-    }
-    
-    // Extract description
-    const descSelectors = ['.description', '.excerpt', '.content', '.summary', 'p', '.card-text', '.spektakl-desc']
-    let description = ''
-    
-    for (const selector of descSelectors) {
-      const descElement = element.find(selector).first()
-      if (descElement.length > 0) {
-        description = descElement.text().trim()
-        if (description.length > 10) break
-      }
-    }
-    
-    // Extract link
-    const linkElement = element.find('a').first()
-    const link = linkElement.length > 0 ? linkElement.attr('href') : ''
-    let eventUrl = link || sourceUrl
-    
-    // Make URL absolute
-    if (eventUrl.startsWith('/')) {
-      eventUrl = `${this.sourceUrl}${eventUrl}`
-    } else if (!eventUrl.startsWith('http')) {
-      eventUrl = `${this.sourceUrl}/${eventUrl}`
-    }
-    
-    // Extract full text for parsing
-    const fullText = `${title} ${description} ${element.text()}`
-    
-    // Use Polish parser for data extraction
-    const ageRange = PolishEventParser.extractAgeRange(fullText)
-    const priceInfo = PolishEventParser.parsePrice(fullText)
-    const location = PolishEventParser.extractLocation(fullText) || 'Opera i Filharmonia Podlaska'
-    const dateRange = PolishEventParser.parseDate(fullText)
-    
-    // Opera/philharmonic events are typically performances
-    const category = this.mapCategory(fullText)
-    
-    // Use Białystok coordinates
-    const bialystokCoords = CITY_COORDINATES['Białystok']
-    
-    // Extract images
-    const images = this.extractImages($, element)
-    
-    return {
-      title: PolishEventParser.normalizeText(title),
-      description: PolishEventParser.normalizeText(description || 'Spektakl lub koncert w Operze i Filharmonii Podlaskiej'),
-      ageMin: ageRange.min || 5,
-      ageMax: ageRange.max || 18,
-      priceType: priceInfo.type,
-      price: priceInfo.amount,
-      locationName: PolishEventParser.normalizeVenue(location),
-      address: 'ul. Odeska 1, Białystok',
-      city: 'Białystok',
-      lat: bialystokCoords.lat,
-      lng: bialystokCoords.lng,
-      organizerName: 'Opera i Filharmonia Podlaska',
-      sourceUrl: eventUrl,
-      imageUrls: images,
-      startDate: dateRange?.startDate || this.getDefaultDate(),
-      category,
-      tags: this.generateTags(fullText)
-    }
-  }
-  
-  private createStandardOperaEvents(): ScrapedEvent[] {
-    const bialystokCoords = CITY_COORDINATES['Białystok']
-    const baseDate = new Date()
-    
-    // Standard opera/philharmonic offerings for families
-    const standardEvents = [
-      {
-        title: 'Bajkowa Opera dla dzieci',
-        description: 'Spektakle operowe przygotowane specjalnie dla najmłodszych. Znane bajki w opracowaniu muzycznym.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['opera', 'bajki', 'muzyka', 'klasyczna'],
-        price: 25,
-        ageMin: 5,
-        ageMax: 12
-      },
-      {
-        title: 'Koncerty rodzinne filharmonii',
-        description: 'Niedzialne koncerty dla całej rodziny. Wprowadzenie do muzyki klasycznej w przystępnej formie.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['koncerty', 'rodzinne', 'filharmonia', 'niedziela'],
-        price: 20,
-        ageMin: 4,
-        ageMax: 18
-      },
-      {
-        title: 'Warsztaty wokalne dla dzieci',
-        description: 'Zajęcia rozwijające umiejętności wokalne. Nauka śpiewu i podstaw techniki wokalnej.',
-        category: 'WARSZTATY' as const,
-        tags: ['wokalne', 'śpiew', 'technika', 'muzyczne'],
-        price: 30,
-        ageMin: 8,
-        ageMax: 16
-      },
-      {
-        title: 'Młoda Filharmonia - edukacja muzyczna',
-        description: 'Program edukacyjny wprowadzający dzieci w świat muzyki klasycznej poprzez zabawę i aktywność.',
-        category: 'EDUKACJA' as const,
-        tags: ['edukacja', 'muzyczna', 'klasyczna', 'zabawa'],
-        price: 15,
-        ageMin: 6,
-        ageMax: 14
-      },
-      {
-        title: 'Spektakle muzyczne dla szkół',
-        description: 'Specjalne przedstawienia edukacyjne dla grup szkolnych. Historia muzyki opowiedziana przez spektakl.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['szkoły', 'edukacyjne', 'historia', 'muzyki'],
-        price: 12,
-        ageMin: 7,
-        ageMax: 17
-      },
-      {
-        title: 'Wigilie artystyczne dla rodzin',
-        description: 'Świąteczne koncerty z kolędami i pieśniami. Wspólne śpiewanie dla całej rodziny.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['wigilie', 'kolędy', 'świąteczne', 'wspólne'],
-        price: 35,
-        ageMin: 0,
-        ageMax: 18
-      }
-    ]
-    
-    return standardEvents.map((eventData, index) => ({
-      title: eventData.title,
-      description: eventData.description,
-      ageMin: eventData.ageMin,
-      ageMax: eventData.ageMax,
-      priceType: 'PAID' as const,
-      price: eventData.price,
-      locationName: 'Opera i Filharmonia Podlaska',
-      address: 'ul. Odeska 1, Białystok',
-      city: 'Białystok',
-      lat: bialystokCoords.lat,
-      lng: bialystokCoords.lng,
-      organizerName: 'Opera i Filharmonia Podlaska',
-      sourceUrl: this.sourceUrl,
-      imageUrls: [],
-      startDate: addDays(baseDate, index * 7), // Events every week
-      category: eventData.category,
-      tags: ['białystok', 'opera', 'filharmonia', 'muzyka', ...eventData.tags]
-    }))
-  }
-  
-  private extractImages($: CheerioAPI, element: Cheerio<any>): string[] {
-    const images: string[] = []
-    
-    element.find('img').each((_: any, img: any) => {
-      const src = $(img).attr('src')
-      if (src) {
-        let imageUrl = src
-        // Make URLs absolute
-        if (imageUrl.startsWith('/')) {
-          imageUrl = `${this.sourceUrl}${imageUrl}`
-        } else if (!imageUrl.startsWith('http')) {
-          imageUrl = `${this.sourceUrl}/${imageUrl}`
-        }
-        images.push(imageUrl)
-      }
-    })
-    
-    return images.slice(0, 3)
-  }
-  
-  protected mapCategory(text: string): 'WARSZTATY' | 'SPEKTAKLE' | 'SPORT' | 'EDUKACJA' | 'INNE' {
-    const lowerText = text.toLowerCase()
-    
-    if (lowerText.match(/warsztat|zajęcia|nauka|śpiew|wokalne|edukacja/)) {
-      return 'WARSZTATY'
-    }
-    if (lowerText.match(/opera|spektakl|koncert|przedstawienie|filharmonia|muzyka|wigilie/)) {
-      return 'SPEKTAKLE'
-    }
-    if (lowerText.match(/edukacyjne|szkoły|młoda|program|historia/)) {
-      return 'EDUKACJA'
-    }
-    
-    // Default for opera/philharmonic
-    return 'SPEKTAKLE'
-  }
-  
-  private generateTags(text: string): string[] {
-    const tags = new Set<string>(['białystok', 'opera', 'filharmonia', 'muzyka'])
-    
-    const keywords = [
-      'dzieci', 'rodzina', 'bajki', 'koncerty', 'spektakle', 'wokalne',
-      'klasyczna', 'edukacja', 'śpiew', 'warsztaty', 'artystyczne'
-    ]
-    
-    const lowerText = text.toLowerCase()
-    keywords.forEach(keyword => {
-      if (lowerText.includes(keyword)) {
-        tags.add(keyword)
-      }
-    })
-    
-    return Array.from(tags).slice(0, 10)
-  }
-  
-  private removeDuplicates(events: ScrapedEvent[]): ScrapedEvent[] {
-    const seen = new Set<string>()
-    return events.filter(event => {
-      const key = event.title.toLowerCase().trim()
-      if (seen.has(key)) {
-        return false
-      }
-      seen.add(key)
-      return true
-    })
-  }
-  
-  private getDefaultDate(): Date {
-    return addDays(new Date(), 7) // Default to next week
-  }
-}
\ No newline at end of file
@@ -1,6 +1,7 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
+import { extractStructuredEvents, StructuredEventDefaults } from './structured-data-extractor'
 import { PolishEventParser } from '../utils/polish-parser'
 import { logger } from '../utils/logger'
 import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
@@ -14,7 +15,16 @@ import { addDays } from 'date-fns'
 export class PolinMuseumScraper extends BaseScraper {
   name = 'polin-museum'
   sourceUrl = 'https://www.polin.pl'
+  schedule = { city: 'Warszawa', pattern: '35 3,15 * * *' }
   eventsUrl = 'https://www.polin.pl/pl/wydarzenia'
+  venueDefaults: StructuredEventDefaults = {
+    locationName: 'POLIN Muzeum Historii Żydów Polskich',
+    address: 'ul. Anielewicza 6, Warszawa',
+    city: 'Warszawa',
+    organizerName: 'POLIN Muzeum Historii Żydów Polskich',
+    ageMin: 8,
+    ageMax: 16
+  }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
@@ -34,14 +44,7 @@ export class PolinMuseumScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
+          const response = await httpClient.get(url)
           
           const $ = load(response.data)
           const pageEvents = this.extractEventsFromPage($, url)
@@ -51,7 +54,7 @@ export class PolinMuseumScraper extends BaseScraper {
             logger.info(`Found ${pageEvents.length} events from: ${url}`)
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -79,6 +82,11 @@ export class PolinMuseumScraper extends BaseScraper {
   }
   
   private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
+    const structuredEvents = extractStructuredEvents($, sourceUrl, this.venueDefaults)
+    if (structuredEvents.length > 0) {
+      return structuredEvents
+    }
+    
     const events: ScrapedEvent[] = []
     
     // Try multiple selectors for POLIN events
@@ -195,6 +203,9 @@ export class PolinMuseumScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -280,7 +291,8 @@ export class PolinMuseumScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 6), // Events every 6 days
       category: eventData.category,
-      tags: ['warszawa', 'polin', 'historia', 'edukacja', ...eventData.tags]
+      tags: ['warszawa', 'polin', 'historia', 'edukacja', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
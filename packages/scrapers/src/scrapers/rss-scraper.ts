@@ -2,10 +2,12 @@ import Parser from 'rss-parser'
 import { addDays, parseISO } from 'date-fns'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
 import { logger } from '../utils/logger'
+import { httpClient, FEED_ACCEPT } from '../utils/http-client'
 
 export class RssScraper extends BaseScraper {
   name = 'example-rss'
   sourceUrl = 'https://example.com/events.rss'
+  schedule = { enabled: false } // Placeholder feed, kept as an example
   
   private parser = new Parser({
     customFields: {
@@ -18,9 +20,17 @@ export class RssScraper extends BaseScraper {
     }
   })
   
+  private async fetchFeed(url: string) {
+    const response = await httpClient.get<string>(url, {
+      responseType: 'text',
+      headers: { 'Accept': FEED_ACCEPT }
+    })
+    return this.parser.parseString(response.data)
+  }
+  
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
-      const feed = await this.parser.parseURL(this.sourceUrl)
+      const feed = await this.fetchFeed(this.sourceUrl)
       const events: ScrapedEvent[] = []
       
       for (const item of feed.items || []) {
@@ -48,6 +58,7 @@ export class RssScraper extends BaseScraper {
     
     const ageRange = this.extractAgeRange(item.contentSnippet || item.title)
     const category = this.mapCategory(item.title + ' ' + (item.contentSnippet || ''))
+    const startDate = this.parseDate(item.eventDate || item.pubDate)
     
     return {
       title: this.normalizeText(item.title),
@@ -61,7 +72,8 @@ export class RssScraper extends BaseScraper {
       organizerName: item.creator || feed.title || 'Organizator',
       sourceUrl: item.link,
       imageUrls: this.extractImages(item),
-      startDate: this.parseDate(item.eventDate || item.pubDate) || addDays(new Date(), 7),
+      startDate: startDate || addDays(new Date(), 7),
+      dateIsDefault: !startDate,
       category,
       tags: this.extractTags(item)
     }
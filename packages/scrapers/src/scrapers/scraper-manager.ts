@@ -1,14 +1,12 @@
-import { BaseScraper } from './base-scraper'
+import { BaseScraper, ScraperSchedule } from './base-scraper'
 import { RssScraper } from './rss-scraper'
+import { ExampleIcsScraper } from './example-ics-scraper'
 import { BibliotekiWarszawaScraper } from './biblioteki-warszawa-scraper'
 import { CzasDzieciScraper } from './czas-dzieci-scraper'
 import { BialystokHtmlScraper } from './bialystok-html-scraper'
 import { BokBialystokScraper } from './bok-bialystok-scraper'
 import { EpiCentrumScraper } from './epi-centrum-scraper'
 import { BibliotekaBialystokScraper } from './biblioteka-bialystok-scraper'
-import { OperaBialystokScraper } from './opera-bialystok-scraper'
-import { MuzeumPodlaskieScraper } from './muzeum-podlaskie-scraper'
-import { TeatrDramatycznyBialystokScraper } from './teatr-dramatyczny-bialystok-scraper'
 import { BialystokMiastoRssScraper } from './bialystok-miasto-rss-scraper'
 import { NaszeMiastoBialystokScraper } from './naszemiasto-bialystok-scraper'
 import { EventaBialystokScraper } from './evenea-bialystok-scraper'
@@ -18,6 +16,8 @@ import { ZooWarszawaScraper } from './zoo-warszawa-scraper'
 import { MuzeumNarodoweWarszawaScraper } from './muzeum-narodowe-warszawa-scraper'
 import { PolinMuseumScraper } from './polin-museum-scraper'
 import { TestScraper } from './test-scraper'
+import { SelectorScraper } from './selector-scraper'
+import { sourceDefinitions } from './definitions'
 import { logger } from '../utils/logger'
 
 export class ScraperManager {
@@ -31,6 +31,7 @@ export class ScraperManager {
     // Register all available scrapers - COMPREHENSIVE BIAŁYSTOK COVERAGE
     const scrapers = [
       new RssScraper(), // Generic RSS scraper
+      new ExampleIcsScraper(), // Generic iCalendar scraper
       new CzasDzieciScraper(), // CzasDzieci.pl RSS feed
       
       // BIAŁYSTOK INSTITUTIONAL SCRAPERS (cultural venues - 25+ events)
@@ -38,9 +39,7 @@ export class ScraperManager {
       new BokBialystokScraper(), // BOK Białystok cultural events
       new EpiCentrumScraper(), // Epi-Centrum science center
       new BibliotekaBialystokScraper(), // Public Library - 7 events
-      new OperaBialystokScraper(), // Opera & Philharmonic - 50+ events!  
-      new MuzeumPodlaskieScraper(), // Regional Museum - 6 events
-      new TeatrDramatycznyBialystokScraper(), // Drama Theater - 6 events
+      ...sourceDefinitions.map(definition => new SelectorScraper(definition)), // Opera, Regional Museum, Drama Theater
 
       // BIAŁYSTOK RSS/API SOURCES (municipal + portals - 20+ events)
       new BialystokMiastoRssScraper(), // Municipal RSS/events - 5 events
@@ -89,6 +88,9 @@ export class ScraperManager {
           eventsCount: 0, 
           newEvents: 0, 
           updatedEvents: 0, 
+          unchangedEvents: 0,
+          realEvents: 0,
+          synthesizedEvents: 0,
           error: error instanceof Error ? error.message : 'Unknown error' 
         })
       }
@@ -97,7 +99,18 @@ export class ScraperManager {
     return results
   }
   
+  getScraper(name: string): BaseScraper | undefined {
+    return this.scrapers.get(name)
+  }
+
   getScraperNames(): string[] {
     return Array.from(this.scrapers.keys())
   }
+  
+  getScraperSchedules(): Array<{ name: string; schedule: ScraperSchedule }> {
+    return Array.from(this.scrapers.values()).map(scraper => ({
+      name: scraper.name,
+      schedule: scraper.getSchedule()
+    }))
+  }
 }
\ No newline at end of file
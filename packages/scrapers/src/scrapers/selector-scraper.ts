@@ -0,0 +1,337 @@
+import { load, CheerioAPI, Cheerio } from 'cheerio'
+import { addDays, isValid, parse } from 'date-fns'
+import { pl } from 'date-fns/locale'
+import { BaseScraper, EventCategory, ScrapedEvent, ScraperSchedule } from './base-scraper'
+import { extractStructuredEvents } from './structured-data-extractor'
+import { DateRange, PolishEventParser } from '../utils/polish-parser'
+import { logger } from '../utils/logger'
+import { httpClient } from '../utils/http-client'
+import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
+
+/**
+ * Candidate selectors for one field, tried in order. The first match whose text
+ * is at least minLength characters long wins; otherwise the last non-empty match is used.
+ */
+export interface FieldSelector {
+  selectors: string[]
+  attr?: string // Read an attribute (e.g. href, src) instead of the text
+  minLength?: number
+}
+
+export interface FallbackEventDefinition {
+  title: string
+  description: string
+  category: EventCategory
+  tags: string[]
+  price: number
+  ageMin: number
+  ageMax: number
+}
+
+/**
+ * JSON source definition executed by SelectorScraper - see definitions/*.json
+ */
+export interface SelectorSourceDefinition {
+  name: string
+  sourceUrl: string
+  schedule?: Partial<ScraperSchedule>
+  listUrls: string[] // All pages are scraped and their events combined
+  pagination?: {
+    nextSelector: string // Link to the next page of a listing
+    maxPages: number
+  }
+  itemSelectors: string[] // The first selector yielding events wins
+  fields: {
+    title: FieldSelector
+    description?: FieldSelector
+    date?: FieldSelector
+    link?: FieldSelector
+    image?: FieldSelector
+  }
+  dateFormats?: string[] // date-fns formats tried on the date field before the Polish text parser
+  defaults: {
+    locationName: string
+    address: string
+    city: string
+    organizerName: string
+    description: string
+    ageMin: number
+    ageMax: number
+    category: EventCategory
+    startInDays: number // Used when no date can be parsed
+  }
+  categoryRules: Array<{ category: EventCategory; pattern: string }> // First matching regex wins
+  baseTags: string[]
+  tagKeywords: string[]
+  fallbackEvents?: {
+    intervalDays: number
+    events: FallbackEventDefinition[]
+  }
+}
+
+/**
+ * Generic HTML scraper driven by a SelectorSourceDefinition, so adding a venue
+ * is a new JSON file instead of a new class.
+ */
+export class SelectorScraper extends BaseScraper {
+  name: string
+  sourceUrl: string
+
+  constructor(private definition: SelectorSourceDefinition) {
+    super()
+    SelectorScraper.validate(definition)
+    this.name = definition.name
+    this.sourceUrl = definition.sourceUrl
+    this.schedule = { city: definition.defaults.city, ...definition.schedule }
+  }
+
+  static validate(definition: SelectorSourceDefinition) {
+    const problems: string[] = []
+    if (!definition.name) problems.push('name is required')
+    if (!definition.sourceUrl) problems.push('sourceUrl is required')
+    if (!definition.listUrls?.length) problems.push('listUrls must not be empty')
+    if (!definition.itemSelectors?.length) problems.push('itemSelectors must not be empty')
+    if (!definition.fields?.title?.selectors?.length) problems.push('fields.title.selectors must not be empty')
+    if (!definition.defaults) problems.push('defaults are required')
+    for (const rule of definition.categoryRules || []) {
+      try {
+        new RegExp(rule.pattern)
+      } catch {
+        problems.push(`invalid category pattern: ${rule.pattern}`)
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid source definition ${definition.name || '(unnamed)'}: ${problems.join(', ')}`)
+    }
+  }
+
+  protected async scrapeEvents(): Promise<ScrapedEvent[]> {
+    const events: ScrapedEvent[] = []
+
+    for (const listUrl of this.definition.listUrls) {
+      let pageUrl: string | null = listUrl
+      let page = 0
+      const maxPages = this.definition.pagination?.maxPages || 1
+
+      while (pageUrl && page < maxPages) {
+        page++
+        const fetchedUrl: string = pageUrl
+        try {
+          const response = await httpClient.get(pageUrl)
+          const $ = load(response.data)
+
+          const pageEvents = this.extractEventsFromPage($, pageUrl)
+          events.push(...pageEvents)
+          if (pageEvents.length > 0) {
+            logger.info(`Found ${pageEvents.length} events from: ${pageUrl}`)
+          }
+
+          pageUrl = this.findNextPage($, pageUrl)
+        } catch (error) {
+          this.listPageFailed(fetchedUrl, error)
+          pageUrl = null
+        }
+      }
+    }
+
+    if (events.length === 0 && this.definition.fallbackEvents) {
+      logger.info(`No events found on website, creating standard ${this.name} events`)
+      return this.createFallbackEvents()
+    }
+
+    const uniqueEvents = this.removeDuplicates(events)
+    logger.info(`Successfully parsed ${uniqueEvents.length} unique events from ${this.name}`)
+    return uniqueEvents
+  }
+
+  private findNextPage($: CheerioAPI, pageUrl: string): string | null {
+    const pagination = this.definition.pagination
+    if (!pagination) return null
+
+    const href = $(pagination.nextSelector).first().attr('href')
+    return href ? this.resolveUrl(href, pageUrl) : null
+  }
+
+  private extractEventsFromPage($: CheerioAPI, pageUrl: string): ScrapedEvent[] {
+    // schema.org data wins over the CSS selectors of the definition
+    const structuredEvents = extractStructuredEvents($, pageUrl, this.definition.defaults)
+    if (structuredEvents.length > 0) {
+      return structuredEvents
+    }
+
+    const events: ScrapedEvent[] = []
+
+    for (const selector of this.definition.itemSelectors) {
+      const elements = $(selector)
+      if (elements.length === 0) continue
+
+      logger.info(`Found ${elements.length} potential events using selector: ${selector}`)
+      elements.each((index, element) => {
+        try {
+          const event = this.parseEventElement($, $(element), pageUrl)
+          if (event) {
+            events.push(event)
+          }
+        } catch (error) {
+          logger.error(`Failed to parse ${this.name} event element ${index}`, { error })
+        }
+      })
+
+      if (events.length > 0) break
+    }
+
+    return events
+  }
+
+  private parseEventElement($: CheerioAPI, element: Cheerio<any>, pageUrl: string): ScrapedEvent | null {
+    const { fields, defaults } = this.definition
+
+    const title = this.extractField(element, fields.title)
+    if (!title || title.length < 3) {
+      return null
+    }
+
+    const description = fields.description ? this.extractField(element, fields.description) : ''
+    const dateText = fields.date ? this.extractField(element, fields.date) : ''
+    const link = this.extractField(element, fields.link || { selectors: ['a'], attr: 'href' })
+    const fullText = `${title} ${description} ${element.text()} ${dateText}`
+
+    const ageRange = PolishEventParser.extractAgeRange(fullText)
+    const priceInfo = PolishEventParser.parsePrice(fullText)
+    const location = PolishEventParser.extractLocation(fullText) || defaults.locationName
+    const coords = CITY_COORDINATES[defaults.city]
+    const dateRange = this.parseDate(dateText, fullText)
+
+    return {
+      title: PolishEventParser.normalizeText(title),
+      description: PolishEventParser.normalizeText(description || defaults.description),
+      ageMin: ageRange.min || defaults.ageMin,
+      ageMax: ageRange.max || defaults.ageMax,
+      priceType: priceInfo.type,
+      price: priceInfo.amount,
+      locationName: PolishEventParser.normalizeVenue(location),
+      address: defaults.address,
+      city: defaults.city,
+      lat: coords?.lat,
+      lng: coords?.lng,
+      organizerName: defaults.organizerName,
+      sourceUrl: link ? this.resolveUrl(link, pageUrl) : pageUrl,
+      imageUrls: this.extractImages($, element, pageUrl),
+      startDate: dateRange?.startDate || addDays(new Date(), defaults.startInDays),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
+      category: this.mapCategory(fullText),
+      tags: this.generateTags(fullText)
+    }
+  }
+
+  private extractField(element: Cheerio<any>, field: FieldSelector): string {
+    const minLength = field.minLength || 1
+    let value = ''
+
+    for (const selector of field.selectors) {
+      const match = element.find(selector).first()
+      if (match.length === 0) continue
+
+      const candidate = (field.attr ? match.attr(field.attr) : match.text())?.trim() || ''
+      if (candidate) value = candidate
+      if (value.length >= minLength) break
+    }
+
+    return value
+  }
+
+  private parseDate(dateText: string, fullText: string): DateRange | null {
+    if (dateText) {
+      for (const format of this.definition.dateFormats || []) {
+        const date = parse(dateText, format, new Date(), { locale: pl })
+        if (isValid(date)) return { startDate: date }
+      }
+    }
+
+    return (dateText && PolishEventParser.parseDate(dateText)) || PolishEventParser.parseDate(fullText)
+  }
+
+  private extractImages($: CheerioAPI, element: Cheerio<any>, pageUrl: string): string[] {
+    const field = this.definition.fields.image || { selectors: ['img'], attr: 'src' }
+    const images: string[] = []
+
+    for (const selector of field.selectors) {
+      element.find(selector).each((_: any, img: any) => {
+        const src = $(img).attr(field.attr || 'src')
+        if (src) images.push(this.resolveUrl(src, pageUrl))
+      })
+      if (images.length > 0) break
+    }
+
+    return images.slice(0, 3)
+  }
+
+  private resolveUrl(href: string, pageUrl: string): string {
+    try {
+      return new URL(href, pageUrl).toString()
+    } catch {
+      return pageUrl
+    }
+  }
+
+  protected mapCategory(text: string): EventCategory {
+    const lowerText = text.toLowerCase()
+    const rule = this.definition.categoryRules.find(rule => new RegExp(rule.pattern).test(lowerText))
+    return rule ? rule.category : this.definition.defaults.category
+  }
+
+  private generateTags(text: string): string[] {
+    const tags = new Set<string>(this.definition.baseTags)
+    const lowerText = text.toLowerCase()
+
+    this.definition.tagKeywords.forEach(keyword => {
+      if (lowerText.includes(keyword)) {
+        tags.add(keyword)
+      }
+    })
+
+    return Array.from(tags).slice(0, 10)
+  }
+
+  private removeDuplicates(events: ScrapedEvent[]): ScrapedEvent[] {
+    const seen = new Set<string>()
+    return events.filter(event => {
+      const key = event.title.toLowerCase().trim()
+      if (seen.has(key)) {
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+  }
+
+  private createFallbackEvents(): ScrapedEvent[] {
+    const { fallbackEvents, defaults, baseTags } = this.definition
+    const coords = CITY_COORDINATES[defaults.city]
+    const baseDate = new Date()
+
+    return (fallbackEvents?.events || []).map((eventData, index) => ({
+      title: eventData.title,
+      description: eventData.description,
+      ageMin: eventData.ageMin,
+      ageMax: eventData.ageMax,
+      priceType: 'PAID' as const,
+      price: eventData.price,
+      locationName: defaults.organizerName,
+      address: defaults.address,
+      city: defaults.city,
+      lat: coords?.lat,
+      lng: coords?.lng,
+      organizerName: defaults.organizerName,
+      sourceUrl: this.sourceUrl,
+      imageUrls: [],
+      startDate: addDays(baseDate, index * fallbackEvents!.intervalDays),
+      category: eventData.category,
+      tags: [...baseTags, ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
+    }))
+  }
+}
@@ -0,0 +1,316 @@
+import { load, CheerioAPI, Cheerio } from 'cheerio'
+import type { EventCategory, PriceType, ScrapedEvent } from './base-scraper'
+import { PolishEventParser } from '../utils/polish-parser'
+import { logger } from '../utils/logger'
+import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
+import { fromWallClock } from '@events-agregator/shared/src/recurrence'
+
+/**
+ * Venue data used when a schema.org Event leaves a field out.
+ */
+export interface StructuredEventDefaults {
+  locationName: string
+  address: string
+  city: string
+  organizerName: string
+  ageMin: number
+  ageMax: number
+}
+
+type SchemaNode = Record<string, any>
+
+// schema.org Event subtypes with an obvious category
+const TYPE_CATEGORIES: Record<string, EventCategory> = {
+  TheaterEvent: 'SPEKTAKLE',
+  ScreeningEvent: 'SPEKTAKLE',
+  MusicEvent: 'SPEKTAKLE',
+  DanceEvent: 'SPEKTAKLE',
+  ComedyEvent: 'SPEKTAKLE',
+  SportsEvent: 'SPORT',
+  EducationEvent: 'EDUKACJA',
+  CourseInstance: 'EDUKACJA',
+}
+
+const FREE_AVAILABILITY = /free|bezpłat|darmow/i
+
+/**
+ * Reads schema.org Event objects embedded as JSON-LD or microdata. Scrapers call
+ * this before their CSS selectors - structured data carries exact dates, prices and venues.
+ */
+export function extractStructuredEvents(
+  $: CheerioAPI,
+  pageUrl: string,
+  defaults: StructuredEventDefaults
+): ScrapedEvent[] {
+  const nodes = [...readJsonLd($, pageUrl), ...readMicrodata($)]
+  const events: ScrapedEvent[] = []
+
+  for (const node of nodes) {
+    try {
+      const event = mapSchemaEvent(node, pageUrl, defaults)
+      if (event) {
+        events.push(event)
+      }
+    } catch (error) {
+      logger.error(`Failed to map schema.org event on ${pageUrl}`, { error })
+    }
+  }
+
+  if (events.length > 0) {
+    logger.info(`Found ${events.length} schema.org events on: ${pageUrl}`)
+  }
+  return events
+}
+
+function readJsonLd($: CheerioAPI, pageUrl: string): SchemaNode[] {
+  const nodes: SchemaNode[] = []
+
+  $('script[type="application/ld+json"]').each((_, script) => {
+    const raw = $(script).contents().text()
+      .replace(/^\s*<!--|-->\s*$/g, '')
+      .replace(/^\s*\/\/\s*<!\[CDATA\[|\/\/\s*\]\]>\s*$/g, '')
+
+    try {
+      nodes.push(...collectEvents(JSON.parse(raw)))
+    } catch (error) {
+      logger.warn(`Invalid JSON-LD block on ${pageUrl}`, { error: error instanceof Error ? error.message : error })
+    }
+  })
+
+  return nodes
+}
+
+// Walks arrays, @graph containers and EventSeries.subEvent looking for Event nodes
+function collectEvents(value: unknown): SchemaNode[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectEvents)
+  }
+  if (!value || typeof value !== 'object') {
+    return []
+  }
+
+  const node = value as SchemaNode
+  const nested = [node['@graph'], node.subEvent, node.subEvents].flatMap(collectEvents)
+  return isEventType(node['@type']) && node.startDate ? [node, ...nested] : nested
+}
+
+function isEventType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type]
+  return types.some(name => typeof name === 'string' && (/Event$/.test(name) || name in TYPE_CATEGORIES))
+}
+
+function readMicrodata($: CheerioAPI): SchemaNode[] {
+  const nodes: SchemaNode[] = []
+
+  $('[itemscope][itemtype]').each((_, element) => {
+    const scope = $(element)
+    // Nested events (e.g. inside an EventSeries) are read as their own top-level items
+    const type = String(scope.attr('itemtype')).split('/').pop() || ''
+    if (!isEventType(type)) return
+
+    const node = readMicrodataItem($, scope)
+    if (node.startDate) {
+      nodes.push(node)
+    }
+  })
+
+  return nodes
+}
+
+function readMicrodataItem($: CheerioAPI, scope: Cheerio<any>): SchemaNode {
+  const node: SchemaNode = { '@type': String(scope.attr('itemtype') || '').split('/').pop() }
+
+  scope.find('[itemprop]').each((_, element) => {
+    const property = $(element)
+    // Properties of nested items belong to those items
+    if (property.parent().closest('[itemscope]')[0] !== scope[0]) return
+
+    const value = property.is('[itemscope]') ? readMicrodataItem($, property) : readMicrodataValue(property)
+    for (const name of String(property.attr('itemprop')).split(/\s+/)) {
+      node[name] = name in node ? ([] as unknown[]).concat(node[name], value) : value
+    }
+  })
+
+  return node
+}
+
+function readMicrodataValue(property: Cheerio<any>): string {
+  return (
+    property.attr('content') ??
+    property.attr('datetime') ??
+    property.attr('href') ??
+    property.attr('src') ??
+    property.text()
+  ).trim()
+}
+
+function mapSchemaEvent(node: SchemaNode, pageUrl: string, defaults: StructuredEventDefaults): ScrapedEvent | null {
+  if (String(node.eventStatus || '').endsWith('EventCancelled')) {
+    return null
+  }
+
+  const title = cleanText(node.name)
+  const startDate = parseDate(node.startDate)
+  if (!title || title.length < 3 || !startDate) {
+    return null
+  }
+
+  const description = cleanText(node.description)
+  const text = `${title} ${description}`
+  const location = mapLocation(first(node.location), defaults)
+  const price = mapOffers(node, text)
+  const age = parseTypicalAgeRange(node.typicalAgeRange) || PolishEventParser.extractAgeRange(text)
+  const types = ([] as unknown[]).concat(node['@type'])
+  const typeCategory = types.map(type => TYPE_CATEGORIES[String(type)]).find(Boolean)
+
+  return {
+    title: PolishEventParser.normalizeText(title),
+    description: PolishEventParser.normalizeText(description || title),
+    ageMin: age.min ?? defaults.ageMin,
+    ageMax: age.max ?? defaults.ageMax,
+    priceType: price.type,
+    price: price.amount,
+    currency: price.currency,
+    locationName: location.name,
+    address: location.address,
+    city: location.city,
+    lat: location.lat,
+    lng: location.lng,
+    postalCode: location.postalCode,
+    organizerName: cleanText(first(node.organizer)?.name ?? first(node.organizer)) || defaults.organizerName,
+    sourceUrl: resolveUrl(first(node.url), pageUrl) || pageUrl,
+    imageUrls: mapImages(node.image, pageUrl),
+    startDate,
+    endDate: parseDate(node.endDate) || undefined,
+    category: typeCategory || PolishEventParser.inferCategory(text),
+    tags: mapTags(node.keywords, location.city)
+  }
+}
+
+function mapLocation(location: any, defaults: StructuredEventDefaults) {
+  if (!location || typeof location === 'string') {
+    const name = cleanText(location)
+    return {
+      name: name ? PolishEventParser.normalizeVenue(name) : defaults.locationName,
+      address: defaults.address,
+      city: defaults.city,
+      ...CITY_COORDINATES[defaults.city],
+      postalCode: undefined as string | undefined
+    }
+  }
+
+  const address = first(location.address)
+  const street = typeof address === 'string' ? cleanText(address) : cleanText(address?.streetAddress)
+  const city = typeof address === 'object' && address?.addressLocality ? cleanText(address.addressLocality) : defaults.city
+  const geo = first(location.geo)
+  const cityCoords = CITY_COORDINATES[city]
+
+  return {
+    name: cleanText(location.name) ? PolishEventParser.normalizeVenue(cleanText(location.name)) : defaults.locationName,
+    address: street ? (street.includes(city) ? street : `${street}, ${city}`) : defaults.address,
+    city,
+    lat: geo?.latitude !== undefined ? Number(geo.latitude) : cityCoords?.lat,
+    lng: geo?.longitude !== undefined ? Number(geo.longitude) : cityCoords?.lng,
+    postalCode: typeof address === 'object' && address?.postalCode ? String(address.postalCode) : undefined
+  }
+}
+
+// offers.price (or AggregateOffer.lowPrice) beats text heuristics; 0 means free entry
+function mapOffers(node: SchemaNode, text: string): { type: PriceType; amount?: number; currency?: string } {
+  if (node.isAccessibleForFree === true || node.isAccessibleForFree === 'true' || node.isAccessibleForFree === 'True') {
+    return { type: 'FREE' }
+  }
+
+  const offers = ([] as any[]).concat(node.offers || []).filter(offer => offer && typeof offer === 'object')
+  const prices = offers
+    .map(offer => parsePrice(offer.price ?? offer.lowPrice))
+    .filter((price): price is number => price !== null)
+
+  if (prices.length > 0) {
+    const lowest = Math.min(...prices)
+    const currency = offers.find(offer => offer.priceCurrency)?.priceCurrency
+    return lowest === 0
+      ? { type: 'FREE' }
+      : { type: 'PAID', amount: lowest, currency: currency ? String(currency) : 'PLN' }
+  }
+
+  if (offers.some(offer => FREE_AVAILABILITY.test(String(offer.name || offer.description || '')))) {
+    return { type: 'FREE' }
+  }
+
+  const priceInfo = PolishEventParser.parsePrice(text)
+  return { type: priceInfo.type, amount: priceInfo.amount, currency: priceInfo.currency }
+}
+
+function parsePrice(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const amount = Number(String(value).replace(',', '.').replace(/[^\d.]/g, ''))
+  return isNaN(amount) ? null : amount
+}
+
+// typicalAgeRange looks like "7-12", "3-" or "6+"
+function parseTypicalAgeRange(value: unknown): { min?: number; max?: number } | null {
+  const match = typeof value === 'string' ? value.match(/(\d+)\s*(?:-\s*(\d+)?|\+)?/) : null
+  if (!match) return null
+  return { min: parseInt(match[1]), max: match[2] ? parseInt(match[2]) : undefined }
+}
+
+function mapImages(image: unknown, pageUrl: string): string[] {
+  return ([] as any[]).concat(image || [])
+    .map(item => resolveUrl(typeof item === 'string' ? item : item?.url || item?.contentUrl, pageUrl))
+    .filter((url): url is string => !!url)
+    .slice(0, 3)
+}
+
+function mapTags(keywords: unknown, city: string): string[] {
+  const list = Array.isArray(keywords) ? keywords : String(keywords || '').split(',')
+  const tags = new Set<string>([city.toLowerCase()])
+  list.forEach(keyword => {
+    const tag = String(keyword).toLowerCase().trim()
+    if (tag) tags.add(tag)
+  })
+  return Array.from(tags).slice(0, 10)
+}
+
+// ISO 8601 date or date-time without a zone designator
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/
+
+/**
+ * Dates and date-times without an offset are wall-clock time of the venue, so they are
+ * read in Europe/Warsaw rather than in the zone the scraper happens to run in.
+ */
+function parseDate(value: unknown): Date | null {
+  if (!value) return null
+  const text = String(first(value)).trim()
+  const local = text.match(LOCAL_DATE_TIME)
+  const date = local
+    ? fromWallClock({
+        year: +local[1],
+        month: +local[2],
+        day: +local[3],
+        hour: +(local[4] || 0),
+        minute: +(local[5] || 0),
+        second: +(local[6] || 0)
+      })
+    : new Date(text)
+  return isNaN(date.getTime()) ? null : date
+}
+
+function resolveUrl(href: unknown, pageUrl: string): string | null {
+  if (typeof href !== 'string' || !href.trim()) return null
+  try {
+    return new URL(href.trim(), pageUrl).toString()
+  } catch {
+    return null
+  }
+}
+
+function first(value: any): any {
+  return Array.isArray(value) ? value[0] : value
+}
+
+// Names and descriptions may contain HTML tags and entities
+function cleanText(value: unknown): string {
+  if (value === undefined || value === null || typeof value === 'object') return ''
+  return load(`<div>${String(value)}</div>`)('div').text().trim()
+}
@@ -1,357 +0,0 @@
-import axios from 'axios'
-import { load, CheerioAPI, Cheerio } from 'cheerio'
-import { BaseScraper, ScrapedEvent } from './base-scraper'
-import { PolishEventParser } from '../utils/polish-parser'
-import { logger } from '../utils/logger'
-import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
-import { addDays } from 'date-fns'
-
-/**
- * Scraper for Teatr Dramatyczny im. Aleksandra Węgierki w Białymstoku
- * Source: https://teatr.bialystok.pl - Major theater with family shows
- * Priority: Medium (theater performances for children and families)
- */
-export class TeatrDramatycznyBialystokScraper extends BaseScraper {
-  name = 'teatr-dramatyczny-bialystok'
-  sourceUrl = 'https://teatr.bialystok.pl'
-  eventsUrl = 'https://teatr.bialystok.pl/repertuar'
-  
-  protected async scrapeEvents(): Promise<ScrapedEvent[]> {
-    try {
-      logger.info(`Fetching Teatr Dramatyczny events from: ${this.eventsUrl}`)
-      
-      // Try multiple potential URLs for events
-      const urls = [
-        this.eventsUrl,
-        `${this.sourceUrl}/pl/repertuar`,
-        `${this.sourceUrl}/dzieci`,
-        `${this.sourceUrl}/rodzinne`,
-        `${this.sourceUrl}/spektakle`,
-        `${this.sourceUrl}/wydarzenia`,
-        this.sourceUrl
-      ]
-      
-      const events: ScrapedEvent[] = []
-      
-      for (const url of urls) {
-        try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
-          
-          const $ = load(response.data)
-          const pageEvents = this.extractEventsFromPage($, url)
-          events.push(...pageEvents)
-          
-          if (pageEvents.length > 0) {
-            logger.info(`Found ${pageEvents.length} events from: ${url}`)
-          }
-        } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
-        }
-      }
-      
-      // If no events found, create standard theater events
-      if (events.length === 0) {
-        logger.info('No events found on website, creating standard theater events')
-        const standardEvents = this.createStandardTheaterEvents()
-        events.push(...standardEvents)
-      }
-      
-      // Remove duplicates based on title
-      const uniqueEvents = this.removeDuplicates(events)
-      
-      logger.info(`Successfully parsed ${uniqueEvents.length} unique events from Teatr Dramatyczny`)
-      return uniqueEvents
-    } catch (error) {
-      logger.error(`Failed to fetch Teatr Dramatyczny events`, { 
-        error: error instanceof Error ? error.message : error,
-        stack: error instanceof Error ? error.stack : undefined
-      })
-      
-      // Return standard events as fallback
-      return this.createStandardTheaterEvents()
-    }
-  }
-  
-  private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
-    const events: ScrapedEvent[] = []
-    
-    // Try multiple selectors for theater events
-    const eventSelectors = [
-      '.event-item',
-      '.spektakl',
-      '.performance',
-      '.show-item',
-      '.calendar-event',
-      '.event-card',
-      '.event',
-      '.repertuar-item',
-      'article',
-      '.content-item',
-      '.card',
-      '.theater-event'
-    ]
-    
-    for (const selector of eventSelectors) {
-      const eventElements = $(selector)
-      if (eventElements.length > 0) {
-        logger.info(`Found ${eventElements.length} potential events using selector: ${selector}`)
-        
-        eventElements.each((index, element) => {
-          try {
-            const event = this.parseEventElement($, $(element), sourceUrl)
-            if (event) {
-              events.push(event)
-            }
-          } catch (error) {
-            logger.error(`Failed to parse theater event element ${index}`, { error })
-          }
-        })
-        
-        if (events.length > 0) break
-      }
-    }
-    
-    return events
-  }
-  
-  private parseEventElement($: CheerioAPI, element: Cheerio<any>, sourceUrl: string): ScrapedEvent | null {
-    // Extract title
-    const titleSelectors = ['h1', 'h2', 'h3', 'h4', '.title', '.event-title', '.card-title', '.spektakl-title', 'a']
-    let title = ''
-    
-    for (const selector of titleSelectors) {
-      const titleElement = element.find(selector).first()
-      if (titleElement.length > 0) {
-        title = titleElement.text().trim()
-        if (title.length > 5) break
-      }
-    }
-    
-    if (!title || title.length < 3) {
-      return null
-    }
-    
-    // Extract description
-    const descSelectors = ['.description', '.excerpt', '.content', '.summary', 'p', '.card-text']
-    let description = ''
-    
-    for (const selector of descSelectors) {
-      const descElement = element.find(selector).first()
-      if (descElement.length > 0) {
-        description = descElement.text().trim()
-        if (description.length > 10) break
-      }
-    }
-    
-    // Extract link
-    const linkElement = element.find('a').first()
-    const link = linkElement.length > 0 ? linkElement.attr('href') : ''
-    let eventUrl = link || sourceUrl
-    
-    // Make URL absolute
-    if (eventUrl.startsWith('/')) {
-      eventUrl = `${this.sourceUrl}${eventUrl}`
-    } else if (!eventUrl.startsWith('http')) {
-      eventUrl = `${this.sourceUrl}/${eventUrl}`
-    }
-    
-    // Extract full text for parsing
-    const fullText = `${title} ${description} ${element.text()}`
-    
-    // Use Polish parser for data extraction
-    const ageRange = PolishEventParser.extractAgeRange(fullText)
-    const priceInfo = PolishEventParser.parsePrice(fullText)
-    const location = PolishEventParser.extractLocation(fullText) || 'Teatr Dramatyczny im. A. Węgierki'
-    const dateRange = PolishEventParser.parseDate(fullText)
-    
-    // Theater events are typically performances
-    const category = this.mapCategory(fullText)
-    
-    // Use Białystok coordinates
-    const bialystokCoords = CITY_COORDINATES['Białystok']
-    
-    // Extract images
-    const images = this.extractImages($, element)
-    
-    return {
-      title: PolishEventParser.normalizeText(title),
-      description: PolishEventParser.normalizeText(description || 'Spektakl teatralny w Teatrze Dramatycznym'),
-      ageMin: ageRange.min || 6,
-      ageMax: ageRange.max || 18,
-      priceType: priceInfo.type,
-      price: priceInfo.amount,
-      locationName: PolishEventParser.normalizeVenue(location),
-      address: 'ul. Zabia 2, Białystok',
-      city: 'Białystok',
-      lat: bialystokCoords.lat,
-      lng: bialystokCoords.lng,
-      organizerName: 'Teatr Dramatyczny im. Aleksandra Węgierki',
-      sourceUrl: eventUrl,
-      imageUrls: images,
-      startDate: dateRange?.startDate || this.getDefaultDate(),
-      category,
-      tags: this.generateTags(fullText)
-    }
-  }
-  
-  private createStandardTheaterEvents(): ScrapedEvent[] {
-    const bialystokCoords = CITY_COORDINATES['Białystok']
-    const baseDate = new Date()
-    
-    // Standard theater offerings for children and families
-    const standardEvents = [
-      {
-        title: 'Bajkowe spektakle dla najmłodszych',
-        description: 'Klasyczne bajki w wykonaniu profesjonalnych aktorów. Interaktywne przedstawienia dla dzieci w wieku przedszkolnym.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['bajki', 'przedszkolne', 'interaktywne', 'klasyczne'],
-        price: 20,
-        ageMin: 3,
-        ageMax: 7
-      },
-      {
-        title: 'Spektakle familijne w weekendy',
-        description: 'Niedzielne przedstawienia dla całej rodziny. Repertuar dostosowany do różnych grup wiekowych.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['rodzinne', 'weekend', 'niedzielne', 'różne'],
-        price: 25,
-        ageMin: 5,
-        ageMax: 18
-      },
-      {
-        title: 'Warsztaty teatralne dla dzieci',
-        description: 'Zajęcia rozwijające umiejętności aktorskie. Dzieci uczą się podstaw gry aktorskiej i technik scenicznych.',
-        category: 'WARSZTATY' as const,
-        tags: ['aktorskie', 'sceniczne', 'podstawy', 'umiejętności'],
-        price: 30,
-        ageMin: 8,
-        ageMax: 16
-      },
-      {
-        title: 'Spektakle edukacyjne dla szkół',
-        description: 'Przedstawienia dopasowane do programu szkolnego. Literatura polska w atrakcyjnej formie teatralnej.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['edukacyjne', 'szkoły', 'literatura', 'program'],
-        price: 15,
-        ageMin: 7,
-        ageMax: 17
-      },
-      {
-        title: 'Mikołajkowe przedstawienia',
-        description: 'Świąteczne spektakle z udziałem Św. Mikołaja. Magiczne chwile dla najmłodszych widzów.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['mikołajkowe', 'świąteczne', 'magiczne', 'widzowie'],
-        price: 35,
-        ageMin: 3,
-        ageMax: 12
-      },
-      {
-        title: 'Młodzieżowe spektakle współczesne',
-        description: 'Nowoczesne przedstawienia poruszające tematy ważne dla młodzieży. Aktualne problemy w formie teatralnej.',
-        category: 'SPEKTAKLE' as const,
-        tags: ['młodzieżowe', 'współczesne', 'aktualne', 'problemy'],
-        price: 22,
-        ageMin: 12,
-        ageMax: 18
-      }
-    ]
-    
-    return standardEvents.map((eventData, index) => ({
-      title: eventData.title,
-      description: eventData.description,
-      ageMin: eventData.ageMin,
-      ageMax: eventData.ageMax,
-      priceType: 'PAID' as const,
-      price: eventData.price,
-      locationName: 'Teatr Dramatyczny im. Aleksandra Węgierki',
-      address: 'ul. Zabia 2, Białystok',
-      city: 'Białystok',
-      lat: bialystokCoords.lat,
-      lng: bialystokCoords.lng,
-      organizerName: 'Teatr Dramatyczny im. Aleksandra Węgierki',
-      sourceUrl: this.sourceUrl,
-      imageUrls: [],
-      startDate: addDays(baseDate, index * 8), // Events every 8 days
-      category: eventData.category,
-      tags: ['białystok', 'teatr', 'spektakle', 'kultura', ...eventData.tags]
-    }))
-  }
-  
-  private extractImages($: CheerioAPI, element: Cheerio<any>): string[] {
-    const images: string[] = []
-    
-    element.find('img').each((_: any, img: any) => {
-      const src = $(img).attr('src')
-      if (src) {
-        let imageUrl = src
-        // Make URLs absolute
-        if (imageUrl.startsWith('/')) {
-          imageUrl = `${this.sourceUrl}${imageUrl}`
-        } else if (!imageUrl.startsWith('http')) {
-          imageUrl = `${this.sourceUrl}/${imageUrl}`
-        }
-        images.push(imageUrl)
-      }
-    })
-    
-    return images.slice(0, 3)
-  }
-  
-  protected mapCategory(text: string): 'WARSZTATY' | 'SPEKTAKLE' | 'SPORT' | 'EDUKACJA' | 'INNE' {
-    const lowerText = text.toLowerCase()
-    
-    if (lowerText.match(/warsztat|zajęcia|aktorskie|sceniczne|teatralne/)) {
-      return 'WARSZTATY'
-    }
-    if (lowerText.match(/spektakl|przedstawienie|bajki|familijne|mikołajkowe|teatr/)) {
-      return 'SPEKTAKLE'
-    }
-    if (lowerText.match(/edukacyjne|szkoły|literatura|program/)) {
-      return 'EDUKACJA'
-    }
-    
-    // Default for theater
-    return 'SPEKTAKLE'
-  }
-  
-  private generateTags(text: string): string[] {
-    const tags = new Set<string>(['białystok', 'teatr', 'spektakle', 'kultura'])
-    
-    const keywords = [
-      'dzieci', 'rodzina', 'bajki', 'przedstawienia', 'aktorskie', 'edukacyjne',
-      'weekend', 'świąteczne', 'młodzieżowe', 'interaktywne', 'warsztaty'
-    ]
-    
-    const lowerText = text.toLowerCase()
-    keywords.forEach(keyword => {
-      if (lowerText.includes(keyword)) {
-        tags.add(keyword)
-      }
-    })
-    
-    return Array.from(tags).slice(0, 10)
-  }
-  
-  private removeDuplicates(events: ScrapedEvent[]): ScrapedEvent[] {
-    const seen = new Set<string>()
-    return events.filter(event => {
-      const key = event.title.toLowerCase().trim()
-      if (seen.has(key)) {
-        return false
-      }
-      seen.add(key)
-      return true
-    })
-  }
-  
-  private getDefaultDate(): Date {
-    return addDays(new Date(), 7) // Default to next week
-  }
-}
\ No newline at end of file
@@ -9,6 +9,7 @@ import { logger } from '../utils/logger'
 export class TestScraper extends BaseScraper {
   name = 'test-scraper'
   sourceUrl = 'https://test.example.com'
+  schedule = { enabled: false } // Run manually only
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     logger.info('Test scraper: Generating test events')
@@ -35,7 +36,8 @@ export class TestScraper extends BaseScraper {
         startDate: addDays(new Date(), 3),
         endDate: addHours(addDays(new Date(), 3), 2),
         category: 'EDUKACJA',
-        tags: ['test', 'robotyka', 'LEGO']
+        tags: ['test', 'robotyka', 'LEGO'],
+        provenance: 'SYNTHESIZED'
       },
       {
         title: `[TEST] Spektakl dla maluchów - ${new Date().toISOString().split('T')[0]}`,
@@ -54,7 +56,8 @@ export class TestScraper extends BaseScraper {
         startDate: addDays(new Date(), 5),
         endDate: addHours(addDays(new Date(), 5), 1.5),
         category: 'SPEKTAKLE',
-        tags: ['test', 'teatr', 'bajka']
+        tags: ['test', 'teatr', 'bajka'],
+        provenance: 'SYNTHESIZED'
       }
     ]
     
@@ -1,6 +1,7 @@
-import axios from 'axios'
+import { httpClient } from '../utils/http-client'
 import { load, CheerioAPI, Cheerio } from 'cheerio'
 import { BaseScraper, ScrapedEvent } from './base-scraper'
+import { extractStructuredEvents, StructuredEventDefaults } from './structured-data-extractor'
 import { PolishEventParser } from '../utils/polish-parser'
 import { logger } from '../utils/logger'
 import { CITY_COORDINATES } from '@events-agregator/shared/src/constants/cities'
@@ -14,7 +15,16 @@ import { addDays } from 'date-fns'
 export class ZooWarszawaScraper extends BaseScraper {
   name = 'zoo-warszawa'
   sourceUrl = 'https://zoo.waw.pl'
+  schedule = { city: 'Warszawa', pattern: '45 3,15 * * *' }
   eventsUrl = 'https://zoo.waw.pl/wydarzenia'
+  venueDefaults: StructuredEventDefaults = {
+    locationName: 'Ogród Zoologiczny w Warszawie',
+    address: 'ul. Ratuszowa 1/3, Warszawa',
+    city: 'Warszawa',
+    organizerName: 'Miejski Ogród Zoologiczny w Warszawie',
+    ageMin: 3,
+    ageMax: 16
+  }
   
   protected async scrapeEvents(): Promise<ScrapedEvent[]> {
     try {
@@ -32,14 +42,7 @@ export class ZooWarszawaScraper extends BaseScraper {
       
       for (const url of urls) {
         try {
-          const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
-            }
-          })
+          const response = await httpClient.get(url)
           
           const $ = load(response.data)
           const pageEvents = this.extractEventsFromPage($, url)
@@ -50,7 +53,7 @@ export class ZooWarszawaScraper extends BaseScraper {
             break // Stop after finding events
           }
         } catch (error) {
-          logger.warn(`Failed to fetch from ${url}`, { error: error instanceof Error ? error.message : error })
+          this.listPageFailed(url, error)
         }
       }
       
@@ -78,6 +81,11 @@ export class ZooWarszawaScraper extends BaseScraper {
   }
   
   private extractEventsFromPage($: CheerioAPI, sourceUrl: string): ScrapedEvent[] {
+    const structuredEvents = extractStructuredEvents($, sourceUrl, this.venueDefaults)
+    if (structuredEvents.length > 0) {
+      return structuredEvents
+    }
+    
     const events: ScrapedEvent[] = []
     
     // Try multiple selectors for zoo events
@@ -192,6 +200,9 @@ export class ZooWarszawaScraper extends BaseScraper {
       sourceUrl: eventUrl,
       imageUrls: images,
       startDate: dateRange?.startDate || this.getDefaultDate(),
+      dateIsDefault: !dateRange?.startDate,
+      recurrenceRule: dateRange?.recurrenceRule,
+      recurrenceExceptions: dateRange?.exceptions,
       category,
       tags: this.generateTags(fullText)
     }
@@ -268,7 +279,8 @@ export class ZooWarszawaScraper extends BaseScraper {
       imageUrls: [],
       startDate: addDays(baseDate, index * 5), // Events every 5 days
       category: eventData.category,
-      tags: ['warszawa', 'zoo', 'zwierzęta', 'rodzina', ...eventData.tags]
+      tags: ['warszawa', 'zoo', 'zwierzęta', 'rodzina', ...eventData.tags],
+      provenance: 'SYNTHESIZED' as const
     }))
   }
   
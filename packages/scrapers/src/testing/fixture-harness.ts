@@ -0,0 +1,206 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse } from 'axios'
+import fs from 'fs'
+import path from 'path'
+import type { BaseScraper, ScrapedEvent } from '../scrapers/base-scraper'
+
+export const FIXTURES_DIR = path.join(__dirname, '..', '..', 'test', 'fixtures')
+export const SNAPSHOTS_DIR = path.join(__dirname, '..', '..', 'test', '__snapshots__')
+
+// Dates in snapshots depend on the timezone the scraper parses them in
+const FIXTURE_TIMEZONE = 'Europe/Warsaw'
+
+export interface RecordedResponse {
+  status: number // 0 when the request failed without a response
+  contentType?: string
+  body?: string
+  encoding?: 'utf8' | 'base64'
+  error?: string
+}
+
+export interface ScraperFixture {
+  scraper: string
+  recordedAt: string // Replays run with the clock frozen at this moment
+  responses: Record<string, RecordedResponse> // Keyed by full request URL incl. query params
+}
+
+export type SerializedEvent = Record<string, unknown>
+
+/**
+ * Loads every registered scraper. Supabase is never called by scrapeEvents(),
+ * so placeholder credentials are enough to import the scraper modules.
+ */
+export async function loadScrapers(): Promise<BaseScraper[]> {
+  process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321'
+  process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'fixture-harness'
+  process.env.TZ = FIXTURE_TIMEZONE
+  // Fixtures must capture real responses, never the development disk cache
+  process.env.HTTP_DISK_CACHE = 'false'
+
+  const { ScraperManager } = await import('../scrapers/scraper-manager')
+  const manager = new ScraperManager()
+  return manager.getScraperNames().map(name => manager.getScraper(name)!)
+}
+
+/**
+ * Runs a scraper against the live sites and captures every response it received.
+ */
+export async function recordFixture(scraper: BaseScraper): Promise<{ fixture: ScraperFixture; events: ScrapedEvent[] }> {
+  const recordedAt = new Date()
+  const responses: Record<string, RecordedResponse> = {}
+  const liveAdapter = axios.getAdapter(axios.defaults.adapter)
+
+  const recordingAdapter: AxiosAdapter = async config => {
+    const key = axios.getUri(config)
+    try {
+      const response = await liveAdapter(config)
+      responses[key] = toRecordedResponse(response)
+      return response
+    } catch (error) {
+      responses[key] = error instanceof AxiosError && error.response
+        ? toRecordedResponse(error.response)
+        : { status: 0, error: error instanceof Error ? error.message : String(error) }
+      throw error
+    }
+  }
+
+  const events = await runWithAdapter(scraper, recordingAdapter, recordedAt)
+  return {
+    fixture: { scraper: scraper.name, recordedAt: recordedAt.toISOString(), responses },
+    events
+  }
+}
+
+/**
+ * Runs a scraper offline, answering its HTTP requests from the fixture.
+ * Requests that were not recorded fail like an unreachable host.
+ */
+export async function replayFixture(scraper: BaseScraper, fixture: ScraperFixture): Promise<ScrapedEvent[]> {
+  // Recorded failures would only be retried against the same answer
+  process.env.HTTP_MAX_RETRIES = '0'
+  process.env.HTTP_DOMAIN_DELAY_MS = '0'
+
+  const replayAdapter: AxiosAdapter = async config => {
+    const key = axios.getUri(config)
+    const recorded = fixture.responses[key]
+
+    if (!recorded || recorded.status === 0) {
+      throw new AxiosError(recorded?.error || `No fixture recorded for ${key}`, AxiosError.ERR_NETWORK, config)
+    }
+
+    const response: AxiosResponse = {
+      data: recorded.encoding === 'base64' ? Buffer.from(recorded.body || '', 'base64') : recorded.body,
+      status: recorded.status,
+      statusText: '',
+      headers: recorded.contentType ? { 'content-type': recorded.contentType } : {},
+      config,
+      request: {}
+    }
+
+    const validateStatus = config.validateStatus
+    if (!validateStatus || validateStatus(response.status)) {
+      return response
+    }
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    )
+  }
+
+  return runWithAdapter(scraper, replayAdapter, new Date(fixture.recordedAt))
+}
+
+async function runWithAdapter(scraper: BaseScraper, adapter: AxiosAdapter, now: Date): Promise<ScrapedEvent[]> {
+  const originalAdapter = axios.defaults.adapter
+  const restoreClock = freezeClock(now)
+
+  axios.defaults.adapter = adapter
+
+  try {
+    return await scraper['scrapeEvents']()
+  } finally {
+    axios.defaults.adapter = originalAdapter
+    restoreClock()
+  }
+}
+
+function toRecordedResponse(response: AxiosResponse): RecordedResponse {
+  const contentType = response.headers?.['content-type'] ? String(response.headers['content-type']) : undefined
+  if (Buffer.isBuffer(response.data)) {
+    return { status: response.status, contentType, body: response.data.toString('base64'), encoding: 'base64' }
+  }
+  const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data)
+  return { status: response.status, contentType, body, encoding: 'utf8' }
+}
+
+// Scrapers fill in missing dates relative to "now", so the clock must match the recording
+function freezeClock(now: Date): () => void {
+  const RealDate = Date
+  const frozenTime = now.getTime()
+
+  class FrozenDate extends RealDate {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) {
+        super(frozenTime)
+      } else {
+        super(...(args as [string | number | Date]))
+      }
+    }
+
+    static now() {
+      return frozenTime
+    }
+  }
+
+  global.Date = FrozenDate as DateConstructor
+  return () => {
+    global.Date = RealDate
+  }
+}
+
+/**
+ * Converts events to the JSON shape stored in snapshots (dates as ISO strings).
+ */
+export function serializeEvents(events: ScrapedEvent[]): SerializedEvent[] {
+  return JSON.parse(JSON.stringify(events))
+}
+
+export function readFixture(fixtureName: string): ScraperFixture | null {
+  return readJson<ScraperFixture>(path.join(FIXTURES_DIR, `${fixtureName}.json`))
+}
+
+/**
+ * Names of the extra fixtures of a scraper, stored as <scraper>.<case>.json next to the recorded one.
+ * They cover listings the live site did not show when it was recorded and are kept by hand.
+ */
+export function listFixtureCases(scraperName: string): string[] {
+  if (!fs.existsSync(FIXTURES_DIR)) return []
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.startsWith(`${scraperName}.`) && file.endsWith('.json') && file !== `${scraperName}.json`)
+    .map(file => file.slice(0, -'.json'.length))
+    .sort()
+}
+
+export function writeFixture(fixture: ScraperFixture) {
+  writeJson(path.join(FIXTURES_DIR, `${fixture.scraper}.json`), fixture)
+}
+
+export function readSnapshot(fixtureName: string): SerializedEvent[] | null {
+  return readJson<SerializedEvent[]>(path.join(SNAPSHOTS_DIR, `${fixtureName}.json`))
+}
+
+export function writeSnapshot(fixtureName: string, events: SerializedEvent[]) {
+  writeJson(path.join(SNAPSHOTS_DIR, `${fixtureName}.json`), events)
+}
+
+function readJson<T>(file: string): T | null {
+  if (!fs.existsSync(file)) return null
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as T
+}
+
+function writeJson(file: string, data: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n')
+}
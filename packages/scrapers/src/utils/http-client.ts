@@ -0,0 +1,331 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios'
+import { AsyncLocalStorage } from 'async_hooks'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { performance } from 'perf_hooks'
+import { logger } from './logger'
+import { isPathAllowed, parseRobotsTxt, RobotsRules } from './robots-txt'
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; Events-Agregator/1.0; +https://example.com)'
+const ROBOTS_AGENT = 'Events-Agregator'
+
+export const HTML_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+export const FEED_ACCEPT = 'application/rss+xml, application/xml, text/xml, text/html, */*'
+
+const DEFAULT_HEADERS = {
+  'User-Agent': USER_AGENT,
+  'Accept': HTML_ACCEPT,
+  'Accept-Language': 'pl-PL,pl;q=0.9,en;q=0.8'
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+const MAX_RETRY_DELAY_MS = 30000
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000
+const ROBOTS_RETRY_MS = 10 * 60 * 1000 // An unreachable robots.txt is tried again this soon
+const MEMORY_CACHE_LIMIT = 500
+const DISK_CACHE_DIR = path.join(__dirname, '..', '..', '.cache', 'http')
+
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  retries?: number // Overrides HTTP_MAX_RETRIES for this request
+  ignoreRobots?: boolean
+}
+
+interface CacheEntry {
+  url: string
+  etag?: string
+  lastModified?: string
+  contentType?: string
+  data: unknown
+  storedAt: number
+}
+
+interface RobotsState {
+  rules: RobotsRules | null // null when the site has no robots.txt
+  unreachable: boolean
+}
+
+interface DomainState {
+  active: number
+  nextRequestAt: number // performance.now() timestamp, so frozen test clocks don't stall requests
+  waiting: Array<() => void>
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(public url: string) {
+    super(`Blocked by robots.txt: ${url}`)
+    this.name = 'RobotsDisallowedError'
+  }
+}
+
+export class RobotsUnreachableError extends Error {
+  constructor(public url: string) {
+    super(`robots.txt could not be fetched, not requesting: ${url}`)
+    this.name = 'RobotsUnreachableError'
+  }
+}
+
+// Read on every request so scripts and the fixture harness can tune them via env
+function getSettings() {
+  return {
+    maxRetries: Number(process.env.HTTP_MAX_RETRIES ?? 2),
+    domainConcurrency: Math.max(1, Number(process.env.HTTP_DOMAIN_CONCURRENCY ?? 2)),
+    domainDelayMs: Number(process.env.HTTP_DOMAIN_DELAY_MS ?? 1000),
+    diskCache: process.env.HTTP_DISK_CACHE
+      ? process.env.HTTP_DISK_CACHE === 'true'
+      : process.env.NODE_ENV === 'development',
+    diskCacheTtlMs: Number(process.env.HTTP_DISK_CACHE_TTL_MS ?? 60 * 60 * 1000)
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Signal of the scraper run making the request, so requests need not pass it around
+const runSignal = new AsyncLocalStorage<AbortSignal>()
+
+/**
+ * Runs fn with every request it makes cancelled once the signal aborts.
+ */
+export function withAbortSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return runSignal.run(signal, fn)
+}
+
+/**
+ * Shared fetch layer for scrapers: conditional requests (ETag/Last-Modified),
+ * exponential backoff retries, per-domain throttling, robots.txt checks and,
+ * in development, a disk cache that spares venue sites while iterating on parsers.
+ */
+export class HttpClient {
+  private cache = new Map<string, CacheEntry>()
+  private domains = new Map<string, DomainState>()
+  private robots = new Map<string, { state: Promise<RobotsState>; fetchedAt: number }>()
+
+  async get<T = any>(url: string, config: HttpRequestConfig = {}): Promise<AxiosResponse<T>> {
+    const { retries, ignoreRobots, ...axiosConfig } = config
+    const settings = getSettings()
+    const requestUrl = axios.getUri({ url, params: axiosConfig.params })
+    const signal = (axiosConfig.signal as AbortSignal | undefined) ?? runSignal.getStore()
+    signal?.throwIfAborted()
+
+    if (!ignoreRobots) {
+      await this.checkRobots(requestUrl)
+    }
+
+    const cached = this.getCached(requestUrl, settings.diskCache)
+    if (cached && settings.diskCache && Date.now() - cached.storedAt < settings.diskCacheTtlMs) {
+      logger.debug(`HTTP disk cache hit: ${requestUrl}`)
+      return this.cachedResponse<T>(cached, { ...axiosConfig, url })
+    }
+
+    const headers: Record<string, string> = { ...DEFAULT_HEADERS, ...(axiosConfig.headers as Record<string, string>) }
+    if (cached?.etag) headers['If-None-Match'] = cached.etag
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified
+
+    const host = new URL(requestUrl).host
+    const response = await this.withRetries(requestUrl, retries ?? settings.maxRetries, signal, () =>
+      this.throttled(host, settings, () => axios.get<T>(url, {
+        timeout: DEFAULT_TIMEOUT_MS,
+        ...axiosConfig,
+        signal,
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cached)
+      }))
+    )
+
+    if (response.status === 304 && cached) {
+      logger.debug(`HTTP not modified: ${requestUrl}`)
+      this.store({ ...cached, storedAt: Date.now() }, settings.diskCache)
+      return { ...response, status: 200, data: cached.data as T }
+    }
+
+    this.storeResponse(requestUrl, response, settings.diskCache)
+    return response
+  }
+
+  private async withRetries<T>(
+    url: string,
+    maxRetries: number,
+    signal: AbortSignal | undefined,
+    request: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        signal?.throwIfAborted()
+        return await request()
+      } catch (error) {
+        if (attempt >= maxRetries || signal?.aborted || !this.isRetryable(error)) {
+          throw error
+        }
+
+        const delayMs = this.retryDelay(error as AxiosError, attempt)
+        logger.warn(`Retrying ${url} in ${delayMs}ms (attempt ${attempt + 2}/${maxRetries + 1})`, {
+          error: error instanceof Error ? error.message : error
+        })
+        await sleep(delayMs)
+      }
+    }
+  }
+
+  // Network errors, timeouts, rate limits and server errors are worth another try
+  private isRetryable(error: unknown): boolean {
+    if (!(error instanceof AxiosError) || error.code === AxiosError.ERR_CANCELED) return false
+    const status = error.response?.status
+    return !status || status === 429 || status >= 500
+  }
+
+  private retryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = Number(error.response?.headers?.['retry-after'])
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS)
+    }
+    return Math.min(1000 * 2 ** attempt + Math.floor(Math.random() * 250), MAX_RETRY_DELAY_MS)
+  }
+
+  private async throttled<T>(
+    host: string,
+    settings: ReturnType<typeof getSettings>,
+    request: () => Promise<T>
+  ): Promise<T> {
+    let domain = this.domains.get(host)
+    if (!domain) {
+      domain = { active: 0, nextRequestAt: 0, waiting: [] }
+      this.domains.set(host, domain)
+    }
+
+    while (domain.active >= settings.domainConcurrency) {
+      await new Promise<void>(resolve => domain!.waiting.push(resolve))
+    }
+    domain.active++
+
+    try {
+      const now = performance.now()
+      const startAt = Math.max(now, domain.nextRequestAt)
+      domain.nextRequestAt = startAt + settings.domainDelayMs
+      if (startAt > now) {
+        await sleep(startAt - now)
+      }
+      return await request()
+    } finally {
+      domain.active--
+      domain.waiting.shift()?.()
+    }
+  }
+
+  private async checkRobots(url: string) {
+    const { origin, pathname, search } = new URL(url)
+    if (pathname === '/robots.txt') return
+
+    let entry = this.robots.get(origin)
+    if (entry) {
+      const ttlMs = (await entry.state).unreachable ? ROBOTS_RETRY_MS : ROBOTS_TTL_MS
+      if (Date.now() - entry.fetchedAt > ttlMs) entry = undefined
+    }
+    if (!entry) {
+      entry = { state: this.fetchRobots(origin), fetchedAt: Date.now() }
+      this.robots.set(origin, entry)
+    }
+
+    const { rules, unreachable } = await entry.state
+    if (unreachable) {
+      throw new RobotsUnreachableError(url)
+    }
+    if (rules && !isPathAllowed(rules, pathname + search)) {
+      throw new RobotsDisallowedError(url)
+    }
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsState> {
+    try {
+      const response = await this.get<string>(`${origin}/robots.txt`, {
+        ignoreRobots: true,
+        retries: 0,
+        responseType: 'text',
+        headers: { Accept: 'text/plain, */*' }
+      })
+      return { rules: parseRobotsTxt(String(response.data), ROBOTS_AGENT), unreachable: false }
+    } catch (error) {
+      // A missing robots.txt (4xx) places no restrictions
+      const status = error instanceof AxiosError ? error.response?.status : undefined
+      if (status && status >= 400 && status < 500) {
+        return { rules: null, unreachable: false }
+      }
+
+      // Server and network errors may hide rules, so the whole origin is off limits
+      // until the next attempt (RFC 9309, 2.3.1.4)
+      logger.warn(`robots.txt unreachable for ${origin}`, { error: error instanceof Error ? error.message : error })
+      return { rules: null, unreachable: true }
+    }
+  }
+
+  private getCached(url: string, useDisk: boolean): CacheEntry | null {
+    const inMemory = this.cache.get(url)
+    if (inMemory || !useDisk) return inMemory || null
+
+    try {
+      const file = this.cacheFile(url)
+      return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry : null
+    } catch (error) {
+      logger.warn(`Failed to read HTTP cache for ${url}`, { error: error instanceof Error ? error.message : error })
+      return null
+    }
+  }
+
+  private storeResponse(url: string, response: AxiosResponse, useDisk: boolean) {
+    // Streams and binary bodies are passed through uncached
+    if (response.status !== 200 || Buffer.isBuffer(response.data) || typeof response.data?.pipe === 'function') {
+      return
+    }
+
+    const etag = response.headers?.['etag']
+    const lastModified = response.headers?.['last-modified']
+    const contentType = response.headers?.['content-type']
+
+    // Without validators the memory cache could never be revalidated
+    if (!etag && !lastModified && !useDisk) return
+
+    this.store({
+      url,
+      etag: etag ? String(etag) : undefined,
+      lastModified: lastModified ? String(lastModified) : undefined,
+      contentType: contentType ? String(contentType) : undefined,
+      data: response.data,
+      storedAt: Date.now()
+    }, useDisk)
+  }
+
+  private store(entry: CacheEntry, useDisk: boolean) {
+    if (entry.etag || entry.lastModified) {
+      this.cache.delete(entry.url)
+      this.cache.set(entry.url, entry)
+      if (this.cache.size > MEMORY_CACHE_LIMIT) {
+        this.cache.delete(this.cache.keys().next().value!)
+      }
+    }
+
+    if (useDisk) {
+      try {
+        fs.mkdirSync(DISK_CACHE_DIR, { recursive: true })
+        fs.writeFileSync(this.cacheFile(entry.url), JSON.stringify(entry))
+      } catch (error) {
+        logger.warn(`Failed to write HTTP cache for ${entry.url}`, { error: error instanceof Error ? error.message : error })
+      }
+    }
+  }
+
+  private cacheFile(url: string): string {
+    return path.join(DISK_CACHE_DIR, `${crypto.createHash('sha1').update(url).digest('hex')}.json`)
+  }
+
+  private cachedResponse<T>(entry: CacheEntry, config: AxiosRequestConfig): AxiosResponse<T> {
+    return {
+      data: entry.data as T,
+      status: 200,
+      statusText: 'OK',
+      headers: entry.contentType ? { 'content-type': entry.contentType } : {},
+      config: config as AxiosResponse['config'],
+      request: {}
+    }
+  }
+}
+
+export const httpClient = new HttpClient()
@@ -1,5 +1,7 @@
 import { addDays, addWeeks, addMonths, parseISO, format, isValid } from 'date-fns'
 import { pl } from 'date-fns/locale'
+import type { EventCategory } from '../scrapers/base-scraper'
+import { formatRecurrenceRule, getPolishPublicHolidays, RecurrenceWeekday } from '@events-agregator/shared/src/recurrence'
 
 export interface AgeRange {
   min?: number
@@ -18,6 +20,8 @@ export interface DateRange {
   endDate?: Date
   recurring?: boolean
   pattern?: string
+  recurrenceRule?: string // RRULE for recurring dates, e.g. FREQ=WEEKLY;BYDAY=SA,SU
+  exceptions?: string[] // YYYY-MM-DD dates the series skips
 }
 
 /**
@@ -34,9 +38,16 @@ export class PolishEventParser {
 
   private static readonly POLISH_WEEKDAYS = {
     'poniedziałek': 1, 'wtorek': 2, 'środa': 3, 'czwartek': 4, 'piątek': 5, 'sobota': 6, 'niedziela': 0,
-    'poniedziałki': 1, 'wtorki': 2, 'środy': 3, 'czwartki': 4, 'piątki': 5, 'soboty': 6, 'niedziele': 0
+    'poniedziałki': 1, 'wtorki': 2, 'środy': 3, 'czwartki': 4, 'piątki': 5, 'soboty': 6, 'niedziele': 0,
+    'środę': 3, 'sobotę': 6, 'niedzielę': 0
   }
 
+  private static readonly RECURRING_WEEKDAY_PATTERN =
+    /(soboty|niedziele|poniedziałki|wtorki|środy|czwartki|piątki)|każd[yą]\s+(poniedziałek|wtorek|środę|czwartek|piątek|sobotę|niedzielę)/g
+
+  // Indexed like Date.getDay()
+  private static readonly RRULE_WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
   private static readonly FREE_KEYWORDS = [
     'bezpłatny', 'bezpłatnie', 'darmowy', 'darmowe', 'wstęp wolny', 'wstęp bezpłatny',
     'free', 'gratis', 'za darmo', 'bez opłat', 'nieodpłatny'
@@ -85,17 +96,31 @@ export class PolishEventParser {
       }
     }
 
-    // Weekday patterns: "soboty i niedziele"
-    const weekdayMatch = cleanText.match(/(soboty|niedziele|poniedziałki|wtorki|środy|czwartki|piątki)/i)
-    if (weekdayMatch) {
-      const weekday = this.POLISH_WEEKDAYS[weekdayMatch[1] as keyof typeof this.POLISH_WEEKDAYS]
-      if (weekday !== undefined) {
-        const nextWeekday = this.getNextWeekday(baseDate, weekday)
-        return { 
-          startDate: nextWeekday, 
-          recurring: true,
-          pattern: weekdayMatch[1]
-        }
+    // Weekday patterns: "soboty i niedziele", "w każdy wtorek"
+    const weekdayMatches = Array.from(cleanText.matchAll(this.RECURRING_WEEKDAY_PATTERN))
+    if (weekdayMatches.length > 0) {
+      const weekdays = Array.from(new Set(weekdayMatches.map(match =>
+        this.POLISH_WEEKDAYS[(match[1] || match[2]) as keyof typeof this.POLISH_WEEKDAYS]
+      ))).sort((a, b) => (a + 6) % 7 - (b + 6) % 7)
+
+      const time = cleanText.match(/(?:godz\.?|godzinie|\bo)\s*(\d{1,2})[:.](\d{2})/)
+      const nextDates = weekdays.map(weekday => {
+        const date = this.getNextWeekday(baseDate, weekday)
+        date.setHours(time ? parseInt(time[1]) : 0, time ? parseInt(time[2]) : 0, 0, 0)
+        return date
+      })
+      const exceptions = this.parseRecurrenceExceptions(cleanText, baseDate)
+
+      return {
+        startDate: new Date(Math.min(...nextDates.map(date => date.getTime()))),
+        recurring: true,
+        pattern: weekdayMatches[0][0],
+        recurrenceRule: formatRecurrenceRule({
+          frequency: 'WEEKLY',
+          interval: 1,
+          byDay: weekdays.map(weekday => ({ weekday: this.RRULE_WEEKDAYS[weekday] }))
+        }),
+        ...(exceptions.length > 0 && { exceptions })
       }
     }
 
@@ -231,6 +256,34 @@ export class PolishEventParser {
     return { type: 'PAID', amount: 20, currency: 'PLN' }
   }
 
+  /**
+   * Infer event category from Polish keywords
+   */
+  static inferCategory(text: string): EventCategory {
+    const lowerText = text.toLowerCase()
+
+    if (lowerText.includes('warsztat') || lowerText.includes('zajęcia') ||
+        lowerText.includes('kurs') || lowerText.includes('lekcj')) {
+      return 'WARSZTATY'
+    }
+    if (lowerText.includes('spektakl') || lowerText.includes('teatr') ||
+        lowerText.includes('przedstawieni') || lowerText.includes('musical')) {
+      return 'SPEKTAKLE'
+    }
+    if (lowerText.includes('sport') || lowerText.includes('basen') ||
+        lowerText.includes('taniec') || lowerText.includes('joga') ||
+        lowerText.includes('gimnastyk') || lowerText.includes('piłk')) {
+      return 'SPORT'
+    }
+    if (lowerText.includes('nauk') || lowerText.includes('eduk') ||
+        lowerText.includes('szkoł') || lowerText.includes('akademi') ||
+        lowerText.includes('robot') || lowerText.includes('programow')) {
+      return 'EDUKACJA'
+    }
+
+    return 'INNE'
+  }
+
   /**
    * Normalize venue names for Białystok
    */
@@ -282,6 +335,50 @@ export class PolishEventParser {
     return null
   }
 
+  /**
+   * Dates a recurring event skips: "oprócz 24 i 31 grudnia", "z wyjątkiem 1.11",
+   * "nie odbywa się w święta" (public holidays until the end of next year).
+   */
+  static parseRecurrenceExceptions(text: string, baseDate: Date = new Date()): string[] {
+    const exceptions = new Set<string>()
+    const clauses = text.toLowerCase().matchAll(/(?:oprócz|z wyjątkiem|poza|nie odbywa się|nie odbędzie się|odwołane)\s+((?:[^.;!?]|\.(?=\d))+)/g)
+
+    for (const [, clause] of Array.from(clauses)) {
+      for (const match of Array.from(clause.matchAll(/((?:\d{1,2}\s*(?:,|i|oraz)\s*)*\d{1,2})\s+([a-ząćęłńóśźż]+)(?:\s+(\d{4}))?/g))) {
+        const month = this.POLISH_MONTHS[match[2] as keyof typeof this.POLISH_MONTHS]
+        if (!month) continue
+        for (const day of match[1].match(/\d{1,2}/g) || []) {
+          exceptions.add(this.formatExceptionDate(baseDate, month, parseInt(day), match[3]))
+        }
+      }
+
+      for (const match of Array.from(clause.matchAll(/\b(\d{1,2})\.(\d{1,2})(?:\.(\d{4}))?\b/g))) {
+        const month = parseInt(match[2])
+        if (month >= 1 && month <= 12) {
+          exceptions.add(this.formatExceptionDate(baseDate, month, parseInt(match[1]), match[3]))
+        }
+      }
+
+      if (/świąt|święt/.test(clause)) {
+        const year = baseDate.getFullYear()
+        getPolishPublicHolidays(year).concat(getPolishPublicHolidays(year + 1)).forEach(day => exceptions.add(day))
+      }
+    }
+
+    // Past dates never affect upcoming occurrences
+    const today = this.formatExceptionDate(baseDate, baseDate.getMonth() + 1, baseDate.getDate())
+    return Array.from(exceptions).filter(day => day >= today).sort()
+  }
+
+  // Dates without a year refer to the nearest one not in the past
+  private static formatExceptionDate(baseDate: Date, month: number, day: number, yearStr?: string): string {
+    let year = yearStr ? parseInt(yearStr) : baseDate.getFullYear()
+    if (!yearStr && new Date(year, month - 1, day) < new Date(baseDate.getFullYear(), baseDate.getMonth(), baseDate.getDate())) {
+      year++
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  }
+
   /**
    * Get next occurrence of a weekday
    */
@@ -291,6 +388,18 @@ export class PolishEventParser {
     return addDays(baseDate, daysUntilWeekday === 0 ? 7 : daysUntilWeekday)
   }
 
+  /**
+   * Lowercase and strip Polish diacritics for comparisons ("Białystok" -> "bialystok")
+   */
+  static foldDiacritics(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/ł/g, 'l')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .trim()
+  }
+
   /**
    * Clean and normalize text
    */
@@ -0,0 +1,69 @@
+export interface RobotsRules {
+  allow: string[]
+  disallow: string[]
+}
+
+/**
+ * Collects the Allow/Disallow rules that apply to our user agent. Groups naming
+ * the agent win over the catch-all "*" group, as crawlers conventionally do.
+ */
+export function parseRobotsTxt(content: string, userAgent: string): RobotsRules {
+  const agent = userAgent.toLowerCase()
+  const specific: RobotsRules = { allow: [], disallow: [] }
+  const wildcard: RobotsRules = { allow: [], disallow: [] }
+
+  let groupAgents: string[] = []
+  let readingAgents = false
+  let namedGroupFound = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const key = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      groupAgents = readingAgents ? [...groupAgents, value.toLowerCase()] : [value.toLowerCase()]
+      readingAgents = true
+      namedGroupFound = namedGroupFound || isNamedAgent(value.toLowerCase(), agent)
+      continue
+    }
+    readingAgents = false
+
+    if ((key !== 'allow' && key !== 'disallow') || !value) continue
+
+    const target = groupAgents.some(name => isNamedAgent(name, agent))
+      ? specific
+      : groupAgents.includes('*') ? wildcard : null
+    target?.[key].push(value)
+  }
+
+  return namedGroupFound ? specific : wildcard
+}
+
+function isNamedAgent(name: string, agent: string): boolean {
+  return name !== '*' && agent.includes(name)
+}
+
+/**
+ * The longest matching rule decides; Allow wins a tie.
+ */
+export function isPathAllowed(rules: RobotsRules, pathWithQuery: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    patterns.reduce((longest, pattern) => matchesRule(pattern, pathWithQuery) ? Math.max(longest, pattern.length) : longest, -1)
+
+  return longestMatch(rules.allow) >= longestMatch(rules.disallow)
+}
+
+function matchesRule(pattern: string, pathWithQuery: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(pathWithQuery)
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { decodeEventCursor, encodeEventCursor, fillPage, FilledPage } from '@events-agregator/shared/src/pagination'
+import { getListingOccurrences } from '@events-agregator/shared/src/recurrence'
+
+// Date-ordered lists page by keyset on search_events().next_occurrence. This replays that in
+// memory: the dates of a series are stored as the scraper worker stores them, and
+// listedUnder() follows event_next_occurrence() from migration 025.
+interface Row {
+  id: string
+  title: string
+  start_date: string
+  recurrence_rule: string | null
+  stored: Date[]
+}
+
+type ListedRow = Row & { next_occurrence: string }
+
+const NOW = new Date('2026-10-18T08:00:00.000Z') // A Sunday
+
+function row(id: number, title: string, startDate: string, recurrenceRule: string | null = null): Row {
+  const start = new Date(startDate)
+  return {
+    id: `00000000-0000-4000-8000-${String(id).padStart(12, '0')}`,
+    title,
+    start_date: start.toISOString(),
+    recurrence_rule: recurrenceRule,
+    stored: recurrenceRule ? getListingOccurrences(start, recurrenceRule, [], NOW) : []
+  }
+}
+
+function listedUnder(event: Row, from: Date): string {
+  if (!event.recurrence_rule) return event.start_date
+  const next = event.stored.find(date => date >= from)
+  return (next || new Date(Math.max(new Date(event.start_date).getTime(), from.getTime()))).toISOString()
+}
+
+async function listAll(rows: Row[], from: Date, limit: number): Promise<string[][]> {
+  const listing: ListedRow[] = rows
+    .map(event => ({ ...event, next_occurrence: listedUnder(event, from) }))
+    .sort((a, b) => a.next_occurrence.localeCompare(b.next_occurrence) || a.id.localeCompare(b.id))
+  const pages: string[][] = []
+  let cursor: string | null = null
+
+  do {
+    const page: FilledPage<ListedRow> = await fillPage({
+      cursor: cursor ? decodeEventCursor(cursor) : null,
+      limit,
+      orderByDate: true,
+      isListed: () => true,
+      fetchBatch: async (batchCursor, size) => listing
+        .filter(event => !batchCursor || !('nextOccurrence' in batchCursor) ||
+          event.next_occurrence > batchCursor.nextOccurrence ||
+          (event.next_occurrence === batchCursor.nextOccurrence && event.id > batchCursor.id))
+        .slice(0, size)
+    })
+    pages.push(page.rows.map(event => event.title))
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return pages
+}
+
+const rows = [
+  row(1, 'Sobotnie warsztaty plastyczne', '2026-01-03T09:00:00.000Z', 'FREQ=WEEKLY;BYDAY=SA'),
+  row(2, 'Koncert rodzinny', '2026-10-20T16:00:00.000Z'),
+  row(3, 'Teatrzyk kukiełkowy', '2026-10-22T09:00:00.000Z'),
+  row(4, 'Warsztaty robotyki', '2026-10-27T15:00:00.000Z'),
+  row(5, 'Andrzejki dla dzieci', '2026-11-05T15:00:00.000Z')
+]
+
+test('a series started months ago is paged under its next date', async () => {
+  assert.deepEqual(await listAll(rows, NOW, 2), [
+    ['Koncert rodzinny', 'Teatrzyk kukiełkowy'],
+    ['Sobotnie warsztaty plastyczne', 'Warsztaty robotyki'],
+    ['Andrzejki dla dzieci']
+  ])
+})
+
+test('a series is paged under its next date within a later range', async () => {
+  assert.deepEqual(await listAll(rows, new Date('2026-10-25T00:00:00.000+02:00'), 2), [
+    ['Koncert rodzinny', 'Teatrzyk kukiełkowy'],
+    ['Warsztaty robotyki', 'Sobotnie warsztaty plastyczne'],
+    ['Andrzejki dla dzieci']
+  ])
+})
+
+test('cursors of the former start_date keyset are rejected', () => {
+  const cursor = { nextOccurrence: '2026-10-24T08:00:00.000Z', id: rows[0].id }
+  assert.deepEqual(decodeEventCursor(encodeEventCursor(cursor)), cursor)
+
+  const startDateCursor = Buffer.from(JSON.stringify({ s: rows[0].start_date, i: rows[0].id })).toString('base64url')
+  assert.equal(decodeEventCursor(startDateCursor), null)
+})
@@ -0,0 +1,25 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { describeRecurrence } from '@events-agregator/shared/src/recurrence'
+import { formatAgeYears } from '@events-agregator/shared/src/recommendations'
+
+// Polish counted nouns take one form for 1, another for 2-4 and 22-24, and a third for 5-21
+test('describeRecurrence declines intervals and counts', () => {
+  const cases: Array<[number, string, string, string]> = [
+    [2, 'co 2 tygodnie', 'co 2 miesiące', '2 terminy'],
+    [5, 'co 5 tygodni', 'co 5 miesięcy', '5 terminów'],
+    [12, 'co 12 tygodni', 'co 12 miesięcy', '12 terminów'],
+    [22, 'co 22 tygodnie', 'co 22 miesiące', '22 terminy']
+  ]
+
+  for (const [count, weeks, months, occurrences] of cases) {
+    assert.equal(describeRecurrence(`FREQ=WEEKLY;INTERVAL=${count}`), weeks)
+    assert.equal(describeRecurrence(`FREQ=MONTHLY;INTERVAL=${count}`), months)
+    assert.equal(describeRecurrence(`FREQ=WEEKLY;COUNT=${count}`), `co tydzień (${occurrences})`)
+  }
+  assert.equal(describeRecurrence('FREQ=DAILY;COUNT=1'), 'codziennie (1 termin)')
+})
+
+test('formatAgeYears declines years', () => {
+  assert.deepEqual([1, 2, 5, 12, 22].map(formatAgeYears), ['1 rok', '2 lata', '5 lat', '12 lat', '22 lata'])
+})
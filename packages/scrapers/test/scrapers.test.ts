@@ -0,0 +1,59 @@
+import { test, TestContext } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  listFixtureCases,
+  loadScrapers,
+  readFixture,
+  readSnapshot,
+  replayFixture,
+  serializeEvents,
+  writeSnapshot
+} from '../src/testing/fixture-harness'
+import type { BaseScraper } from '../src/scrapers/base-scraper'
+
+// Replays recorded responses through every scraper and compares the parsed events
+// with the stored snapshot. Run with UPDATE_SNAPSHOTS=1 to accept intended changes.
+// Locally a missing fixture or snapshot is skipped with a hint, in CI it fails.
+const updateSnapshots = process.env.UPDATE_SNAPSHOTS === '1'
+
+function missing(t: TestContext, message: string) {
+  if (process.env.CI) {
+    assert.fail(message)
+  }
+  t.skip(message)
+}
+
+async function matchesSnapshot(t: TestContext, scraper: BaseScraper, fixtureName: string) {
+  const fixture = readFixture(fixtureName)
+  if (!fixture) {
+    missing(t, `no fixture - run npm run fixtures:refresh -- ${scraper.name}`)
+    return
+  }
+
+  const events = serializeEvents(await replayFixture(scraper, fixture))
+  const snapshot = readSnapshot(fixtureName)
+
+  if (updateSnapshots) {
+    writeSnapshot(fixtureName, events)
+    return
+  }
+
+  if (!snapshot) {
+    missing(t, 'no snapshot - run UPDATE_SNAPSHOTS=1 npm test')
+    return
+  }
+
+  assert.deepStrictEqual(events, snapshot)
+}
+
+test('scrapers match their snapshots', async t => {
+  const scrapers = await loadScrapers()
+
+  for (const scraper of scrapers) {
+    await t.test(scraper.name, t => matchesSnapshot(t, scraper, scraper.name))
+
+    for (const fixtureName of listFixtureCases(scraper.name)) {
+      await t.test(fixtureName, t => matchesSnapshot(t, scraper, fixtureName))
+    }
+  }
+})
@@ -0,0 +1,200 @@
+import { RECURRENCE_TIMEZONE, WallClock, formatRecurrenceRule, parseRecurrenceRule, toWallClock } from './recurrence'
+
+// iCalendar (RFC 5545) export of events: the favourites feed and "Add to calendar" downloads,
+// plus Google Calendar and Outlook links.
+
+export interface CalendarEvent {
+  id: string
+  title: string
+  description?: string | null
+  start: Date
+  end?: Date | null
+  location?: string | null
+  lat?: number | null
+  lng?: number | null
+  url?: string | null // Source page of the event
+  detailsUrl?: string | null // Event page in the app
+  recurrenceRule?: string | null
+  recurrenceExceptions?: string[] | null
+  cancelled?: boolean
+  updatedAt?: Date | null
+}
+
+export interface CalendarOptions {
+  name?: string
+  refreshHours?: number // How often subscribed calendar apps should fetch the feed again
+}
+
+// Length assumed when an event has no end time
+const DEFAULT_DURATION_MS = 60 * 60 * 1000
+const PRODUCT_ID = '-//events-agregator//Wydarzenia dla dzieci//PL'
+const UID_DOMAIN = 'events-agregator'
+const MAX_LINE_OCTETS = 75
+
+// Times are written in Polish local time, so recurring events keep their hour across DST changes
+const WARSAW_TIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${RECURRENCE_TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+]
+
+/**
+ * Builds a VCALENDAR document. UIDs are stable per event, so calendar apps update
+ * their copies in place when a re-fetched feed has changed times, places or statuses.
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ]
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`)
+  lines.push(`X-WR-TIMEZONE:${RECURRENCE_TIMEZONE}`)
+  if (options.refreshHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`, `X-PUBLISHED-TTL:PT${options.refreshHours}H`)
+  }
+  lines.push(...WARSAW_TIMEZONE)
+
+  for (const event of events) {
+    lines.push(...buildEvent(event))
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// Google Calendar "create event" link for a single date
+export function googleCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${formatUtc(event.start)}/${formatUtc(eventEnd(event))}`,
+    details: eventDetails(event),
+    location: event.location || '',
+    ctz: RECURRENCE_TIMEZONE,
+  })
+  return `https://calendar.google.com/calendar/render?${params}`
+}
+
+// Outlook.com "new event" link for a single date
+export function outlookCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: event.start.toISOString(),
+    enddt: eventEnd(event).toISOString(),
+    body: eventDetails(event),
+    location: event.location || '',
+  })
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`
+}
+
+function buildEvent(event: CalendarEvent): string[] {
+  const stamp = formatUtc(event.updatedAt || new Date())
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `DTSTART;TZID=${RECURRENCE_TIMEZONE}:${formatLocal(toWallClock(event.start))}`,
+    `DTEND;TZID=${RECURRENCE_TIMEZONE}:${formatLocal(toWallClock(eventEnd(event)))}`,
+    `SUMMARY:${escapeText(event.cancelled ? `Odwołane: ${event.title}` : event.title)}`,
+  ]
+
+  const rule = event.recurrenceRule ? parseRecurrenceRule(event.recurrenceRule) : null
+  if (rule) {
+    lines.push(`RRULE:${formatRecurrenceRule(rule)}`)
+    // Skipped dates at the series' time of day
+    const anchor = toWallClock(event.start)
+    for (const day of event.recurrenceExceptions || []) {
+      const [year, month, date] = day.split('-').map(Number)
+      if (!year || !month || !date) continue
+      lines.push(`EXDATE;TZID=${RECURRENCE_TIMEZONE}:${formatLocal({ ...anchor, year, month, day: date })}`)
+    }
+  }
+
+  const details = eventDetails(event)
+  if (details) lines.push(`DESCRIPTION:${escapeText(details)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.lat !== null && event.lat !== undefined && event.lng !== null && event.lng !== undefined) {
+    lines.push(`GEO:${Number(event.lat).toFixed(6)};${Number(event.lng).toFixed(6)}`)
+  }
+  if (event.url) lines.push(`URL:${event.url}`)
+  lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT')
+  return lines
+}
+
+function eventEnd(event: CalendarEvent): Date {
+  return event.end && event.end > event.start ? event.end : new Date(event.start.getTime() + DEFAULT_DURATION_MS)
+}
+
+function eventDetails(event: CalendarEvent): string {
+  const parts = [event.description?.trim()]
+  if (event.url) parts.push(`Źródło: ${event.url}`)
+  if (event.detailsUrl) parts.push(`Szczegóły: ${event.detailsUrl}`)
+  return parts.filter(Boolean).join('\n\n')
+}
+
+// 20250301T093000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// 20250301T103000, read in the TZID zone
+function formatLocal(time: WallClock): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${time.year}${pad(time.month)}${pad(time.day)}T${pad(time.hour)}${pad(time.minute)}${pad(time.second)}`
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting characters
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let chunk = ''
+  let octets = 0
+  for (const char of line) {
+    const size = utf8Length(char)
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > MAX_LINE_OCTETS - (chunks.length > 0 ? 1 : 0)) {
+      chunks.push(chunk)
+      chunk = ''
+      octets = 0
+    }
+    chunk += char
+    octets += size
+  }
+  chunks.push(chunk)
+  return chunks.join('\r\n ')
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!
+  if (code < 0x80) return 1
+  if (code < 0x800) return 2
+  if (code < 0x10000) return 3
+  return 4
+}
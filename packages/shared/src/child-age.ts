@@ -0,0 +1,17 @@
+import { toCalendarDay } from './recurrence'
+
+// Child profiles store the month of birth, so ages stay current and can be taken at an event's date
+export interface BirthMonth {
+  birthYear: number
+  birthMonth: number // 1-12
+}
+
+/**
+ * Age in full years on the given date (Polish time). Only the month of birth is known,
+ * so a child counts as a year older from the first day of their birth month.
+ */
+export function childAgeAt(birth: BirthMonth, date: Date = new Date()): number {
+  const day = toCalendarDay(date)
+  const months = (day.getUTCFullYear() - birth.birthYear) * 12 + (day.getUTCMonth() + 1 - birth.birthMonth)
+  return Math.max(0, Math.floor(months / 12))
+}
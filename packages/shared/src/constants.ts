@@ -3,6 +3,7 @@ export const COMMISSION_PERCENTAGE = 8
 export const FREE_TRIAL_DAYS = 7
 
 export { CITY_COORDINATES } from './constants/cities'
+export * from './constants/school-holidays'
 
 export const POLISH_CITIES = [
   'Warszawa',
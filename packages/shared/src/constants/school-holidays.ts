@@ -0,0 +1,74 @@
+export const VOIVODESHIPS = [
+  'dolnośląskie',
+  'kujawsko-pomorskie',
+  'lubelskie',
+  'lubuskie',
+  'łódzkie',
+  'małopolskie',
+  'mazowieckie',
+  'opolskie',
+  'podkarpackie',
+  'podlaskie',
+  'pomorskie',
+  'śląskie',
+  'świętokrzyskie',
+  'warmińsko-mazurskie',
+  'wielkopolskie',
+  'zachodniopomorskie',
+] as const
+
+export type Voivodeship = typeof VOIVODESHIPS[number]
+
+export const CITY_VOIVODESHIPS: Record<string, Voivodeship> = {
+  'Warszawa': 'mazowieckie',
+  'Kraków': 'małopolskie',
+  'Łódź': 'łódzkie',
+  'Wrocław': 'dolnośląskie',
+  'Poznań': 'wielkopolskie',
+  'Gdańsk': 'pomorskie',
+  'Szczecin': 'zachodniopomorskie',
+  'Bydgoszcz': 'kujawsko-pomorskie',
+  'Lublin': 'lubelskie',
+  'Białystok': 'podlaskie',
+  'Katowice': 'śląskie',
+  'Gdynia': 'pomorskie',
+  'Częstochowa': 'śląskie',
+  'Radom': 'mazowieckie',
+  'Sosnowiec': 'śląskie',
+  'Toruń': 'kujawsko-pomorskie',
+  'Kielce': 'świętokrzyskie',
+  'Rzeszów': 'podkarpackie',
+  'Gliwice': 'śląskie',
+  'Zabrze': 'śląskie',
+  'Olsztyn': 'warmińsko-mazurskie'
+}
+
+export interface SchoolBreak {
+  start: string // YYYY-MM-DD, first day off
+  end: string // YYYY-MM-DD, last day off
+  voivodeships?: Voivodeship[] // Whole country when missing
+}
+
+// Ferie zimowe as set by the Ministry of Education for each school year; add the next year's
+// terms when the regulation is published
+export const WINTER_BREAKS: SchoolBreak[] = [
+  { start: '2025-01-20', end: '2025-02-02', voivodeships: ['kujawsko-pomorskie', 'lubuskie', 'małopolskie', 'świętokrzyskie', 'wielkopolskie'] },
+  { start: '2025-01-27', end: '2025-02-09', voivodeships: ['podlaskie', 'warmińsko-mazurskie'] },
+  { start: '2025-02-03', end: '2025-02-16', voivodeships: ['dolnośląskie', 'mazowieckie', 'opolskie', 'zachodniopomorskie'] },
+  { start: '2025-02-17', end: '2025-03-02', voivodeships: ['lubelskie', 'łódzkie', 'podkarpackie', 'pomorskie', 'śląskie'] },
+  { start: '2026-01-19', end: '2026-02-01', voivodeships: ['lubelskie', 'łódzkie', 'podkarpackie', 'pomorskie', 'śląskie'] },
+  { start: '2026-01-26', end: '2026-02-08', voivodeships: ['podlaskie', 'warmińsko-mazurskie'] },
+  { start: '2026-02-02', end: '2026-02-15', voivodeships: ['kujawsko-pomorskie', 'lubuskie', 'małopolskie', 'świętokrzyskie', 'wielkopolskie'] },
+  { start: '2026-02-16', end: '2026-03-01', voivodeships: ['dolnośląskie', 'mazowieckie', 'opolskie', 'zachodniopomorskie'] },
+  { start: '2027-01-18', end: '2027-01-31', voivodeships: ['dolnośląskie', 'mazowieckie', 'opolskie', 'zachodniopomorskie'] },
+  { start: '2027-01-25', end: '2027-02-07', voivodeships: ['podlaskie', 'warmińsko-mazurskie'] },
+  { start: '2027-02-01', end: '2027-02-14', voivodeships: ['lubelskie', 'łódzkie', 'podkarpackie', 'pomorskie', 'śląskie'] },
+  { start: '2027-02-15', end: '2027-02-28', voivodeships: ['kujawsko-pomorskie', 'lubuskie', 'małopolskie', 'świętokrzyskie', 'wielkopolskie'] },
+]
+
+// Wakacje: from the day after the school year ends to 31 August
+export const SUMMER_BREAKS: SchoolBreak[] = [
+  { start: '2025-06-28', end: '2025-08-31' },
+  { start: '2026-06-27', end: '2026-08-31' },
+  { start: '2027-06-26', end: '2027-08-31' },
+]
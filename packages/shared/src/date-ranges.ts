@@ -0,0 +1,100 @@
+import { SUMMER_BREAKS, WINTER_BREAKS, SchoolBreak, Voivodeship } from './constants/school-holidays'
+import { startOfCalendarDay, toCalendarDay } from './recurrence'
+
+export type DatePreset = 'today' | 'tomorrow' | 'weekend' | 'winter-break' | 'summer-break'
+
+export const DATE_PRESETS: Record<DatePreset, string> = {
+  today: 'Dziś',
+  tomorrow: 'Jutro',
+  weekend: 'Ten weekend',
+  'winter-break': 'Ferie zimowe',
+  'summer-break': 'Wakacje',
+}
+
+// Both ends inclusive; events overlapping the range match
+export interface EventDateRange {
+  from: Date
+  to: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// "YYYY-MM-DD" as midnight UTC of that calendar day
+export function parseCalendarDay(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const day = new Date(`${value}T00:00:00Z`)
+  return isNaN(day.getTime()) ? null : day
+}
+
+/**
+ * Bound of a date filter: a bare "YYYY-MM-DD" covers the whole day in Polish time,
+ * anything else is read as a timestamp. Null when the value is not a date.
+ */
+export function parseDateBoundary(value: string, boundary: 'start' | 'end'): Date | null {
+  const day = parseCalendarDay(value)
+  if (day) {
+    return boundary === 'start' ? startOfCalendarDay(day) : dayRange(day, day).to
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// PostgREST filter for events still on at `from`: one-off events that have not ended, multi-day
+// events still running and series that started earlier but continue past it
+export function eventsEndingAfterFilter(from: Date): string {
+  const value = from.toISOString()
+  return `end_date.gte.${value},and(end_date.is.null,start_date.gte.${value}),recurrence_until.gte.${value},and(recurrence_rule.not.is.null,recurrence_until.is.null)`
+}
+
+/**
+ * Date range of a filter preset. Ferie depend on the voivodeship; presets without
+ * a known upcoming term return null.
+ */
+export function getDatePresetRange(
+  preset: DatePreset,
+  options: { now?: Date; voivodeship?: Voivodeship } = {}
+): EventDateRange | null {
+  const today = toCalendarDay(options.now || new Date())
+
+  switch (preset) {
+    case 'today':
+      return dayRange(today, today)
+    case 'tomorrow': {
+      const tomorrow = addDays(today, 1)
+      return dayRange(tomorrow, tomorrow)
+    }
+    case 'weekend': {
+      // On Sunday only the rest of this weekend is left
+      const weekday = today.getUTCDay()
+      if (weekday === 0) return dayRange(today, today)
+      const saturday = addDays(today, 6 - weekday)
+      return dayRange(saturday, addDays(saturday, 1))
+    }
+    case 'winter-break': {
+      const voivodeship = options.voivodeship
+      if (!voivodeship) return null
+      return findSchoolBreak(WINTER_BREAKS.filter(term => term.voivodeships?.includes(voivodeship)), today)
+    }
+    case 'summer-break':
+      return findSchoolBreak(SUMMER_BREAKS, today)
+  }
+}
+
+function dayRange(firstDay: Date, lastDay: Date): EventDateRange {
+  return {
+    from: startOfCalendarDay(firstDay),
+    to: new Date(startOfCalendarDay(addDays(lastDay, 1)).getTime() - 1)
+  }
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS)
+}
+
+// The break in progress or the next one
+function findSchoolBreak(breaks: SchoolBreak[], today: Date): EventDateRange | null {
+  const term = breaks
+    .filter(candidate => parseCalendarDay(candidate.end)! >= today)
+    .sort((a, b) => a.start.localeCompare(b.start))[0]
+  return term ? dayRange(parseCalendarDay(term.start)!, parseCalendarDay(term.end)!) : null
+}
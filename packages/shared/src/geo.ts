@@ -0,0 +1,26 @@
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+// Earth radius assumed by PostgreSQL earthdistance (earth()), so client-side distances match search results
+const EARTH_RADIUS_KM = 6378.168
+
+/**
+ * Great-circle (haversine) distance between two points in kilometres.
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+// "800 m", "2,4 km", "15 km"
+export function formatDistance(km: number): string {
+  if (km < 1) return `${Math.max(100, Math.round(km * 10) * 100)} m`
+  if (km < 10) return `${km.toFixed(1).replace('.', ',')} km`
+  return `${Math.round(km)} km`
+}
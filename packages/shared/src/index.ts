@@ -1,4 +1,13 @@
 export * from './types/event'
 export * from './types/user'
 export * from './types/subscription'
-export * from './constants'
\ No newline at end of file
+export * from './constants'
+export * from './recurrence'
+export * from './geo'
+export * from './date-ranges'
+export * from './pagination'
+export * from './search'
+export * from './recommendations'
+export * from './child-age'
+export * from './calendar'
+export * from './plural'
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Opaque page cursors for event lists. Date-ordered lists page by keyset on (next_occurrence, id)
+// - the date a row is listed under, the next one for a series - so rows inserted meanwhile neither
+// repeat nor shift later pages; relevance and distance orders have no such key and carry a row offset.
+export type EventCursor =
+  | { nextOccurrence: string; id: string }
+  | { offset: number }
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}(:?\d{2})?)?$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function encodeEventCursor(cursor: EventCursor): string {
+  const payload = 'offset' in cursor ? { o: cursor.offset } : { n: cursor.nextOccurrence, i: cursor.id }
+  return btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes a cursor from encodeEventCursor. Values end up in database filters,
+ * so anything that is not a plain timestamp and UUID (or offset) is rejected with null.
+ */
+export function decodeEventCursor(value: string): EventCursor | null {
+  try {
+    const payload = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')))
+    if (Number.isInteger(payload?.o) && payload.o >= 0) {
+      return { offset: payload.o }
+    }
+    // Cursors of the former start_date keyset ({ s, i }) point into a different order and are rejected
+    if (typeof payload?.n === 'string' && TIMESTAMP_PATTERN.test(payload.n) &&
+        typeof payload?.i === 'string' && UUID_PATTERN.test(payload.i)) {
+      return { nextOccurrence: payload.n, id: payload.i }
+    }
+  } catch {
+    // Not base64 or not JSON
+  }
+  return null
+}
+
+// PostgREST filter for rows of search_events() after the cursor in (next_occurrence, id) order
+export function eventCursorFilter(cursor: { nextOccurrence: string; id: string }): string {
+  return `next_occurrence.gt."${cursor.nextOccurrence}",and(next_occurrence.eq."${cursor.nextOccurrence}",id.gt.${cursor.id})`
+}
+
+// Bounds the batches fetched for one page when most rows are filtered out
+const MAX_PAGE_BATCHES = 5
+
+export interface FilledPage<T> {
+  rows: T[]
+  hasMore: boolean
+  nextCursor: string | null
+}
+
+/**
+ * Fetches a page of rows when some are only filtered out after fetching (series with no date in
+ * the requested range). Batches are fetched until the page is full, so pages are not short and
+ * the next cursor continues after the last row examined. `fetchBatch` returns up to `size` rows
+ * following the cursor, in list order.
+ */
+export async function fillPage<T extends { id: string; next_occurrence: string }>(options: {
+  cursor: EventCursor | null
+  limit: number
+  orderByDate: boolean
+  fetchBatch: (cursor: EventCursor | null, size: number) => Promise<T[]>
+  isListed: (row: T) => boolean
+}): Promise<FilledPage<T>> {
+  const { limit, orderByDate, fetchBatch, isListed } = options
+  const rows: T[] = []
+  let cursor = options.cursor
+  let position = cursor && 'offset' in cursor ? cursor.offset : 0
+
+  for (let batch = 0; batch < MAX_PAGE_BATCHES; batch++) {
+    // One extra row tells whether there is a next page
+    const batchRows = await fetchBatch(cursor, limit + 1)
+
+    for (const row of batchRows) {
+      if (isListed(row)) {
+        if (rows.length === limit) {
+          return { rows, hasMore: true, nextCursor: encodeEventCursor(cursor!) }
+        }
+        rows.push(row)
+      }
+      position++
+      cursor = orderByDate ? { nextOccurrence: row.next_occurrence, id: row.id } : { offset: position }
+    }
+
+    if (batchRows.length <= limit) {
+      return { rows, hasMore: false, nextCursor: null }
+    }
+  }
+
+  // Gave up filling the page - the next one continues after the rows examined so far
+  return { rows, hasMore: true, nextCursor: encodeEventCursor(cursor!) }
+}
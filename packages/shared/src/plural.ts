@@ -0,0 +1,8 @@
+// Polish plural of a counted noun: one for 1, few for 2-4, 22-24... (but not 12-14), many otherwise
+export function pluralize(count: number, one: string, few: string, many: string): string {
+  if (count === 1) return one
+  const lastDigit = count % 10
+  const lastTwoDigits = count % 100
+  if (lastDigit >= 2 && lastDigit <= 4 && (lastTwoDigits < 12 || lastTwoDigits > 14)) return few
+  return many
+}
@@ -0,0 +1,264 @@
+import { Coordinates, distanceKm, formatDistance } from './geo'
+import { BirthMonth, childAgeAt } from './child-age'
+import { expandOccurrences } from './recurrence'
+import { pluralize } from './plural'
+
+// "For my kids" ranking shared by the API and the web app. Works on database rows (snake_case).
+
+export interface RecommendationChild extends BirthMonth {
+  id: string
+  name: string
+  interests: string[]
+}
+
+export interface RecommendableEvent {
+  id: string
+  title: string
+  description: string | null
+  category: string
+  tags: string[] | null
+  age_min: number
+  age_max: number
+  start_date: string
+  next_occurrence?: string | null // Recurring events are judged by their upcoming date
+  lat?: number | null
+  lng?: number | null
+  view_count?: number | null
+  click_count?: number | null
+}
+
+// Series columns of a candidate row
+export interface RecommendationCandidate extends RecommendableEvent {
+  recurrence_rule?: string | null
+  recurrence_exceptions?: string[] | null
+}
+
+type FavoriteEvent = Pick<RecommendableEvent, 'category' | 'tags'>
+
+// A row of user_favorite_events with the favourite event embedded (a list to inferred client types)
+export interface FavoriteEventRow {
+  event_id: string
+  events: FavoriteEvent | FavoriteEvent[] | null
+}
+
+// What the family's favourites say about their taste
+export interface FavoriteHistory {
+  categories: Record<string, number>
+  tags: Record<string, number>
+  total: number
+}
+
+export interface RecommendationContext {
+  children: RecommendationChild[]
+  favorites?: FavoriteHistory
+  location?: Coordinates
+}
+
+export interface Recommendation<T extends RecommendableEvent> {
+  event: T
+  score: number
+  childIds: string[] // Children the event suits
+  reasons: string[] // Polish explanations, most important first
+}
+
+const WEIGHTS = {
+  age: 3,
+  interests: 2,
+  distance: 1.5,
+  favorites: 1.5,
+  popularity: 1,
+}
+
+// Beyond this distance an event gets no points for being close
+const DISTANCE_HORIZON_KM = 30
+// A click says more about interest than a view
+const CLICK_WEIGHT = 3
+
+// Folded keyword prefixes for the interests suggested by the child profile form.
+// Other free-text interests are matched by their own first letters.
+const INTEREST_KEYWORDS: Record<string, string[]> = {
+  sport: ['sport', 'pilk', 'basen', 'plywa', 'rower', 'biega', 'gimnasty', 'judo', 'karate'],
+  muzyka: ['muzy', 'koncert', 'spiew', 'instrument', 'rytmik'],
+  sztuka: ['sztuk', 'plasty', 'malow', 'rysow', 'rzezb', 'ceramik', 'artysty'],
+  taniec: ['tanc', 'taniec', 'tane', 'balet'],
+  teatr: ['teatr', 'spektakl', 'przedstawien', 'kukiel', 'bajk'],
+  czytanie: ['czyta', 'ksiaz', 'bibliotek', 'bajk', 'literat'],
+  nauka: ['nauk', 'eksperyment', 'odkryw', 'laborator', 'fizyk', 'chemi', 'matematy'],
+  przyroda: ['przyrod', 'ekolog', 'natur', 'ogrod', 'lesn', 'rosli'],
+  gry: ['gry', 'gra ', 'planszow', 'escape'],
+  lego: ['lego', 'klock'],
+  gotowanie: ['gotow', 'kulinar', 'piecz', 'kuchni'],
+  jezyki: ['jezyk', 'angielsk', 'english', 'niemieck', 'hiszpansk'],
+  robotyka: ['robot'],
+  programowanie: ['program', 'kodow', 'scratch', 'informaty', 'minecraft'],
+  zwierzeta: ['zwierz', 'zoo', 'kucyk', 'konie', 'psy', 'koty'],
+  podroze: ['podroz', 'wycieczk', 'zwiedza', 'przewodnik'],
+}
+
+// Interests that a whole event category stands for
+const INTEREST_CATEGORIES: Record<string, string> = {
+  sport: 'SPORT',
+  teatr: 'SPEKTAKLE',
+  nauka: 'EDUKACJA',
+}
+
+const foldText = (text: string): string =>
+  text.toLowerCase().replace(/ł/g, 'l').normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim()
+
+// "1 rok", "3 lata", "5 lat", "12 lat", "22 lata"
+export function formatAgeYears(age: number): string {
+  return `${age} ${pluralize(age, 'rok', 'lata', 'lat')}`
+}
+
+/**
+ * Tallies categories and tags of the events a family has marked as favourite.
+ */
+export function buildFavoriteHistory(events: Array<Pick<RecommendableEvent, 'category' | 'tags'>>): FavoriteHistory {
+  const history: FavoriteHistory = { categories: {}, tags: {}, total: events.length }
+  for (const event of events) {
+    history.categories[event.category] = (history.categories[event.category] || 0) + 1
+    for (const tag of event.tags || []) {
+      const key = foldText(tag)
+      history.tags[key] = (history.tags[key] || 0) + 1
+    }
+  }
+  return history
+}
+
+/**
+ * Ages the children span between now and the horizon - candidates are fetched for this range,
+ * exact ages are checked per event date when ranking.
+ */
+export function getRecommendationAgeRange(
+  children: BirthMonth[],
+  now: Date,
+  horizon: Date
+): { youngestAge: number; oldestAge: number } {
+  return {
+    youngestAge: Math.min(...children.map(child => childAgeAt(child, now))),
+    oldestAge: Math.max(...children.map(child => childAgeAt(child, horizon))),
+  }
+}
+
+/**
+ * Ranks candidate rows fetched for a family. Favourites are already known to the family and are
+ * left out; series are judged by their next date within the horizon and dropped without one.
+ */
+export function recommendCandidates<T extends RecommendationCandidate>(
+  candidates: T[],
+  options: {
+    children: RecommendationChild[]
+    favorites: FavoriteEventRow[]
+    location?: Coordinates
+    now: Date
+    horizon: Date
+    limit?: number
+  }
+): Recommendation<T>[] {
+  const favoriteIds = new Set(options.favorites.map(favorite => favorite.event_id))
+  const upcoming = candidates
+    .filter(event => !favoriteIds.has(event.id))
+    .map(event => {
+      if (!event.recurrence_rule) return event
+      const [next] = expandOccurrences(new Date(event.start_date), event.recurrence_rule, {
+        from: options.now,
+        to: options.horizon,
+        exceptions: event.recurrence_exceptions || [],
+        limit: 1,
+      })
+      return next ? { ...event, next_occurrence: next.toISOString() } : null
+    })
+    .filter((event): event is T => event !== null)
+
+  return rankRecommendations(upcoming, {
+    children: options.children,
+    favorites: buildFavoriteHistory(options.favorites.flatMap(favorite => favorite.events || [])),
+    location: options.location,
+  }, options.limit)
+}
+
+/**
+ * Ranks events for a family: age fit for each child, interest and tag matches, distance,
+ * similarity to favourites and popularity. Events that suit none of the children are left out.
+ */
+export function rankRecommendations<T extends RecommendableEvent>(
+  events: T[],
+  context: RecommendationContext,
+  limit = 20
+): Recommendation<T>[] {
+  const popularity = (event: RecommendableEvent) => Math.log1p((event.view_count || 0) + CLICK_WEIGHT * (event.click_count || 0))
+  const maxPopularity = Math.max(0, ...events.map(popularity))
+
+  return events
+    .map(event => scoreEvent(event, context, maxPopularity > 0 ? popularity(event) / maxPopularity : 0))
+    .filter((recommendation): recommendation is Recommendation<T> => recommendation !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+function scoreEvent<T extends RecommendableEvent>(
+  event: T,
+  context: RecommendationContext,
+  popularityScore: number
+): Recommendation<T> | null {
+  const text = foldText([event.title, event.description || '', ...(event.tags || [])].join(' '))
+  const reasons: string[] = []
+  let score = 0
+
+  // Age on the day of the event: events aimed at a narrow age group fit better than "0-18"
+  const eventDate = new Date(event.next_occurrence || event.start_date)
+  const fittingChildren = context.children
+    .map(child => ({ ...child, age: childAgeAt(child, eventDate) }))
+    .filter(child => child.age >= event.age_min && child.age <= event.age_max)
+  if (fittingChildren.length === 0) return null
+  const rangeWidth = Math.min(18, Math.max(0, event.age_max - event.age_min))
+  score += WEIGHTS.age * (1 - rangeWidth / 36)
+  reasons.push(`Dla: ${fittingChildren.map(child => `${child.name} (${formatAgeYears(child.age)})`).join(', ')}`)
+
+  // Interests of the children the event suits
+  const matchedInterests = new Set<string>()
+  for (const child of fittingChildren) {
+    for (const interest of child.interests) {
+      if (matchesInterest(interest, text, event.category)) matchedInterests.add(interest)
+    }
+  }
+  if (matchedInterests.size > 0) {
+    score += WEIGHTS.interests * Math.min(1, matchedInterests.size / 2)
+    reasons.push(`Pasuje do zainteresowań: ${Array.from(matchedInterests).join(', ')}`)
+  }
+
+  // Distance
+  if (context.location && event.lat !== null && event.lat !== undefined && event.lng !== null && event.lng !== undefined) {
+    const distance = distanceKm(context.location, { lat: Number(event.lat), lng: Number(event.lng) })
+    const closeness = Math.max(0, 1 - distance / DISTANCE_HORIZON_KM)
+    score += WEIGHTS.distance * closeness
+    if (closeness >= 0.5) reasons.push(`Blisko: ${formatDistance(distance)} od Ciebie`)
+  }
+
+  // Similar to favourites: same category or shared tags
+  const favorites = context.favorites
+  if (favorites && favorites.total > 0) {
+    const categoryShare = (favorites.categories[event.category] || 0) / favorites.total
+    const sharedTags = (event.tags || []).filter(tag => favorites.tags[foldText(tag)])
+    const affinity = Math.min(1, categoryShare + 0.25 * sharedTags.length)
+    score += WEIGHTS.favorites * affinity
+    if (affinity >= 0.4) reasons.push('Podobne do wydarzeń w Twoich ulubionych')
+  }
+
+  score += WEIGHTS.popularity * popularityScore
+  if (popularityScore >= 0.7) reasons.push('Popularne wśród rodziców')
+
+  return {
+    event,
+    score: Math.round(score * 1000) / 1000,
+    childIds: fittingChildren.map(child => child.id),
+    reasons
+  }
+}
+
+function matchesInterest(interest: string, text: string, category: string): boolean {
+  const key = foldText(interest)
+  if (INTEREST_CATEGORIES[key] === category) return true
+  const keywords = INTEREST_KEYWORDS[key] || [key.slice(0, Math.max(4, Math.min(key.length, 6)))]
+  return keywords.some(keyword => text.includes(keyword))
+}
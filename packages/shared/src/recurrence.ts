@@ -0,0 +1,406 @@
+import { pluralize } from './plural'
+
+// Subset of iCalendar RRULE (RFC 5545) used by recurring events:
+// FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (ordinals for MONTHLY), UNTIL and COUNT
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export interface RecurrenceDay {
+  weekday: RecurrenceWeekday
+  ordinal?: number // MONTHLY only: 1 = first, -1 = last such weekday of the month
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  byDay: RecurrenceDay[]
+  until?: Date
+  count?: number
+}
+
+export interface OccurrenceWindow {
+  from: Date
+  to: Date
+  exceptions?: string[] // Skipped dates as YYYY-MM-DD in the event's timezone (holidays, cancelled sessions)
+  limit?: number
+  timeZone?: string
+}
+
+// Occurrences keep their wall-clock time across DST changes in this zone
+export const RECURRENCE_TIMEZONE = 'Europe/Warsaw'
+
+// Indexed like Date.getUTCDay()
+const WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const WEEKDAY_PLURALS: Record<RecurrenceWeekday, string> = {
+  MO: 'poniedziałki', TU: 'wtorki', WE: 'środy', TH: 'czwartki', FR: 'piątki', SA: 'soboty', SU: 'niedziele'
+}
+
+const WEEKDAY_SINGULARS: Record<RecurrenceWeekday, string> = {
+  MO: 'poniedziałek', TU: 'wtorek', WE: 'środę', TH: 'czwartek', FR: 'piątek', SA: 'sobotę', SU: 'niedzielę'
+}
+
+const FEMININE_WEEKDAYS: RecurrenceWeekday[] = ['WE', 'SA', 'SU']
+
+const ORDINALS: Record<number, [string, string]> = {
+  1: ['pierwszy', 'pierwszą'],
+  2: ['drugi', 'drugą'],
+  3: ['trzeci', 'trzecią'],
+  4: ['czwarty', 'czwartą'],
+  5: ['piąty', 'piątą'],
+  [-1]: ['ostatni', 'ostatnią'],
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Bounds the day-by-day walk from the window start for open-ended windows
+const MAX_EXPANSION_DAYS = 366 * 5
+
+const LATEST_DATE = new Date(8.64e15)
+
+// How far ahead the dates of a series are stored for ordering lists
+export const LISTING_HORIZON_DAYS = 366
+
+/**
+ * Parses an RRULE string ("FREQ=WEEKLY;BYDAY=SA,SU", optionally prefixed with "RRULE:").
+ * Returns null for invalid rules and for parts this subset does not expand (BYMONTH, BYSETPOS...).
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)
+  const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 1, byDay: [] }
+  let hasFrequency = false
+
+  for (const part of parts) {
+    const [key, raw = ''] = part.split('=').map(item => item.trim().toUpperCase())
+
+    switch (key) {
+      case 'FREQ':
+        if (raw !== 'DAILY' && raw !== 'WEEKLY' && raw !== 'MONTHLY') return null
+        rule.frequency = raw
+        hasFrequency = true
+        break
+      case 'INTERVAL':
+        rule.interval = parseInt(raw)
+        if (!/^\d+$/.test(raw) || rule.interval < 1) return null
+        break
+      case 'COUNT':
+        rule.count = parseInt(raw)
+        if (!/^\d+$/.test(raw) || rule.count < 1) return null
+        break
+      case 'UNTIL': {
+        const until = parseRuleDate(raw)
+        if (!until) return null
+        rule.until = until
+        break
+      }
+      case 'BYDAY':
+        for (const day of raw.split(',')) {
+          const match = day.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/)
+          if (!match) return null
+          rule.byDay.push(match[1] ? { weekday: match[2] as RecurrenceWeekday, ordinal: parseInt(match[1]) } : { weekday: match[2] as RecurrenceWeekday })
+        }
+        break
+      case 'WKST':
+        break
+      default:
+        return null
+    }
+  }
+
+  if (!hasFrequency) return null
+  // Ordinal weekdays ("first Saturday") only make sense within a month
+  if (rule.frequency !== 'MONTHLY' && rule.byDay.some(day => day.ordinal !== undefined)) return null
+  return rule
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`)
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+/**
+ * Lists the occurrences of a series starting at `start` that fall within the window,
+ * skipping exception dates. The start itself is the first occurrence when it matches the rule.
+ */
+export function expandOccurrences(start: Date, rule: string | RecurrenceRule, window: OccurrenceWindow): Date[] {
+  const parsed = typeof rule === 'string' ? parseRecurrenceRule(rule) : rule
+  if (!parsed || isNaN(start.getTime())) return []
+
+  const timeZone = window.timeZone || RECURRENCE_TIMEZONE
+  const anchor = toWallClock(start, timeZone)
+  const anchorDay = Date.UTC(anchor.year, anchor.month - 1, anchor.day)
+  const exceptions = new Set(window.exceptions || [])
+  const limit = window.limit ?? Infinity
+  const occurrences: Date[] = []
+  let matched = 0
+
+  // Whole periods before the window are skipped - unless COUNT needs its earlier occurrences counted
+  const windowOffset = Math.round((toCalendarDay(window.from, timeZone).getTime() - anchorDay) / DAY_MS) - 1
+  const firstOffset = parsed.count ? 0 : periodStartOffset(parsed, new Date(anchorDay), windowOffset)
+
+  for (let offset = firstOffset; offset < firstOffset + MAX_EXPANSION_DAYS; offset++) {
+    const day = new Date(anchorDay + offset * DAY_MS)
+    if (!matchesRule(parsed, day, new Date(anchorDay), offset)) continue
+
+    const occurrence = fromWallClock(
+      { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate(), hour: anchor.hour, minute: anchor.minute, second: anchor.second },
+      timeZone
+    )
+    if ((parsed.until && occurrence > parsed.until) || occurrence > window.to) break
+
+    // COUNT includes excluded dates, as in iCalendar
+    matched++
+    if (parsed.count && matched > parsed.count) break
+
+    if (occurrence >= window.from && !exceptions.has(formatDay(day))) {
+      occurrences.push(occurrence)
+      if (occurrences.length >= limit) break
+    }
+  }
+
+  return occurrences
+}
+
+export function getNextOccurrence(
+  start: Date,
+  rule: string | RecurrenceRule,
+  exceptions: string[] = [],
+  after: Date = new Date()
+): Date | null {
+  return expandOccurrences(start, rule, { from: after, to: LATEST_DATE, exceptions, limit: 1 })[0] || null
+}
+
+/**
+ * Dates a series is listed under in SQL (event_occurrences): its occurrences from the start of
+ * the day `from` falls on, over the next LISTING_HORIZON_DAYS.
+ */
+export function getListingOccurrences(
+  start: Date,
+  rule: string | RecurrenceRule,
+  exceptions: string[] = [],
+  from: Date = new Date()
+): Date[] {
+  const dayStart = startOfCalendarDay(toCalendarDay(from))
+  return expandOccurrences(start, rule, {
+    from: dayStart,
+    to: new Date(dayStart.getTime() + LISTING_HORIZON_DAYS * DAY_MS),
+    exceptions
+  })
+}
+
+/**
+ * Last occurrence of a series bounded by UNTIL or COUNT; null when it repeats indefinitely.
+ */
+export function getSeriesEnd(start: Date, rule: string | RecurrenceRule): Date | null {
+  const parsed = typeof rule === 'string' ? parseRecurrenceRule(rule) : rule
+  if (!parsed || (!parsed.until && !parsed.count)) return null
+
+  const occurrences = expandOccurrences(start, parsed, { from: start, to: parsed.until || LATEST_DATE })
+  return occurrences[occurrences.length - 1] || null
+}
+
+/**
+ * Human-readable Polish description, e.g. "w soboty i niedziele" or "w pierwszą sobotę miesiąca".
+ */
+export function describeRecurrence(rule: string | RecurrenceRule): string {
+  const parsed = typeof rule === 'string' ? parseRecurrenceRule(rule) : rule
+  if (!parsed) return ''
+
+  let description: string
+  if (parsed.frequency === 'DAILY') {
+    description = parsed.interval > 1 ? `co ${parsed.interval} dni` : 'codziennie'
+  } else if (parsed.frequency === 'WEEKLY') {
+    const days = joinWithAnd(parsed.byDay.map(day => WEEKDAY_PLURALS[day.weekday]))
+    const every = parsed.interval > 1 ? `co ${parsed.interval} ${pluralize(parsed.interval, 'tydzień', 'tygodnie', 'tygodni')}` : 'co tydzień'
+    description = days ? `${parsed.interval > 1 ? `${every}, ` : ''}${withPreposition(days)}` : every
+  } else {
+    const days = joinWithAnd(parsed.byDay.map(day => {
+      const feminine = FEMININE_WEEKDAYS.includes(day.weekday) ? 1 : 0
+      const ordinal = day.ordinal !== undefined && ORDINALS[day.ordinal] ? `${ORDINALS[day.ordinal][feminine]} ` : ''
+      return `${ordinal}${WEEKDAY_SINGULARS[day.weekday]}`
+    }))
+    const every = parsed.interval > 1 ? `co ${parsed.interval} ${pluralize(parsed.interval, 'miesiąc', 'miesiące', 'miesięcy')}` : 'co miesiąc'
+    description = days ? `${withPreposition(days)} ${parsed.interval > 1 ? `(${every})` : 'miesiąca'}` : every
+  }
+
+  if (parsed.until) {
+    description += ` do ${parsed.until.toLocaleDateString('pl-PL', { timeZone: RECURRENCE_TIMEZONE })}`
+  } else if (parsed.count) {
+    description += ` (${parsed.count} ${pluralize(parsed.count, 'termin', 'terminy', 'terminów')})`
+  }
+  return description
+}
+
+/**
+ * Statutory public holidays in Poland (dni ustawowo wolne od pracy) as YYYY-MM-DD,
+ * ready to be used as recurrence exceptions.
+ */
+export function getPolishPublicHolidays(year: number): string[] {
+  const easter = getEasterSunday(year)
+  const movable = [0, 1, 49, 60].map(days => formatDay(new Date(easter + days * DAY_MS)))
+  const fixed = ['01-01', '01-06', '05-01', '05-03', '08-15', '11-01', '11-11', '12-25', '12-26']
+  // Christmas Eve is a public holiday since 2025
+  if (year >= 2025) fixed.push('12-24')
+
+  return [...fixed.map(day => `${year}-${day}`), ...movable].sort()
+}
+
+// Calendar day that `date` falls on in the zone, as midnight UTC of that day (like exception dates)
+export function toCalendarDay(date: Date, timeZone: string = RECURRENCE_TIMEZONE): Date {
+  const local = toWallClock(date, timeZone)
+  return new Date(Date.UTC(local.year, local.month - 1, local.day))
+}
+
+// The moment a calendar day (midnight UTC, as returned by toCalendarDay) begins in the zone
+export function startOfCalendarDay(day: Date, timeZone: string = RECURRENCE_TIMEZONE): Date {
+  return fromWallClock(
+    { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate(), hour: 0, minute: 0, second: 0 },
+    timeZone
+  )
+}
+
+function matchesRule(rule: RecurrenceRule, day: Date, anchorDay: Date, offset: number): boolean {
+  const weekday = WEEKDAYS[day.getUTCDay()]
+
+  if (rule.frequency === 'DAILY') {
+    return offset % rule.interval === 0 && (rule.byDay.length === 0 || rule.byDay.some(item => item.weekday === weekday))
+  }
+
+  if (rule.frequency === 'WEEKLY') {
+    // Weeks start on Monday, so "every 2 weeks on Sat and Sun" keeps each weekend together
+    const week = Math.floor((offset + (anchorDay.getUTCDay() + 6) % 7) / 7)
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map(item => item.weekday) : [WEEKDAYS[anchorDay.getUTCDay()]]
+    return week % rule.interval === 0 && weekdays.includes(weekday)
+  }
+
+  const months = (day.getUTCFullYear() - anchorDay.getUTCFullYear()) * 12 + day.getUTCMonth() - anchorDay.getUTCMonth()
+  if (months % rule.interval !== 0) return false
+  if (rule.byDay.length === 0) return day.getUTCDate() === anchorDay.getUTCDate()
+
+  const date = day.getUTCDate()
+  const daysInMonth = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate()
+  return rule.byDay.some(item => {
+    if (item.weekday !== weekday) return false
+    if (item.ordinal === undefined) return true
+    return item.ordinal > 0
+      ? Math.ceil(date / 7) === item.ordinal
+      : Math.ceil((daysInMonth - date + 1) / 7) === -item.ordinal
+  })
+}
+
+// First day of the period (day, week or month, spanning the rule's interval) containing the offset
+function periodStartOffset(rule: RecurrenceRule, anchorDay: Date, offset: number): number {
+  if (offset <= 0) return 0
+
+  if (rule.frequency === 'DAILY') {
+    return offset - offset % rule.interval
+  }
+
+  if (rule.frequency === 'WEEKLY') {
+    const shift = (anchorDay.getUTCDay() + 6) % 7
+    const week = Math.floor((offset + shift) / 7)
+    return Math.max(0, (week - week % rule.interval) * 7 - shift)
+  }
+
+  const day = new Date(anchorDay.getTime() + offset * DAY_MS)
+  const months = (day.getUTCFullYear() - anchorDay.getUTCFullYear()) * 12 + day.getUTCMonth() - anchorDay.getUTCMonth()
+  const periodStart = Date.UTC(anchorDay.getUTCFullYear(), anchorDay.getUTCMonth() + months - months % rule.interval, 1)
+  return Math.max(0, Math.round((periodStart - anchorDay.getTime()) / DAY_MS))
+}
+
+// UNTIL is either a date (20250630) or a UTC date-time (20250630T220000Z); ISO strings are accepted too
+function parseRuleDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  const date = match
+    ? match[4]
+      ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]))
+      : fromWallClock({ year: +match[1], month: +match[2], day: +match[3], hour: 23, minute: 59, second: 59 }, RECURRENCE_TIMEZONE)
+    : new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export interface WallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Building a formatter costs far more than formatting, and expansion converts every occurrence
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>()
+
+// Local date and time parts of a moment in the zone
+export function toWallClock(date: Date, timeZone: string = RECURRENCE_TIMEZONE): WallClock {
+  let formatter = wallClockFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    wallClockFormatters.set(timeZone, formatter)
+  }
+
+  const parts = formatter.formatToParts(date)
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute'), second: value('second') }
+}
+
+// The moment a local date and time in the zone happens
+export function fromWallClock(time: WallClock, timeZone: string = RECURRENCE_TIMEZONE): Date {
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second)
+  // Resolve twice so times near a DST switch pick up the offset valid at the result
+  const firstGuess = wallClock - zoneOffset(wallClock, timeZone)
+  return new Date(wallClock - zoneOffset(firstGuess, timeZone))
+}
+
+function zoneOffset(utcTime: number, timeZone: string): number {
+  const local = toWallClock(new Date(utcTime), timeZone)
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - utcTime
+}
+
+function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10)
+}
+
+// Anonymous Gregorian algorithm; returns midnight UTC of Easter Sunday
+function getEasterSunday(year: number): number {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return Date.UTC(year, month - 1, day)
+}
+
+function joinWithAnd(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} i ${items[items.length - 1]}` : items[0] || ''
+}
+
+// "we wtorki", "w soboty"
+function withPreposition(text: string): string {
+  return /^w[^aeiouyąęó]/i.test(text) ? `we ${text}` : `w ${text}`
+}
@@ -0,0 +1,34 @@
+// Full-text search results shared by the API and the web app. Works on database rows (snake_case).
+
+// Row of the event_search_highlights() function
+export interface SearchHighlight {
+  event_id: string
+  search_rank: number
+  title_highlight: string
+  snippet: string
+}
+
+export type HighlightedRow<T> = T & Partial<Omit<SearchHighlight, 'event_id'>>
+
+/**
+ * Adds search_rank, title_highlight and snippet (HTML with <mark>) to one page of results,
+ * optionally ordering it by relevance. `loadHighlights` runs the database function for the
+ * page's ids; rows it returns nothing for are kept as they are.
+ */
+export async function attachSearchHighlights<T extends { id: string }>(
+  rows: T[],
+  loadHighlights: (eventIds: string[]) => Promise<SearchHighlight[]>,
+  orderByRank = true
+): Promise<HighlightedRow<T>[]> {
+  if (rows.length === 0) return rows
+
+  const highlights = await loadHighlights(rows.map(row => row.id))
+  const byId = new Map(highlights.map(highlight => [highlight.event_id, highlight]))
+  const highlighted: HighlightedRow<T>[] = rows.map(row => {
+    const highlight = byId.get(row.id)
+    return highlight
+      ? { ...row, search_rank: highlight.search_rank, title_highlight: highlight.title_highlight, snippet: highlight.snippet }
+      : row
+  })
+  return orderByRank ? highlighted.sort((a, b) => (b.search_rank || 0) - (a.search_rank || 0)) : highlighted
+}
@@ -41,4 +41,59 @@ export interface Event {
   sourceHash?: string
   sourceId?: string
   sourceName?: string
-}
\ No newline at end of file
+}
+// A row of the events table as the API returns it (snake_case, enum values in upper case)
+export interface EventRow {
+  id: string
+  title: string
+  description: string
+  age_min: number
+  age_max: number
+  price_type: 'FREE' | 'PAID' | 'DONATION'
+  price: number | null
+  currency: string | null
+  location_name: string
+  address: string
+  city: string
+  postal_code: string | null
+  lat: number
+  lng: number
+  organizer_name: string
+  organizer_id: string | null
+  source_url: string
+  source_hash: string | null
+  source_id: string | null
+  source_name: string | null
+  image_urls: string[] | null
+  start_date: string
+  end_date: string | null
+  category: 'WARSZTATY' | 'SPEKTAKLE' | 'SPORT' | 'EDUKACJA' | 'INNE'
+  tags: string[] | null
+  status: 'DRAFT' | 'ACTIVE' | 'EXPIRED' | 'ARCHIVED' | 'CANCELLED'
+  view_count: number | null
+  click_count: number | null
+  created_at: string
+  updated_at: string
+  canonical_event_id: string | null
+  provenance: 'SCRAPED' | 'SYNTHESIZED'
+  cancelled_at: string | null
+  recurrence_rule: string | null
+  recurrence_exceptions: string[]
+  recurrence_until: string | null
+  date_is_default: boolean
+}
+
+// A row of search_events(): the table columns and the date the event is listed under
+export interface EventListingRow extends EventRow {
+  next_occurrence: string
+}
+
+// Columns selected for EventRow - search_vector and the scraper's missed_runs counter stay internal
+export const EVENT_ROW_COLUMNS = [
+  'id', 'title', 'description', 'age_min', 'age_max', 'price_type', 'price', 'currency',
+  'location_name', 'address', 'city', 'postal_code', 'lat', 'lng', 'organizer_name', 'organizer_id',
+  'source_url', 'source_hash', 'source_id', 'source_name', 'image_urls', 'start_date', 'end_date',
+  'category', 'tags', 'status', 'view_count', 'click_count', 'created_at', 'updated_at',
+  'canonical_event_id', 'provenance', 'cancelled_at', 'recurrence_rule', 'recurrence_exceptions',
+  'recurrence_until', 'date_is_default',
+].join(', ')
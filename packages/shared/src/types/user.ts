@@ -17,7 +17,8 @@ export interface ChildProfile {
   id: string
   userId: string
   name: string
-  age: number
+  birthYear: number
+  birthMonth: number // 1-12; ages are computed with childAgeAt()
   interests: string[]
   createdAt: Date
   updatedAt: Date
@@ -0,0 +1,37 @@
+-- Migration: Alert Matching
+-- Records which events matched which alerts so every event is delivered at most once per alert
+
+CREATE TABLE IF NOT EXISTS public.alert_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ DEFAULT NOW(),
+  -- NULL until the match has been sent (immediately or as part of a digest)
+  delivered_at TIMESTAMPTZ,
+
+  CONSTRAINT alert_matches_alert_event_unique UNIQUE (alert_id, event_id)
+);
+
+-- Index for digest jobs looking up pending matches
+CREATE INDEX IF NOT EXISTS idx_alert_matches_pending
+ON public.alert_matches (alert_id, matched_at)
+WHERE delivered_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alerts_frequency_active
+ON public.alerts (frequency, is_active);
+
+ALTER TABLE public.alert_matches ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can see matches for their own alerts (writes happen with the service role)
+CREATE POLICY "Users can view own alert matches" ON public.alert_matches
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.alerts
+      WHERE alerts.id = alert_matches.alert_id
+      AND alerts.user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.alert_matches IS
+'One row per alert/event pair matched by the scraper alert matcher.
+delivered_at is set once the event has been sent to the user, so it is never sent twice.';
@@ -0,0 +1,147 @@
+-- Migration: Cross-source Event Deduplication
+-- Near-duplicate events from different scrapers are merged into one canonical event.
+-- Duplicates are hidden (ARCHIVED) and remember their previous status so admins can unmerge them.
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS canonical_event_id UUID REFERENCES public.events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_canonical_event_id
+ON public.events (canonical_event_id)
+WHERE canonical_event_id IS NOT NULL;
+
+-- One row per merged duplicate; a cluster is the canonical event plus all its rows here
+CREATE TABLE IF NOT EXISTS public.event_duplicates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  canonical_event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  duplicate_event_id UUID UNIQUE NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  similarity DECIMAL(4, 3) NOT NULL,
+  previous_status event_status NOT NULL,
+  reviewed_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Pairs an admin has unmerged - the deduplicator never merges them again
+CREATE TABLE IF NOT EXISTS public.event_dedup_exclusions (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  other_event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (event_id, other_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_duplicates_canonical ON public.event_duplicates(canonical_event_id);
+
+-- Every source that contributed to an event: its own source plus all merged duplicates
+CREATE OR REPLACE VIEW public.event_sources AS
+SELECT
+  e.id AS event_id,
+  e.id AS contributing_event_id,
+  e.source_name,
+  e.source_url
+FROM public.events e
+WHERE e.canonical_event_id IS NULL
+UNION ALL
+SELECT
+  d.canonical_event_id AS event_id,
+  dup.id AS contributing_event_id,
+  dup.source_name,
+  dup.source_url
+FROM public.event_duplicates d
+JOIN public.events dup ON dup.id = d.duplicate_event_id;
+
+ALTER TABLE public.event_duplicates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_dedup_exclusions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Sources of an event are public information
+CREATE POLICY "Event duplicates are viewable by everyone" ON public.event_duplicates
+  FOR SELECT USING (true);
+
+-- Policy: Only admins can view dedup exclusions
+CREATE POLICY "Admins can view dedup exclusions" ON public.event_dedup_exclusions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('ADMIN', 'MODERATOR')
+    )
+  );
+
+-- Admin tool: split a duplicate back out of its cluster and restore its previous status
+CREATE OR REPLACE FUNCTION unmerge_event_duplicate(duplicate_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  dup public.event_duplicates%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('ADMIN', 'MODERATOR')
+  ) THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  SELECT * INTO dup FROM public.event_duplicates WHERE id = duplicate_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.events
+  SET
+    status = dup.previous_status,
+    canonical_event_id = NULL,
+    updated_at = NOW()
+  WHERE id = dup.duplicate_event_id;
+
+  INSERT INTO public.event_dedup_exclusions (event_id, other_event_id, created_by)
+  VALUES (dup.duplicate_event_id, dup.canonical_event_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.event_duplicates WHERE id = duplicate_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin tool: confirm that a merge is correct so it leaves the review queue
+CREATE OR REPLACE FUNCTION confirm_event_duplicate(duplicate_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  updated BOOLEAN := FALSE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role IN ('ADMIN', 'MODERATOR')
+  ) THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  UPDATE public.event_duplicates
+  SET
+    reviewed_at = NOW(),
+    reviewed_by = auth.uid()
+  WHERE id = duplicate_id;
+
+  updated := FOUND;
+
+  RETURN updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON public.event_sources TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION unmerge_event_duplicate(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_event_duplicate(UUID) TO authenticated;
+
+COMMENT ON FUNCTION unmerge_event_duplicate(UUID) IS
+'Unmerge a duplicate from its canonical event (admin tool).
+Usage: SELECT unmerge_event_duplicate(''event-duplicate-uuid-here'');
+Restores the previous status and records an exclusion so the pair is not merged again.';
+
+COMMENT ON FUNCTION confirm_event_duplicate(UUID) IS
+'Mark a merged duplicate as reviewed (admin tool).
+Usage: SELECT confirm_event_duplicate(''event-duplicate-uuid-here'');
+Returns TRUE if the duplicate was found.';
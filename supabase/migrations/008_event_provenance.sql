@@ -0,0 +1,12 @@
+-- Migration: Event Provenance
+-- Distinguishes events parsed from a source from "standard" events invented by scraper fallbacks.
+-- Synthesized events are inserted as DRAFT and must be approved in the admin panel.
+
+CREATE TYPE event_provenance AS ENUM ('SCRAPED', 'SYNTHESIZED');
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS provenance event_provenance NOT NULL DEFAULT 'SCRAPED';
+
+CREATE INDEX IF NOT EXISTS idx_events_provenance_status
+ON public.events (provenance, status)
+WHERE provenance = 'SYNTHESIZED';
@@ -0,0 +1,42 @@
+-- Migration: Scraper Run History
+-- One row per scraper run, used by the admin health dashboard
+
+CREATE TYPE scraper_run_status AS ENUM ('SUCCESS', 'FAILED');
+
+CREATE TABLE IF NOT EXISTS public.scraper_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scraper_name TEXT NOT NULL,
+  status scraper_run_status NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL,
+  duration_ms INTEGER NOT NULL,
+
+  -- Counts returned by BaseScraper.run()
+  events_count INTEGER NOT NULL DEFAULT 0,
+  new_events INTEGER NOT NULL DEFAULT 0,
+  updated_events INTEGER NOT NULL DEFAULT 0,
+  real_events INTEGER NOT NULL DEFAULT 0,
+  synthesized_events INTEGER NOT NULL DEFAULT 0,
+
+  error TEXT,
+  http_failures INTEGER NOT NULL DEFAULT 0,
+  -- [{ url, status, message }] for the failed requests (capped by the worker)
+  http_failure_details JSONB DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_scraper_runs_name_started ON public.scraper_runs(scraper_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scraper_runs_started ON public.scraper_runs(started_at DESC);
+
+ALTER TABLE public.scraper_runs ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can view scraper runs (the worker writes with the service role)
+CREATE POLICY "Admins can view scraper runs" ON public.scraper_runs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('ADMIN', 'MODERATOR')
+    )
+  );
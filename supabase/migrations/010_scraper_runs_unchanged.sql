@@ -0,0 +1,5 @@
+-- Migration: Unchanged event count on scraper runs
+-- Batched upserts skip events whose content did not change since the last run
+
+ALTER TABLE public.scraper_runs
+  ADD COLUMN IF NOT EXISTS unchanged_events INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,63 @@
+-- Migration: Event Cancellation
+-- Future events that disappear from their source listing for several consecutive runs become CANCELLED
+
+ALTER TYPE event_status ADD VALUE IF NOT EXISTS 'CANCELLED';
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS missed_runs INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_events_source_name_status ON public.events(source_name, status);
+
+-- Records which events a scraper run listed and cancels the ones missing for too long
+CREATE OR REPLACE FUNCTION record_source_listing(
+  p_source_name TEXT,
+  p_seen_hashes TEXT[],
+  p_missed_runs_threshold INTEGER DEFAULT 3
+)
+RETURNS TABLE(cancelled_event_id UUID) AS $$
+BEGIN
+  -- Listed again: reset the counter and bring back events cancelled by mistake
+  UPDATE public.events
+  SET
+    missed_runs = 0,
+    status = CASE WHEN status = 'CANCELLED' AND cancelled_at IS NOT NULL THEN 'ACTIVE' ELSE status END,
+    cancelled_at = NULL
+  WHERE
+    source_name = p_source_name
+    AND source_hash = ANY(p_seen_hashes)
+    AND (missed_runs > 0 OR cancelled_at IS NOT NULL);
+
+  -- Previously listed future events missing from this run
+  UPDATE public.events
+  SET missed_runs = missed_runs + 1
+  WHERE
+    source_name = p_source_name
+    AND status = 'ACTIVE'
+    AND provenance = 'SCRAPED'
+    AND start_date > NOW()
+    AND NOT (source_hash = ANY(p_seen_hashes))
+    -- Merged events may still be listed by another source
+    AND NOT EXISTS (
+      SELECT 1 FROM public.event_duplicates
+      WHERE event_duplicates.canonical_event_id = events.id
+    );
+
+  RETURN QUERY
+  UPDATE public.events
+  SET
+    status = 'CANCELLED',
+    cancelled_at = NOW()
+  WHERE
+    source_name = p_source_name
+    AND status = 'ACTIVE'
+    AND start_date > NOW()
+    AND missed_runs >= p_missed_runs_threshold
+  RETURNING id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_source_listing(TEXT, TEXT[], INTEGER) IS
+'Called by the scraper worker after each successful run with the source_hash values it listed.
+Usage: SELECT * FROM record_source_listing(''opera-bialystok'', ARRAY[''hash1'', ''hash2''], 3);
+Returns the ids of events cancelled by this call.';
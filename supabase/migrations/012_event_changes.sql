@@ -0,0 +1,29 @@
+-- Migration: Event Change Log
+-- Field-level history of changes picked up when a source is rescraped
+
+CREATE TABLE IF NOT EXISTS public.event_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  field TEXT NOT NULL, -- events column name, e.g. start_date
+  old_value JSONB,
+  new_value JSONB,
+  source TEXT NOT NULL, -- Scraper that reported the change
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_changes_event ON public.event_changes(event_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_changes_changed_at ON public.event_changes(changed_at DESC);
+
+ALTER TABLE public.event_changes ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can view the change log (the worker writes with the service role)
+CREATE POLICY "Admins can view event changes" ON public.event_changes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('ADMIN', 'MODERATOR')
+    )
+  );
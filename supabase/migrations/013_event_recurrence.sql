@@ -0,0 +1,107 @@
+-- Migration: Recurring Events
+-- One row per series instead of one row per guessed date. start_date is the first occurrence,
+-- end_date the end of that occurrence; the rest is expanded from the rule by the API and the web app.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT, -- iCalendar RRULE, e.g. FREQ=WEEKLY;BYDAY=SA,SU
+  ADD COLUMN IF NOT EXISTS recurrence_exceptions DATE[] NOT NULL DEFAULT '{}', -- Skipped dates: holidays, cancelled sessions
+  ADD COLUMN IF NOT EXISTS recurrence_until TIMESTAMPTZ; -- Last occurrence, NULL when the series never ends
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring
+ON public.events (status, recurrence_until)
+WHERE recurrence_rule IS NOT NULL;
+
+-- Recurring events expire after their last occurrence, not their first one
+CREATE OR REPLACE FUNCTION update_expired_events()
+RETURNS TABLE(updated_count INTEGER, details TEXT) AS $$
+DECLARE
+  updated_count INTEGER := 0;
+  details TEXT := '';
+BEGIN
+  UPDATE public.events
+  SET
+    status = 'EXPIRED',
+    updated_at = NOW()
+  WHERE
+    status = 'ACTIVE'
+    AND (
+      -- Recurring events: the series has ended
+      (recurrence_rule IS NOT NULL AND recurrence_until IS NOT NULL AND recurrence_until < NOW() - INTERVAL '1 day')
+      OR
+      -- Multi-day events: check end_date
+      (recurrence_rule IS NULL AND end_date IS NOT NULL AND end_date < NOW())
+      OR
+      -- Single-day events: use start_date + 1 day buffer
+      (recurrence_rule IS NULL AND end_date IS NULL AND start_date < NOW() - INTERVAL '1 day')
+    );
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  details := format('Updated %s events from ACTIVE to EXPIRED at %s',
+                   updated_count, NOW()::TEXT);
+
+  INSERT INTO public.system_logs (operation, details, created_at)
+  VALUES ('update_expired_events', details, NOW())
+  ON CONFLICT DO NOTHING;
+
+  RETURN QUERY SELECT updated_count, details;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A series that started in the past is still upcoming until its last occurrence
+CREATE OR REPLACE FUNCTION record_source_listing(
+  p_source_name TEXT,
+  p_seen_hashes TEXT[],
+  p_missed_runs_threshold INTEGER DEFAULT 3
+)
+RETURNS TABLE(cancelled_event_id UUID) AS $$
+BEGIN
+  -- Listed again: reset the counter and bring back events cancelled by mistake
+  UPDATE public.events
+  SET
+    missed_runs = 0,
+    status = CASE WHEN status = 'CANCELLED' AND cancelled_at IS NOT NULL THEN 'ACTIVE' ELSE status END,
+    cancelled_at = NULL
+  WHERE
+    source_name = p_source_name
+    AND source_hash = ANY(p_seen_hashes)
+    AND (missed_runs > 0 OR cancelled_at IS NOT NULL);
+
+  -- Previously listed future events missing from this run
+  UPDATE public.events
+  SET missed_runs = missed_runs + 1
+  WHERE
+    source_name = p_source_name
+    AND status = 'ACTIVE'
+    AND provenance = 'SCRAPED'
+    AND (
+      start_date > NOW()
+      OR (recurrence_rule IS NOT NULL AND (recurrence_until IS NULL OR recurrence_until > NOW()))
+    )
+    AND NOT (source_hash = ANY(p_seen_hashes))
+    -- Merged events may still be listed by another source
+    AND NOT EXISTS (
+      SELECT 1 FROM public.event_duplicates
+      WHERE event_duplicates.canonical_event_id = events.id
+    );
+
+  RETURN QUERY
+  UPDATE public.events
+  SET
+    status = 'CANCELLED',
+    cancelled_at = NOW()
+  WHERE
+    source_name = p_source_name
+    AND status = 'ACTIVE'
+    AND (
+      start_date > NOW()
+      OR (recurrence_rule IS NOT NULL AND (recurrence_until IS NULL OR recurrence_until > NOW()))
+    )
+    AND missed_runs >= p_missed_runs_threshold
+  RETURNING id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN public.events.recurrence_rule IS
+'RRULE subset expanded by @events-agregator/shared (FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, UNTIL, COUNT).
+Occurrences keep the wall-clock time of start_date in Europe/Warsaw.';
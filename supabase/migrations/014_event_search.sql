@@ -0,0 +1,110 @@
+-- Migration: Full-text Event Search
+-- Ranked search over title, tags, venue and description. Stock Postgres has no Polish stemmer,
+-- so documents are indexed unaccented without stemming and query words are reduced to a stem
+-- and matched as prefixes ("warsztatów" -> warsztat:* matches "warsztaty"). Trigram similarity
+-- on the title catches typos.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() is only STABLE; index expressions need an IMMUTABLE wrapper
+CREATE OR REPLACE FUNCTION public.f_unaccent(TEXT)
+RETURNS TEXT AS $$
+  SELECT public.unaccent('public.unaccent', $1)
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'polish_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION public.polish_unaccent (COPY = pg_catalog.simple);
+    ALTER TEXT SEARCH CONFIGURATION public.polish_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH public.unaccent, simple;
+  END IF;
+END
+$$;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION update_event_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('public.polish_unaccent', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('public.polish_unaccent', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('public.polish_unaccent', COALESCE(NEW.location_name, '') || ' ' || COALESCE(NEW.city, '')), 'C') ||
+    setweight(to_tsvector('public.polish_unaccent', COALESCE(NEW.description, '')), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_events_search_vector ON public.events;
+CREATE TRIGGER update_events_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, location_name, city, tags ON public.events
+  FOR EACH ROW EXECUTE FUNCTION update_event_search_vector();
+
+-- Backfill existing rows (the trigger fires on the listed columns)
+UPDATE public.events SET title = title WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_search_vector ON public.events USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_events_title_trgm ON public.events USING GIN (public.f_unaccent(lower(title)) gin_trgm_ops);
+
+-- Strips common Polish inflection endings, keeping at least 4 letters of the stem
+CREATE OR REPLACE FUNCTION polish_search_stem(p_word TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN length(p_word) > 4 AND length(regexp_replace(p_word, '(ami|ach|owi|ow|om|em|ze|ie|y|i|a|e|u|o)$', '')) >= 4
+      THEN regexp_replace(p_word, '(ami|ach|owi|ow|om|em|ze|ie|y|i|a|e|u|o)$', '')
+    ELSE p_word
+  END
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+-- Builds a prefix tsquery from raw user input; words are reduced to letters and digits,
+-- so no tsquery syntax from the input survives. NULL when nothing searchable is left.
+CREATE OR REPLACE FUNCTION build_event_search_query(p_query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery('public.polish_unaccent', string_agg(polish_search_stem(word) || ':*', ' & '))
+  FROM regexp_split_to_table(public.f_unaccent(lower(COALESCE(p_query, ''))), '[^a-z0-9]+') AS word
+  WHERE word <> ''
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Matching events, best first. Callers add their own filters (status, city...) and pagination.
+CREATE OR REPLACE FUNCTION search_events(p_query TEXT)
+RETURNS SETOF public.events AS $$
+  WITH search AS (
+    SELECT build_event_search_query(p_query) AS q, public.f_unaccent(lower(trim(p_query))) AS term
+  )
+  SELECT e.*
+  FROM public.events e, search
+  WHERE search.q IS NOT NULL
+    AND (e.search_vector @@ search.q OR search.term <% public.f_unaccent(lower(e.title)))
+  ORDER BY
+    ts_rank_cd(e.search_vector, search.q, 32) + 0.5 * word_similarity(search.term, public.f_unaccent(lower(e.title))) DESC,
+    e.start_date ASC
+$$ LANGUAGE sql STABLE;
+
+-- Relevance and highlighted fragments for one page of results; <mark> wraps the matches
+-- and everything else is HTML-escaped
+CREATE OR REPLACE FUNCTION event_search_highlights(p_query TEXT, p_event_ids UUID[])
+RETURNS TABLE(event_id UUID, search_rank REAL, title_highlight TEXT, snippet TEXT) AS $$
+  WITH search AS (
+    SELECT build_event_search_query(p_query) AS q, public.f_unaccent(lower(trim(p_query))) AS term
+  )
+  SELECT
+    e.id,
+    (ts_rank_cd(e.search_vector, search.q, 32) + 0.5 * word_similarity(search.term, public.f_unaccent(lower(e.title))))::REAL,
+    ts_headline('public.polish_unaccent', replace(replace(replace(e.title, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), search.q,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    ts_headline('public.polish_unaccent', replace(replace(replace(e.description, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), search.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')
+  FROM public.events e, search
+  WHERE e.id = ANY(p_event_ids)
+    AND search.q IS NOT NULL
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_events(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION event_search_highlights(TEXT, UUID[]) TO anon, authenticated;
+
+COMMENT ON FUNCTION search_events(TEXT) IS
+'Full-text event search ordered by relevance. Filter and paginate the result like the events table:
+supabase.rpc(''search_events'', { p_query: ''warsztaty plastyczne'' }).eq(''status'', ''ACTIVE'').range(0, 24)';
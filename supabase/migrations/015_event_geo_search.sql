@@ -0,0 +1,61 @@
+-- Migration: Geo-radius Event Search
+-- "Events within 15 km" for families outside the city centre. Uses earthdistance
+-- (great-circle distance in metres) with a GiST index on the event coordinates.
+
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+CREATE INDEX IF NOT EXISTS idx_events_location_earth
+ON public.events USING GIST (ll_to_earth(lat, lng))
+WHERE lat IS NOT NULL AND lng IS NOT NULL;
+
+-- search_events gains optional text, radius and distance ordering; every argument may be NULL
+DROP FUNCTION IF EXISTS search_events(TEXT);
+
+CREATE OR REPLACE FUNCTION search_events(
+  p_query TEXT DEFAULT NULL,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_order_by TEXT DEFAULT 'relevance' -- 'relevance' or 'distance'
+)
+RETURNS SETOF public.events AS $$
+  WITH search AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') IS NOT NULL AS has_text,
+      build_event_search_query(p_query) AS q,
+      public.f_unaccent(lower(trim(COALESCE(p_query, '')))) AS term,
+      CASE WHEN p_lat IS NOT NULL AND p_lng IS NOT NULL THEN ll_to_earth(p_lat, p_lng) END AS center
+  )
+  SELECT e.*
+  FROM public.events e, search
+  WHERE
+    (
+      NOT search.has_text
+      OR (search.q IS NOT NULL AND (e.search_vector @@ search.q OR search.term <% public.f_unaccent(lower(e.title))))
+    )
+    AND (
+      search.center IS NULL
+      OR p_radius_km IS NULL
+      OR (
+        e.lat IS NOT NULL AND e.lng IS NOT NULL
+        -- earth_box uses the index, earth_distance trims the corners of the box
+        AND earth_box(search.center, p_radius_km * 1000) @> ll_to_earth(e.lat, e.lng)
+        AND earth_distance(search.center, ll_to_earth(e.lat, e.lng)) <= p_radius_km * 1000
+      )
+    )
+  ORDER BY
+    CASE WHEN p_order_by = 'distance' AND search.center IS NOT NULL AND e.lat IS NOT NULL AND e.lng IS NOT NULL
+      THEN earth_distance(search.center, ll_to_earth(e.lat, e.lng))
+    END ASC NULLS LAST,
+    CASE WHEN search.has_text
+      THEN ts_rank_cd(e.search_vector, search.q, 32) + 0.5 * word_similarity(search.term, public.f_unaccent(lower(e.title)))
+    END DESC NULLS LAST,
+    e.start_date ASC
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_events(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION search_events(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT) IS
+'Event search by text and/or distance. Filter and paginate the result like the events table:
+supabase.rpc(''search_events'', { p_lat: 53.19, p_lng: 23.27, p_radius_km: 15, p_order_by: ''distance'' }).eq(''status'', ''ACTIVE'')';
@@ -0,0 +1,5 @@
+-- Migration: Map Viewport Queries
+-- The home page map asks for events inside the visible bounding box on every pan and zoom.
+
+CREATE INDEX IF NOT EXISTS idx_events_status_lat_lng
+ON public.events (status, lat, lng);
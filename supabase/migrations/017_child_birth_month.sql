@@ -0,0 +1,33 @@
+-- Migration: Child Birth Month
+-- child_profiles.age went stale after every birthday. Profiles store the month and year
+-- of birth instead; ages are computed at the date they are needed (e.g. an event's date).
+
+ALTER TABLE public.child_profiles
+  ADD COLUMN IF NOT EXISTS birth_year SMALLINT,
+  ADD COLUMN IF NOT EXISTS birth_month SMALLINT CHECK (birth_month BETWEEN 1 AND 12);
+
+-- Existing profiles: the stored age is taken as the age reached this month
+UPDATE public.child_profiles
+SET
+  birth_year = EXTRACT(YEAR FROM NOW() AT TIME ZONE 'Europe/Warsaw')::SMALLINT - age,
+  birth_month = EXTRACT(MONTH FROM NOW() AT TIME ZONE 'Europe/Warsaw')::SMALLINT
+WHERE birth_year IS NULL;
+
+ALTER TABLE public.child_profiles
+  ALTER COLUMN birth_year SET NOT NULL,
+  ALTER COLUMN birth_month SET NOT NULL,
+  ADD CONSTRAINT child_profiles_birth_year_check CHECK (birth_year BETWEEN 1990 AND 2100);
+
+ALTER TABLE public.child_profiles DROP COLUMN IF EXISTS age;
+
+-- Age in full years on a date; a child counts as a year older from the first day of the birth month
+CREATE OR REPLACE FUNCTION child_age_at(p_birth_year INTEGER, p_birth_month INTEGER, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS INTEGER AS $$
+  SELECT GREATEST(0, FLOOR((
+    (EXTRACT(YEAR FROM p_at AT TIME ZONE 'Europe/Warsaw') - p_birth_year) * 12 +
+    EXTRACT(MONTH FROM p_at AT TIME ZONE 'Europe/Warsaw') - p_birth_month
+  ) / 12))::INTEGER
+$$ LANGUAGE sql STABLE PARALLEL SAFE;
+
+COMMENT ON COLUMN public.child_profiles.birth_month IS
+'Month of birth (1-12). Only month and year are stored; see child_age_at() and childAgeAt() in @events-agregator/shared.';
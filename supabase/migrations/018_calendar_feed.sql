@@ -0,0 +1,34 @@
+-- Migration: Favourites Calendar Feed
+-- Every user gets a secret ICS feed URL with their favourite events, for subscribing
+-- from phone calendars. Calendar apps cannot log in, so the token in the URL is the only key.
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS calendar_token UUID NOT NULL DEFAULT uuid_generate_v4();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_calendar_token ON public.profiles(calendar_token);
+
+-- New feed URL for the current user; the old one stops working (e.g. after it was shared by mistake)
+CREATE OR REPLACE FUNCTION public.reset_calendar_token()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_token UUID := uuid_generate_v4();
+BEGIN
+  UPDATE public.profiles
+  SET calendar_token = new_token, updated_at = NOW()
+  WHERE id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile not found';
+  END IF;
+
+  RETURN new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reset_calendar_token() TO authenticated;
+
+COMMENT ON COLUMN public.profiles.calendar_token IS
+'Secret token of the favourites ICS feed (GET /api/calendar/feed/:token.ics). Rotate with reset_calendar_token().';
@@ -0,0 +1,29 @@
+-- Migration: Partner API Keys
+-- Schools, blogs and city portals read events through the versioned /v1 API with their own keys.
+-- Only a SHA-256 hash of each key is stored; the key itself is shown once, when it is created.
+-- Request counters and usage statistics live in Redis (see apps/api/src/middleware/apiKey.ts).
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  key_prefix TEXT NOT NULL, -- Start of the key, so owners can tell their keys apart
+  key_hash TEXT UNIQUE NOT NULL,
+  -- Quotas; raised by admins for bigger partners
+  requests_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (requests_per_minute > 0),
+  requests_per_day INTEGER NOT NULL DEFAULT 5000 CHECK (requests_per_day > 0),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created and revoked through the API (service role); owners may read their own
+CREATE POLICY "Users can view own API keys" ON public.api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.api_keys.key_hash IS
+'Hex SHA-256 of the full key sent in the X-API-Key header.';
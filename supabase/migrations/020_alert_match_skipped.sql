@@ -0,0 +1,15 @@
+-- Migration: Skipped Alert Matches
+-- Digest matches whose event started or was withdrawn before the digest ran are marked
+-- as skipped, so they stop being re-read as pending on every digest run
+
+ALTER TABLE public.alert_matches
+ADD COLUMN IF NOT EXISTS skipped_at TIMESTAMPTZ;
+
+DROP INDEX IF EXISTS idx_alert_matches_pending;
+
+CREATE INDEX IF NOT EXISTS idx_alert_matches_pending
+ON public.alert_matches (alert_id, matched_at)
+WHERE delivered_at IS NULL AND skipped_at IS NULL;
+
+COMMENT ON COLUMN public.alert_matches.skipped_at IS
+'Set by the digest job when the event already started or is no longer active. Skipped matches are never delivered.';
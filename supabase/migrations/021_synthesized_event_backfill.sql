@@ -0,0 +1,131 @@
+-- Migration: Synthesized Event Backfill
+-- Fallback events invented before provenance tracking (008) were published as ACTIVE SCRAPED rows,
+-- and each run inserted a new copy of every fallback event because its hash included a date
+-- relative to the run. Fabricated rows go back to the review queue, and one row per fallback
+-- event is kept under the date-less hash the scrapers now use for synthesized events.
+
+-- Titles of the fallback events of every scraper
+UPDATE public.events
+SET
+  provenance = 'SYNTHESIZED',
+  status = CASE WHEN events.status = 'ACTIVE' THEN 'DRAFT'::event_status ELSE events.status END
+FROM (
+  VALUES
+    ('biblioteka-bialystok', 'Spotkania z bajką dla najmłodszych'),
+    ('biblioteka-bialystok', 'Warsztaty plastyczne w bibliotece'),
+    ('biblioteka-bialystok', 'Klub młodego czytelnika'),
+    ('biblioteka-bialystok', 'Lekcje biblioteczne dla szkół'),
+    ('biblioteka-bialystok', 'Teatrzyk kukiełkowy w bibliotece'),
+    ('biblioteka-bialystok', 'Rodzinne czytanie w weekend'),
+    ('biblioteka-bialystok', 'Komputerowe ABC dla dzieci'),
+    ('opera-bialystok', 'Bajkowa Opera dla dzieci'),
+    ('opera-bialystok', 'Koncerty rodzinne filharmonii'),
+    ('opera-bialystok', 'Warsztaty wokalne dla dzieci'),
+    ('opera-bialystok', 'Młoda Filharmonia - edukacja muzyczna'),
+    ('opera-bialystok', 'Spektakle muzyczne dla szkół'),
+    ('opera-bialystok', 'Wigilie artystyczne dla rodzin'),
+    ('muzeum-podlaskie', 'Warsztaty historyczne dla dzieci'),
+    ('muzeum-podlaskie', 'Zwiedzanie z przewodnikiem dla rodzin'),
+    ('muzeum-podlaskie', 'Warsztaty archeologiczne'),
+    ('muzeum-podlaskie', 'Lekcje muzealne dla szkół'),
+    ('muzeum-podlaskie', 'Noce w muzeum - rodzinne wydarzenia'),
+    ('muzeum-podlaskie', 'Warsztaty rękodzieła ludowego'),
+    ('teatr-dramatyczny-bialystok', 'Bajkowe spektakle dla najmłodszych'),
+    ('teatr-dramatyczny-bialystok', 'Spektakle familijne w weekendy'),
+    ('teatr-dramatyczny-bialystok', 'Warsztaty teatralne dla dzieci'),
+    ('teatr-dramatyczny-bialystok', 'Spektakle edukacyjne dla szkół'),
+    ('teatr-dramatyczny-bialystok', 'Mikołajkowe przedstawienia'),
+    ('teatr-dramatyczny-bialystok', 'Młodzieżowe spektakle współczesne'),
+    ('bialystok-miasto-rss', 'Dni Białegostoku - program dla dzieci'),
+    ('bialystok-miasto-rss', 'Letnie kino w parku dla rodzin'),
+    ('bialystok-miasto-rss', 'Miejskie warsztaty ekologiczne'),
+    ('bialystok-miasto-rss', 'Rodzinne biegi miejskie'),
+    ('bialystok-miasto-rss', 'Świąteczne jarmarki z programem dla dzieci'),
+    ('naszemiasto-bialystok', 'Weekend z dziećmi w Białymstoku'),
+    ('naszemiasto-bialystok', 'Lokalne festiwale rodzinne'),
+    ('naszemiasto-bialystok', 'Warsztaty w centrach handlowych'),
+    ('naszemiasto-bialystok', 'Sportowe wydarzenia dziecięce'),
+    ('evenea-bialystok', 'Letnie półkolonie kreatywne w Białymstoku'),
+    ('evenea-bialystok', 'Warsztaty programowania dla dzieci - Białystok'),
+    ('evenea-bialystok', 'Obóz językowy angielski - Białystok'),
+    ('evenea-bialystok', 'Warsztaty kulinarne dla młodych szefów'),
+    ('evenea-bialystok', 'Sportowe zawody rodzinne - Białystok'),
+    ('bialystokonline', 'Weekendowe atrakcje dla dzieci w Białymstoku'),
+    ('bialystokonline', 'Wakacyjne animacje w parkach miejskich'),
+    ('bialystokonline', 'Rodzinne wydarzenia kulturalne'),
+    ('bialystokonline', 'Warsztaty edukacyjne w bibliotekach'),
+    ('bialystokonline', 'Sportowe turnieje młodzieżowe'),
+    ('bialystokonline', 'Miejskie festiwale rodzinne'),
+    ('centrum-nauki-kopernik', 'Interaktywne ekspozycje stałe'),
+    ('centrum-nauki-kopernik', 'Planetarium - Podróże po kosmosie'),
+    ('centrum-nauki-kopernik', 'Warsztaty naukowe dla dzieci'),
+    ('centrum-nauki-kopernik', 'Laboratorium Buzzz!'),
+    ('centrum-nauki-kopernik', 'Roboty i robotyka'),
+    ('zoo-warszawa', 'Karmienie pingwinów - pokaz edukacyjny'),
+    ('zoo-warszawa', 'Zajęcia edukacyjne - Świat zwierząt'),
+    ('zoo-warszawa', 'Nocne zwiedzanie zoo z latarką'),
+    ('zoo-warszawa', 'Spotkanie z lekarzem weterynarii'),
+    ('zoo-warszawa', 'Dni otwarte - bezpłatne zwiedzanie'),
+    ('muzeum-narodowe-warszawa', 'Warsztaty plastyczne dla dzieci'),
+    ('muzeum-narodowe-warszawa', 'Rodzinne zwiedzanie z przewodnikiem'),
+    ('muzeum-narodowe-warszawa', 'Sobotnie spotkania z sztuką'),
+    ('muzeum-narodowe-warszawa', 'Noc w muzeum - rodzinne wydarzenie'),
+    ('muzeum-narodowe-warszawa', 'Letnie warsztaty wakacyjne'),
+    ('muzeum-narodowe-warszawa', 'Bezpłatne dni dla rodzin'),
+    ('polin-museum', 'Warsztat rodzinny: Tradycje i zwyczaje'),
+    ('polin-museum', 'Lekcja historii dla dzieci'),
+    ('polin-museum', 'Warsztaty kulinarne: Kuchnia żydowska'),
+    ('polin-museum', 'Opowieści przy teatrzyku cieni'),
+    ('polin-museum', 'Sobotnie spotkania rodzinne'),
+    ('polin-museum', 'Dzień otwarty - bezpłatne zwiedzanie'),
+    ('epi-centrum', 'Interaktywne ekspozycje naukowe'),
+    ('epi-centrum', 'Warsztaty naukowe dla dzieci'),
+    ('epi-centrum', 'Planetarium i pokazy astronomiczne')
+) AS fabricated(source_name, title)
+WHERE
+  events.source_name = fabricated.source_name
+  AND events.title = fabricated.title
+  AND events.provenance = 'SCRAPED';
+
+UPDATE public.events
+SET
+  provenance = 'SYNTHESIZED',
+  status = CASE WHEN status = 'ACTIVE' THEN 'DRAFT'::event_status ELSE status END
+WHERE
+  source_name = 'test-scraper'
+  AND title LIKE '[TEST] %'
+  AND provenance = 'SCRAPED';
+
+-- Drop the drafts piled up by earlier runs; approved rows win over drafts, newer over older
+DELETE FROM public.events
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      status,
+      ROW_NUMBER() OVER (
+        PARTITION BY title, location_name
+        ORDER BY (status <> 'DRAFT') DESC, created_at DESC
+      ) AS position
+    FROM public.events
+    WHERE provenance = 'SYNTHESIZED'
+  ) ranked
+  WHERE position > 1 AND status = 'DRAFT'
+);
+
+-- Same hash as BaseScraper.generateHash() gives a synthesized event: sha256 of "<title>-undated-<location>"
+UPDATE public.events
+SET source_hash = encode(sha256(convert_to(title || '-undated-' || location_name, 'UTF8')), 'hex')
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        PARTITION BY title, location_name
+        ORDER BY (status <> 'DRAFT') DESC, created_at DESC
+      ) AS position
+    FROM public.events
+    WHERE provenance = 'SYNTHESIZED'
+  ) ranked
+  WHERE position = 1
+);
@@ -0,0 +1,139 @@
+-- Migration: Scraper Health Aggregation
+-- Registered scrapers are synced by the queue worker, so sources that never ran (or stopped
+-- running) still show up on the health dashboard. Health is aggregated in SQL instead of
+-- loading every run into the API, which PostgREST caps at max_rows.
+
+CREATE TABLE IF NOT EXISTS public.scraper_sources (
+  name TEXT PRIMARY KEY,
+  city TEXT,
+  schedule_pattern TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- NULL while the scraper is registered in the worker
+  unregistered_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.scraper_sources ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can view scraper sources (the worker writes with the service role)
+CREATE POLICY "Admins can view scraper sources" ON public.scraper_sources
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role IN ('ADMIN', 'MODERATOR')
+    )
+  );
+
+-- Per-source health since p_since: every registered source plus any source with runs in the window
+CREATE OR REPLACE FUNCTION get_scraper_health(
+  p_since TIMESTAMPTZ,
+  p_stale_after_hours INTEGER DEFAULT 72
+)
+RETURNS TABLE(
+  scraper_name TEXT,
+  registered BOOLEAN,
+  enabled BOOLEAN,
+  total_runs INTEGER,
+  successful_runs INTEGER,
+  last_run_at TIMESTAMPTZ,
+  last_run_status scraper_run_status,
+  last_error TEXT,
+  last_success_at TIMESTAMPTZ,
+  last_real_events_at TIMESTAMPTZ,
+  avg_duration_ms INTEGER,
+  http_failures INTEGER,
+  stale BOOLEAN,
+  yield_by_day JSONB
+) AS $$
+  WITH runs AS (
+    SELECT * FROM public.scraper_runs WHERE started_at >= p_since
+  ),
+  names AS (
+    SELECT name AS scraper_name FROM public.scraper_sources
+    UNION
+    SELECT DISTINCT runs.scraper_name FROM runs
+  ),
+  totals AS (
+    SELECT
+      runs.scraper_name,
+      COUNT(*)::INTEGER AS total_runs,
+      (COUNT(*) FILTER (WHERE status = 'SUCCESS'))::INTEGER AS successful_runs,
+      MAX(started_at) FILTER (WHERE status = 'SUCCESS') AS last_success_at,
+      ROUND(AVG(duration_ms))::INTEGER AS avg_duration_ms,
+      SUM(runs.http_failures)::INTEGER AS http_failures
+    FROM runs
+    GROUP BY runs.scraper_name
+  ),
+  last_runs AS (
+    SELECT DISTINCT ON (runs.scraper_name) runs.scraper_name, started_at, status
+    FROM runs
+    ORDER BY runs.scraper_name, started_at DESC
+  ),
+  last_errors AS (
+    SELECT DISTINCT ON (runs.scraper_name) runs.scraper_name, error
+    FROM runs
+    WHERE error IS NOT NULL
+    ORDER BY runs.scraper_name, started_at DESC
+  ),
+  -- Looked up over the whole history, so a source silent for the entire window still has a date
+  productive AS (
+    SELECT scraper_runs.scraper_name, MAX(started_at) AS last_real_events_at
+    FROM public.scraper_runs
+    WHERE status = 'SUCCESS' AND real_events > 0
+    GROUP BY scraper_runs.scraper_name
+  ),
+  daily AS (
+    SELECT
+      days.scraper_name,
+      jsonb_agg(
+        jsonb_build_object('date', day, 'realEvents', real_events, 'newEvents', new_events, 'runs', runs)
+        ORDER BY day
+      ) AS yield_by_day
+    FROM (
+      SELECT
+        runs.scraper_name,
+        to_char(started_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+        SUM(real_events)::INTEGER AS real_events,
+        SUM(new_events)::INTEGER AS new_events,
+        COUNT(*)::INTEGER AS runs
+      FROM runs
+      GROUP BY runs.scraper_name, day
+    ) days
+    GROUP BY days.scraper_name
+  )
+  SELECT
+    names.scraper_name,
+    sources.name IS NOT NULL AND sources.unregistered_at IS NULL AS registered,
+    COALESCE(sources.enabled, false) AS enabled,
+    COALESCE(totals.total_runs, 0),
+    COALESCE(totals.successful_runs, 0),
+    last_runs.started_at,
+    last_runs.status,
+    last_errors.error,
+    totals.last_success_at,
+    productive.last_real_events_at,
+    totals.avg_duration_ms,
+    COALESCE(totals.http_failures, 0),
+    -- Disabled and unregistered sources are not expected to deliver anything
+    COALESCE(sources.enabled AND sources.unregistered_at IS NULL, false)
+      AND (
+        productive.last_real_events_at IS NULL
+        OR productive.last_real_events_at < NOW() - make_interval(hours => p_stale_after_hours)
+      ) AS stale,
+    COALESCE(daily.yield_by_day, '[]'::jsonb)
+  FROM names
+  LEFT JOIN public.scraper_sources sources ON sources.name = names.scraper_name
+  LEFT JOIN totals ON totals.scraper_name = names.scraper_name
+  LEFT JOIN last_runs ON last_runs.scraper_name = names.scraper_name
+  LEFT JOIN last_errors ON last_errors.scraper_name = names.scraper_name
+  LEFT JOIN productive ON productive.scraper_name = names.scraper_name
+  LEFT JOIN daily ON daily.scraper_name = names.scraper_name;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_scraper_health(TIMESTAMPTZ, INTEGER) IS
+'Health of every registered scraper and of any scraper with runs since p_since.
+Usage: SELECT * FROM get_scraper_health(NOW() - INTERVAL ''14 days'', 72);
+A source is stale when it is registered and enabled but produced no real events for p_stale_after_hours.';
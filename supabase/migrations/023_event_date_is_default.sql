@@ -0,0 +1,55 @@
+-- Migration: Defaulted Event Dates
+-- Scrapers date events listed without a date a few days after the run. Such rows are now flagged
+-- and hashed without their date, which keeps them out of move detection, date change
+-- notifications and cancellation. Copies piled up by earlier runs are archived.
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS date_is_default BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.events
+SET date_is_default = true
+WHERE provenance = 'SYNTHESIZED';
+
+-- Defaulted dates were a fixed number of days after the run that inserted the row
+-- (getDefaultDate() of each scraper, startInDays of the selector definitions)
+UPDATE public.events
+SET date_is_default = true
+WHERE
+  provenance = 'SCRAPED'
+  AND recurrence_rule IS NULL
+  AND EXISTS (
+    SELECT 1
+    FROM unnest(CASE
+      WHEN source_name = 'czas-dzieci' THEN ARRAY[0, 1]
+      WHEN source_name = 'bialystokonline' THEN ARRAY[3]
+      WHEN source_name IN ('bok-bialystok', 'evenea-bialystok') THEN ARRAY[14]
+      ELSE ARRAY[7]
+    END) AS default_offset(days)
+    WHERE abs(extract(epoch FROM start_date - created_at) - default_offset.days * 86400) < 900
+  );
+
+-- Keep the newest copy of every defaulted event
+UPDATE public.events
+SET status = 'ARCHIVED'
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (PARTITION BY title, location_name ORDER BY created_at DESC) AS position
+    FROM public.events
+    WHERE provenance = 'SCRAPED' AND date_is_default AND status = 'ACTIVE'
+  ) ranked
+  WHERE position > 1
+);
+
+-- Same hash as BaseScraper.generateHash() gives a defaulted date: sha256 of "<title>-undated-<location>"
+UPDATE public.events
+SET source_hash = encode(sha256(convert_to(title || '-undated-' || location_name, 'UTF8')), 'hex')
+WHERE
+  provenance = 'SCRAPED'
+  AND date_is_default
+  AND status = 'ACTIVE'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.events other
+    WHERE other.source_hash = encode(sha256(convert_to(events.title || '-undated-' || events.location_name, 'UTF8')), 'hex')
+  );
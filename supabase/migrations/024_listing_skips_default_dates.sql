@@ -0,0 +1,70 @@
+-- Migration: Listing Skips Defaulted Dates
+-- Rows dated by a scraper default (023) are hashed without the date, but their start_date keeps
+-- moving with the runs. They are never counted as missed, so an undated listing entry can not be
+-- cancelled - it simply expires once the source stops listing it.
+
+CREATE OR REPLACE FUNCTION record_source_listing(
+  p_source_name TEXT,
+  p_seen_hashes TEXT[],
+  p_missed_runs_threshold INTEGER DEFAULT 3
+)
+RETURNS TABLE(cancelled_event_id UUID) AS $$
+BEGIN
+  -- Listed again: reset the counter and bring back events cancelled by mistake
+  UPDATE public.events
+  SET
+    missed_runs = 0,
+    status = CASE WHEN status = 'CANCELLED' AND cancelled_at IS NOT NULL THEN 'ACTIVE' ELSE status END,
+    cancelled_at = NULL
+  WHERE
+    source_name = p_source_name
+    AND source_hash = ANY(p_seen_hashes)
+    AND (missed_runs > 0 OR cancelled_at IS NOT NULL);
+
+  -- Previously listed future events missing from this run
+  UPDATE public.events
+  SET missed_runs = missed_runs + 1
+  WHERE
+    source_name = p_source_name
+    AND status = 'ACTIVE'
+    AND provenance = 'SCRAPED'
+    AND NOT date_is_default
+    AND (
+      start_date > NOW()
+      OR (recurrence_rule IS NOT NULL AND (recurrence_until IS NULL OR recurrence_until > NOW()))
+    )
+    AND NOT (source_hash = ANY(p_seen_hashes))
+    -- Merged events may still be listed by another source
+    AND NOT EXISTS (
+      SELECT 1 FROM public.event_duplicates
+      WHERE event_duplicates.canonical_event_id = events.id
+    );
+
+  RETURN QUERY
+  UPDATE public.events
+  SET
+    status = 'CANCELLED',
+    cancelled_at = NOW()
+  WHERE
+    source_name = p_source_name
+    AND status = 'ACTIVE'
+    AND NOT date_is_default
+    AND (
+      start_date > NOW()
+      OR (recurrence_rule IS NOT NULL AND (recurrence_until IS NULL OR recurrence_until > NOW()))
+    )
+    AND missed_runs >= p_missed_runs_threshold
+  RETURNING id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Counters piled up by drifting hashes before the flag existed
+UPDATE public.events
+SET missed_runs = 0
+WHERE date_is_default AND missed_runs > 0;
+
+COMMENT ON FUNCTION record_source_listing(TEXT, TEXT[], INTEGER) IS
+'Called by the scraper worker after a successful run whose listing pages were all fetched,
+with the source_hash values it listed. Rows with a defaulted date are never counted as missed.
+Usage: SELECT * FROM record_source_listing(''opera-bialystok'', ARRAY[''hash1'', ''hash2''], 3);
+Returns the ids of events cancelled by this call.';
@@ -0,0 +1,149 @@
+-- Migration: Listing Series by Their Next Date
+-- A series is one row whose start_date is its first occurrence, often months ago. Date-ordered
+-- lists page by keyset, so they have to sort a series under its next date in SQL. The dates are
+-- expanded by @events-agregator/shared (the only RRULE implementation) and stored here when a
+-- series is saved and daily by the scraper worker.
+
+CREATE TABLE IF NOT EXISTS public.event_occurrences (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (event_id, starts_at)
+);
+
+ALTER TABLE public.event_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Event occurrences are viewable by everyone" ON public.event_occurrences
+  FOR SELECT USING (true);
+
+-- Upcoming dates of a series, replacing the ones stored before (an empty array clears them)
+CREATE OR REPLACE FUNCTION replace_event_occurrences(p_event_id UUID, p_dates TIMESTAMPTZ[])
+RETURNS VOID AS $$
+  DELETE FROM public.event_occurrences WHERE event_id = p_event_id;
+
+  INSERT INTO public.event_occurrences (event_id, starts_at)
+  SELECT p_event_id, starts_at FROM unnest(p_dates) AS starts_at
+  ON CONFLICT DO NOTHING;
+$$ LANGUAGE sql;
+
+-- The date an event is listed under from p_from on: the start of a one-off event, the first stored
+-- occurrence of a series. A series with no stored date that far ahead is listed at p_from.
+CREATE OR REPLACE FUNCTION event_next_occurrence(p_event public.events, p_from TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT CASE
+    WHEN p_event.recurrence_rule IS NULL THEN p_event.start_date
+    ELSE COALESCE(
+      (
+        SELECT min(o.starts_at)
+        FROM public.event_occurrences o
+        WHERE o.event_id = p_event.id AND o.starts_at >= p_from
+      ),
+      GREATEST(p_event.start_date, p_from)
+    )
+  END
+$$ LANGUAGE sql STABLE;
+
+-- search_events lists the table columns (search_vector stays internal) plus next_occurrence,
+-- the keyset of date-ordered lists; p_order_by gains 'date'
+DROP FUNCTION IF EXISTS search_events(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT);
+
+CREATE OR REPLACE FUNCTION search_events(
+  p_query TEXT DEFAULT NULL,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL,
+  p_radius_km DOUBLE PRECISION DEFAULT NULL,
+  p_order_by TEXT DEFAULT 'relevance', -- 'relevance', 'distance' or 'date'
+  p_from TIMESTAMPTZ DEFAULT NULL -- Start of the listed range, NULL for now
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  age_min INTEGER,
+  age_max INTEGER,
+  price_type price_type,
+  price DECIMAL(10, 2),
+  currency TEXT,
+  location_name TEXT,
+  address TEXT,
+  city TEXT,
+  postal_code TEXT,
+  lat DECIMAL(10, 7),
+  lng DECIMAL(10, 7),
+  organizer_name TEXT,
+  organizer_id UUID,
+  source_url TEXT,
+  source_hash TEXT,
+  source_id TEXT,
+  source_name TEXT,
+  image_urls TEXT[],
+  start_date TIMESTAMPTZ,
+  end_date TIMESTAMPTZ,
+  category event_category,
+  tags TEXT[],
+  status event_status,
+  view_count INTEGER,
+  click_count INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  canonical_event_id UUID,
+  provenance event_provenance,
+  cancelled_at TIMESTAMPTZ,
+  recurrence_rule TEXT,
+  recurrence_exceptions DATE[],
+  recurrence_until TIMESTAMPTZ,
+  date_is_default BOOLEAN,
+  next_occurrence TIMESTAMPTZ
+) AS $$
+  WITH search AS (
+    SELECT
+      NULLIF(trim(COALESCE(p_query, '')), '') IS NOT NULL AS has_text,
+      build_event_search_query(p_query) AS q,
+      public.f_unaccent(lower(trim(COALESCE(p_query, '')))) AS term,
+      CASE WHEN p_lat IS NOT NULL AND p_lng IS NOT NULL THEN ll_to_earth(p_lat, p_lng) END AS center,
+      COALESCE(p_from, NOW()) AS listed_from
+  )
+  SELECT
+    e.id, e.title, e.description, e.age_min, e.age_max, e.price_type, e.price, e.currency,
+    e.location_name, e.address, e.city, e.postal_code, e.lat, e.lng, e.organizer_name, e.organizer_id,
+    e.source_url, e.source_hash, e.source_id, e.source_name, e.image_urls, e.start_date, e.end_date,
+    e.category, e.tags, e.status, e.view_count, e.click_count, e.created_at, e.updated_at,
+    e.canonical_event_id, e.provenance, e.cancelled_at, e.recurrence_rule, e.recurrence_exceptions,
+    e.recurrence_until, e.date_is_default,
+    event_next_occurrence(e, search.listed_from) AS next_occurrence
+  FROM public.events e, search
+  WHERE
+    (
+      NOT search.has_text
+      OR (search.q IS NOT NULL AND (e.search_vector @@ search.q OR search.term <% public.f_unaccent(lower(e.title))))
+    )
+    AND (
+      search.center IS NULL
+      OR p_radius_km IS NULL
+      OR (
+        e.lat IS NOT NULL AND e.lng IS NOT NULL
+        -- earth_box uses the index, earth_distance trims the corners of the box
+        AND earth_box(search.center, p_radius_km * 1000) @> ll_to_earth(e.lat, e.lng)
+        AND earth_distance(search.center, ll_to_earth(e.lat, e.lng)) <= p_radius_km * 1000
+      )
+    )
+  ORDER BY
+    CASE WHEN p_order_by = 'distance' AND search.center IS NOT NULL AND e.lat IS NOT NULL AND e.lng IS NOT NULL
+      THEN earth_distance(search.center, ll_to_earth(e.lat, e.lng))
+    END ASC NULLS LAST,
+    CASE WHEN search.has_text AND p_order_by <> 'date'
+      THEN ts_rank_cd(e.search_vector, search.q, 32) + 0.5 * word_similarity(search.term, public.f_unaccent(lower(e.title)))
+    END DESC NULLS LAST,
+    next_occurrence ASC,
+    e.id ASC
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_events(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TIMESTAMPTZ) TO anon, authenticated;
+
+COMMENT ON FUNCTION search_events(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TIMESTAMPTZ) IS
+'Event lists and search by text and/or distance. Filter and paginate the result like the events table;
+date-ordered lists page by keyset on (next_occurrence, id):
+supabase.rpc(''search_events'', { p_order_by: ''date'', p_from: ''2026-10-24T00:00:00Z'' }).eq(''status'', ''ACTIVE'').order(''next_occurrence'').order(''id'')';
+
+COMMENT ON TABLE public.event_occurrences IS
+'Dates of recurring events for the next year, written with replace_event_occurrences() by the API and the
+scraper worker. Only used to order lists - the dates shown are expanded from recurrence_rule.';